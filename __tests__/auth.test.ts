@@ -0,0 +1,88 @@
+import { adminOnly, generateAuthorizationKey, hashPassword, isAdminToken, parseBasicAuth, verifyPassword } from '../src/auth';
+
+describe('Charge point authentication helpers', () => {
+  const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+  describe('parseBasicAuth', () => {
+    it('should decode username and password', () => {
+      expect(parseBasicAuth(basic('CP001:secret'))).toEqual({ username: 'CP001', password: 'secret' });
+    });
+
+    it('should keep colons in the password', () => {
+      expect(parseBasicAuth(basic('CP001:a:b:c'))).toEqual({ username: 'CP001', password: 'a:b:c' });
+    });
+
+    it('should reject missing or malformed headers', () => {
+      expect(parseBasicAuth(undefined)).toBeNull();
+      expect(parseBasicAuth('')).toBeNull();
+      expect(parseBasicAuth('Bearer abc')).toBeNull();
+      expect(parseBasicAuth(basic('no-separator'))).toBeNull();
+    });
+  });
+
+  describe('hashPassword / verifyPassword', () => {
+    it('should verify the original password only', async () => {
+      const hash = await hashPassword('0123456789abcdef');
+
+      expect(hash).toMatch(/^scrypt\$/);
+      expect(hash).not.toContain('0123456789abcdef');
+      await expect(verifyPassword('0123456789abcdef', hash)).resolves.toBe(true);
+      await expect(verifyPassword('0123456789abcdeX', hash)).resolves.toBe(false);
+    });
+
+    it('should salt every hash', async () => {
+      expect(await hashPassword('0123456789abcdef')).not.toEqual(await hashPassword('0123456789abcdef'));
+    });
+
+    it('should reject unknown hash formats', async () => {
+      await expect(verifyPassword('secret', 'plain-text')).resolves.toBe(false);
+    });
+  });
+
+  describe('isAdminToken', () => {
+    it('should accept the configured bearer token only', () => {
+      expect(isAdminToken('Bearer s3cret-admin', 's3cret-admin')).toBe(true);
+      expect(isAdminToken('Bearer s3cret', 's3cret-admin')).toBe(false);
+      expect(isAdminToken(undefined, 's3cret-admin')).toBe(false);
+      expect(isAdminToken('Basic czNjcmV0LWFkbWlu', 's3cret-admin')).toBe(false);
+    });
+
+    it('should never match an empty token', () => {
+      expect(isAdminToken('Bearer x', '')).toBe(false);
+    });
+  });
+
+  describe('adminOnly', () => {
+    const handler = jest.fn().mockResolvedValue({ status: 'Accepted' });
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('should answer 401 without the admin token', async () => {
+      const route = adminOnly(handler, 's3cret-admin');
+
+      await expect(route({ headers: {} })).rejects.toMatchObject({ status: 401 });
+      await expect(route({ headers: { authorization: 'Bearer guess' } })).rejects.toMatchObject({ status: 401 });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should pass requests with the admin token on', async () => {
+      const route = adminOnly(handler, 's3cret-admin');
+
+      await expect(route({ headers: { authorization: 'Bearer s3cret-admin' } })).resolves.toEqual({ status: 'Accepted' });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse everything while no admin token is configured', async () => {
+      const route = adminOnly(handler, undefined);
+
+      await expect(route({ headers: { authorization: 'Bearer anything' } })).rejects.toMatchObject({ status: 403 });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should generate 40 hex character keys', () => {
+    expect(generateAuthorizationKey()).toMatch(/^[0-9a-f]{40}$/);
+  });
+});
@@ -0,0 +1,22 @@
+import { liveClockSkewMs } from '../src/clock';
+
+describe('Charger clock skew', () => {
+  const connectedAt = new Date('2025-01-01T10:00:00Z');
+  const receivedAt = new Date('2025-01-01T10:30:00Z');
+
+  it('should measure notifications raised during the connection', () => {
+    expect(liveClockSkewMs(new Date('2025-01-01T10:28:00Z'), receivedAt, connectedAt)).toBe(2 * 60 * 1000);
+  });
+
+  it('should report clocks running ahead as negative skew', () => {
+    expect(liveClockSkewMs(new Date('2025-01-01T10:35:00Z'), receivedAt, connectedAt)).toBe(-5 * 60 * 1000);
+  });
+
+  it('should ignore notifications replayed from before the connection', () => {
+    expect(liveClockSkewMs(new Date('2025-01-01T07:00:00Z'), receivedAt, connectedAt)).toBeUndefined();
+  });
+
+  it('should ignore notifications without a known connection', () => {
+    expect(liveClockSkewMs(new Date('2025-01-01T10:28:00Z'), receivedAt)).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { diffConfiguration, matchTemplate } from '../src/configurationTemplates';
+
+describe('Configuration templates', () => {
+  describe('matchTemplate', () => {
+    const templates = [
+      { id: 1, vendor: 'ACME', model: null, firmwareVersion: null },
+      { id: 2, vendor: 'ACME', model: 'Wallbox', firmwareVersion: null },
+      { id: 3, vendor: 'ACME', model: 'Wallbox', firmwareVersion: '2.1.0' },
+      { id: 4, vendor: 'Other', model: null, firmwareVersion: null },
+    ];
+
+    it('should prefer the template with model and firmware version', () => {
+      expect(matchTemplate(templates, { vendor: 'ACME', model: 'Wallbox', firmwareVersion: '2.1.0' })?.id).toBe(3);
+    });
+
+    it('should fall back to the model, then to the vendor', () => {
+      expect(matchTemplate(templates, { vendor: 'ACME', model: 'Wallbox', firmwareVersion: '2.0.0' })?.id).toBe(2);
+      expect(matchTemplate(templates, { vendor: 'ACME', model: 'Pillar', firmwareVersion: '2.1.0' })?.id).toBe(1);
+    });
+
+    it('should not match chargers of another vendor', () => {
+      expect(matchTemplate(templates, { vendor: 'Unknown', model: 'Wallbox', firmwareVersion: '2.1.0' })).toBeNull();
+      expect(matchTemplate(templates, { vendor: null, model: null, firmwareVersion: null })).toBeNull();
+    });
+  });
+
+  describe('diffConfiguration', () => {
+    const stored = [
+      { key: 'HeartbeatInterval', value: '300', readonly: false, pendingValue: null },
+      { key: 'MeterValueSampleInterval', value: '60', readonly: false, pendingValue: '30' },
+      { key: 'NumberOfConnectors', value: '2', readonly: true, pendingValue: null },
+    ];
+
+    it('should skip keys that already have the expected value', () => {
+      expect(diffConfiguration({ HeartbeatInterval: '300' }, stored)).toEqual([]);
+    });
+
+    it('should report drifted, pending, read-only and missing keys', () => {
+      expect(diffConfiguration({
+        HeartbeatInterval: '900',
+        MeterValueSampleInterval: '30',
+        NumberOfConnectors: '1',
+        LocalAuthListEnabled: 'true',
+      }, stored)).toEqual([
+        { key: 'HeartbeatInterval', expected: '900', actual: '300', readonly: false, pending: false },
+        { key: 'MeterValueSampleInterval', expected: '30', actual: '60', readonly: false, pending: true },
+        { key: 'NumberOfConnectors', expected: '1', actual: '2', readonly: true, pending: false },
+        { key: 'LocalAuthListEnabled', expected: 'true', actual: undefined, readonly: false, pending: false },
+      ]);
+    });
+  });
+});
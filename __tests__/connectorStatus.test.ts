@@ -0,0 +1,42 @@
+import { isLegalTransition } from '../src/connectorStatus';
+
+describe('Connector status state machine', () => {
+  it.each([
+    ['Available', 'Preparing'],
+    ['Preparing', 'Charging'],
+    ['Charging', 'SuspendedEV'],
+    ['SuspendedEV', 'Charging'],
+    ['Charging', 'SuspendedEVSE'],
+    ['Charging', 'Finishing'],
+    ['Finishing', 'Available'],
+    ['Reserved', 'Preparing'],
+    ['Faulted', 'Available'],
+  ])('should allow %s -> %s', (from, to) => {
+    expect(isLegalTransition(from, to, 1)).toBe(true);
+  });
+
+  it.each([
+    ['Available', 'Finishing'],
+    ['Preparing', 'Reserved'],
+    ['Preparing', 'Unavailable'],
+    ['Charging', 'Preparing'],
+    ['Finishing', 'Charging'],
+    ['Unavailable', 'Finishing'],
+  ])('should reject %s -> %s', (from, to) => {
+    expect(isLegalTransition(from, to, 1)).toBe(false);
+  });
+
+  it('should treat a repeated status as legal', () => {
+    expect(isLegalTransition('Charging', 'Charging', 1)).toBe(true);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(isLegalTransition('Occupied', 'Available', 1)).toBe(false);
+  });
+
+  it('should only allow charge point statuses on connector 0', () => {
+    expect(isLegalTransition('Available', 'Unavailable', 0)).toBe(true);
+    expect(isLegalTransition('Unavailable', 'Faulted', 0)).toBe(true);
+    expect(isLegalTransition('Available', 'Charging', 0)).toBe(false);
+  });
+});
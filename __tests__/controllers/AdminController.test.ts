@@ -0,0 +1,575 @@
+import { AdminController } from '../../src/controllers/AdminController';
+import { OcppService } from '../../src/services/OcppService';
+import { HttpError } from '../../src/errors';
+import { adminOnly } from '../../src/auth';
+import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import {
+  createMockChargePoint,
+  createMockConnector,
+  createMockMeterValue,
+  createMockStatusNotification,
+  createMockTransaction,
+  chargePointSelect,
+} from '../helpers/test-utils';
+import { ZodError } from 'zod';
+
+describe('AdminController - Read API', () => {
+  let adminController: AdminController;
+  let mockPrisma: MockPrismaClient;
+
+  beforeEach(() => {
+    mockPrisma = createMockPrismaClient();
+    adminController = new AdminController(new OcppService(mockPrisma));
+  });
+
+  describe('listChargePoints', () => {
+    it('should filter and paginate charge points', async () => {
+      mockPrisma.chargePoint.findMany.mockResolvedValue([createMockChargePoint()]);
+      mockPrisma.chargePoint.count.mockResolvedValue(41);
+
+      const result = await adminController.listChargePoints(new URLSearchParams({
+        status: 'Online',
+        vendor: 'TestVendor',
+        firmwareVersion: '1.0.0',
+        lastSeenFrom: '2025-01-01T00:00:00Z',
+        page: '3',
+        pageSize: '20',
+      }));
+
+      const where = {
+        status: 'Online',
+        vendor: 'TestVendor',
+        firmwareVersion: '1.0.0',
+        lastSeen: { gte: new Date('2025-01-01T00:00:00Z'), lte: undefined },
+      };
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledWith({
+        where,
+        select: chargePointSelect,
+        orderBy: { cpId: 'asc' },
+        skip: 40,
+        take: 20,
+      });
+      expect(mockPrisma.chargePoint.count).toHaveBeenCalledWith({ where });
+      expect(result).toEqual({
+        items: [expect.objectContaining({ cpId: 'CP001' })],
+        total: 41,
+        page: 3,
+        pageSize: 20,
+      });
+    });
+
+    it('should default to the first page without filters', async () => {
+      mockPrisma.chargePoint.findMany.mockResolvedValue([]);
+      mockPrisma.chargePoint.count.mockResolvedValue(0);
+
+      const result = await adminController.listChargePoints(new URLSearchParams());
+
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledWith({
+        where: { status: undefined, vendor: undefined, firmwareVersion: undefined },
+        select: chargePointSelect,
+        orderBy: { cpId: 'asc' },
+        skip: 0,
+        take: 50,
+      });
+      expect(result).toEqual({ items: [], total: 0, page: 1, pageSize: 50 });
+    });
+
+    it('should reject invalid query parameters', async () => {
+      await expect(
+        adminController.listChargePoints(new URLSearchParams({ pageSize: '1000' }))
+      ).rejects.toBeInstanceOf(ZodError);
+      await expect(
+        adminController.listChargePoints(new URLSearchParams({ lastSeenFrom: 'yesterday' }))
+      ).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe('getChargePoint', () => {
+    it('should return the charge point with its connectors', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.connector.findMany.mockResolvedValue([
+        createMockConnector({ connectorId: 0 }),
+        createMockConnector({ connectorId: 1, status: 'Charging', transactionId: 7 }),
+      ]);
+
+      const result = await adminController.getChargePoint('CP001');
+
+      expect(mockPrisma.connector.findMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        orderBy: { connectorId: 'asc' },
+      });
+      expect(result.cpId).toBe('CP001');
+      expect(result.connectors.map(connector => connector.status)).toEqual(['Available', 'Charging']);
+    });
+
+    it('should return 404 for an unknown charge point', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.getChargePoint('CP999')).rejects.toMatchObject({
+        status: 404,
+        message: 'Charge point CP999 not found',
+      });
+      await expect(adminController.listConnectors('CP999')).rejects.toBeInstanceOf(HttpError);
+    });
+  });
+
+  describe('provisioning', () => {
+    it('should list chargers awaiting approval', async () => {
+      mockPrisma.chargePoint.findMany.mockResolvedValue([createMockChargePoint({ registrationStatus: 'Pending' })]);
+      mockPrisma.chargePoint.count.mockResolvedValue(1);
+
+      const result = await adminController.listAwaitingApproval(new URLSearchParams({ registrationStatus: 'Accepted' }));
+
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ registrationStatus: 'Pending' }),
+      }));
+      expect(result.total).toBe(1);
+    });
+
+    it('should approve a pending charger with its heartbeat interval', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint({ registrationStatus: 'Pending' }));
+      mockPrisma.chargePoint.update.mockResolvedValue(createMockChargePoint({ heartbeatInterval: 600 }));
+
+      await adminController.approveChargePoint('CP001', { heartbeatInterval: 600 });
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { registrationStatus: 'Accepted', heartbeatInterval: 600 },
+        select: chargePointSelect,
+      });
+    });
+
+    it('should reject a charger', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint({ registrationStatus: 'Pending' }));
+
+      await adminController.rejectChargePoint('CP001');
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { registrationStatus: 'Rejected' },
+        select: chargePointSelect,
+      });
+    });
+
+    it('should return 404 when approving an unknown charger', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.approveChargePoint('CP999', {})).rejects.toMatchObject({ status: 404 });
+      expect(mockPrisma.chargePoint.update).not.toHaveBeenCalled();
+    });
+
+    it('should provision a charger before it connects', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await adminController.provisionChargePoint({ cpId: 'CP002', heartbeatInterval: 120 });
+
+      expect(mockPrisma.chargePoint.create).toHaveBeenCalledWith({
+        data: { cpId: 'CP002', registrationStatus: 'Accepted', heartbeatInterval: 120 },
+        select: chargePointSelect,
+      });
+    });
+
+    it('should set the authorization key of a registered charger', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+
+      await adminController.setAuthorizationKey('CP001', { authorizationKey: '0123456789abcdef' });
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { authPasswordHash: expect.stringMatching(/^scrypt\$/) },
+      });
+    });
+
+    it('should not create a charger when setting an authorization key', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(
+        adminController.setAuthorizationKey('CP999', { authorizationKey: '0123456789abcdef' })
+      ).rejects.toMatchObject({ status: 404 });
+      expect(mockPrisma.chargePoint.update).not.toHaveBeenCalled();
+      expect(mockPrisma.chargePoint.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not provision an existing charger twice', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+
+      await expect(adminController.provisionChargePoint({ cpId: 'CP001' })).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should refuse provisioning and approval without the admin token', async () => {
+      // Wired like the routes in server.ts
+      const routes = [
+        adminOnly(({ body }: { headers: Record<string, string>; body: unknown }) =>
+          adminController.provisionChargePoint(body), 's3cret-admin'),
+        adminOnly(() => adminController.approveChargePoint('CP001', {}), 's3cret-admin'),
+        adminOnly(() => adminController.rejectChargePoint('CP001'), 's3cret-admin'),
+        adminOnly(() => adminController.setHeartbeatInterval('CP001', { heartbeatInterval: 600 }), 's3cret-admin'),
+        adminOnly(() => adminController.listAwaitingApproval(new URLSearchParams()), 's3cret-admin'),
+      ];
+
+      for (const route of routes) {
+        await expect(route({ headers: {}, body: { cpId: 'CP002' } })).rejects.toMatchObject({ status: 401 });
+      }
+      expect(mockPrisma.chargePoint.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.chargePoint.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.chargePoint.create).not.toHaveBeenCalled();
+      expect(mockPrisma.chargePoint.update).not.toHaveBeenCalled();
+
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+      await routes[0]({ headers: { authorization: 'Bearer s3cret-admin' }, body: { cpId: 'CP002' } });
+      expect(mockPrisma.chargePoint.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reset the heartbeat interval to the server default', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint({ heartbeatInterval: 600 }));
+
+      await adminController.setHeartbeatInterval('CP001', { heartbeatInterval: null });
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { heartbeatInterval: null },
+        select: chargePointSelect,
+      });
+    });
+
+    it('should reject invalid heartbeat intervals', async () => {
+      await expect(
+        adminController.setHeartbeatInterval('CP001', { heartbeatInterval: 0 })
+      ).rejects.toBeInstanceOf(ZodError);
+      await expect(
+        adminController.provisionChargePoint({ cpId: 'CP/001' })
+      ).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe('password hash', () => {
+    const row = createMockChargePoint({ authPasswordHash: 'scrypt$c2FsdA==$aGFzaA==' });
+    // Prisma returns only the selected columns
+    const selected = ({ select }: any): any => Object.fromEntries(Object.entries(row).filter(([column]) => !select || select[column]));
+
+    beforeEach(() => {
+      mockPrisma.chargePoint.findUnique.mockImplementation(selected);
+      mockPrisma.chargePoint.findMany.mockImplementation(args => [selected(args)] as any);
+      mockPrisma.chargePoint.count.mockResolvedValue(1);
+      mockPrisma.chargePoint.update.mockImplementation(selected);
+      mockPrisma.chargePoint.create.mockImplementation(selected);
+      mockPrisma.connector.findMany.mockResolvedValue([]);
+    });
+
+    it('should never be part of a charge point response', async () => {
+      const responses = [
+        await adminController.getChargePoint('CP001'),
+        await adminController.listChargePoints(new URLSearchParams()),
+        await adminController.listAwaitingApproval(new URLSearchParams()),
+        await adminController.approveChargePoint('CP001', {}),
+        await adminController.rejectChargePoint('CP001'),
+        await adminController.setHeartbeatInterval('CP001', { heartbeatInterval: 600 }),
+      ];
+      mockPrisma.chargePoint.findUnique.mockResolvedValueOnce(null);
+      responses.push(await adminController.provisionChargePoint({ cpId: 'CP002' }));
+
+      for (const response of responses) {
+        expect(JSON.stringify(response)).not.toContain('authPasswordHash');
+        expect(JSON.stringify(response)).toContain('"cpId":"CP00');
+      }
+    });
+  });
+
+  describe('listStatusNotifications', () => {
+    it('should return the most recent notifications for a connector', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.statusNotification.findMany.mockResolvedValue([createMockStatusNotification()]);
+
+      const result = await adminController.listStatusNotifications('CP001', new URLSearchParams({
+        connectorId: '1',
+        limit: '10',
+      }));
+
+      expect(mockPrisma.statusNotification.findMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', connectorId: 1 },
+        orderBy: { timestamp: 'desc' },
+        take: 10,
+      });
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should list the history of a key, newest first', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.configurationChange.findMany.mockResolvedValue([]);
+      mockPrisma.configurationChange.count.mockResolvedValue(0);
+
+      const result = await adminController.listConfigurationChanges('CP001', 'HeartbeatInterval', new URLSearchParams());
+
+      expect(mockPrisma.configurationChange.findMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', key: 'HeartbeatInterval' },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 50,
+      });
+      expect(result).toEqual({ items: [], total: 0, page: 1, pageSize: 50 });
+    });
+
+    it('should return 404 for an unknown charge point', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.getConfiguration('CP404')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('configuration templates', () => {
+    const body = {
+      name: 'ACME Wallbox',
+      vendor: 'ACME',
+      model: 'Wallbox',
+      keys: { HeartbeatInterval: '900' },
+    };
+
+    it('should create a template for a vendor and model', async () => {
+      mockPrisma.configurationTemplate.findFirst.mockResolvedValue(null);
+      mockPrisma.configurationTemplate.create.mockResolvedValue({ id: 1 } as any);
+
+      await adminController.createConfigurationTemplate(body);
+
+      expect(mockPrisma.configurationTemplate.create).toHaveBeenCalledWith({
+        data: { ...body, firmwareVersion: null },
+      });
+    });
+
+    it('should refuse a second template for the same selector', async () => {
+      mockPrisma.configurationTemplate.findFirst.mockResolvedValue({ id: 2, name: 'Wallbox defaults' } as any);
+
+      await expect(adminController.createConfigurationTemplate(body)).rejects.toMatchObject({ status: 409 });
+      expect(mockPrisma.configurationTemplate.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse templates that set the AuthorizationKey', async () => {
+      await expect(adminController.createConfigurationTemplate({ ...body, keys: { AuthorizationKey: 'secret' } }))
+        .rejects.toBeInstanceOf(ZodError);
+    });
+
+    it('should return 404 when updating an unknown template', async () => {
+      mockPrisma.configurationTemplate.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.updateConfigurationTemplate('7', body)).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should list drift that needs attention', async () => {
+      mockPrisma.configurationDrift.findMany.mockResolvedValue([]);
+      mockPrisma.configurationDrift.count.mockResolvedValue(0);
+
+      await adminController.listConfigurationDrift(new URLSearchParams({ failed: 'true', templateId: '3' }));
+
+      expect(mockPrisma.configurationDrift.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: { in: ['Rejected', 'NotSupported', 'ReadOnly', 'Failed'] }, templateId: 3 },
+      }));
+    });
+  });
+
+  describe('listRemoteCommands', () => {
+    it('should list the commands an operator sent, newest first', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.remoteCommand.findMany.mockResolvedValue([]);
+      mockPrisma.remoteCommand.count.mockResolvedValue(0);
+
+      const result = await adminController.listRemoteCommands('CP001', new URLSearchParams({ action: 'Reset', issuedBy: 'alice' }));
+
+      expect(mockPrisma.remoteCommand.findMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', action: 'Reset', issuedBy: 'alice' },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 50,
+      });
+      expect(result).toEqual({ items: [], total: 0, page: 1, pageSize: 50 });
+    });
+
+    it('should return 404 for an unknown charge point', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.listRemoteCommands('CP404', new URLSearchParams())).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('firmware campaigns', () => {
+    const body = {
+      name: 'Wallbox 2.1.0',
+      vendor: 'ACME',
+      model: 'Wallbox',
+      targetVersion: '2.1.0',
+      fileName: 'wallbox-2.1.0.bin',
+    };
+    const firmware = {
+      find: jest.fn(),
+      locationOf: jest.fn((fileName: string) => `http://ocpp.example.com/firmware/${fileName}`),
+    };
+
+    beforeEach(() => {
+      firmware.find.mockReset();
+      adminController = new AdminController(new OcppService(mockPrisma), firmware as any);
+      mockPrisma.firmwareUpdate.groupBy.mockResolvedValue([{ status: 'Queued', _count: { _all: 2 } }] as any);
+    });
+
+    it('should queue the matching chargers that are not on the target version yet', async () => {
+      firmware.find.mockResolvedValue({ fileName: 'wallbox-2.1.0.bin', size: 1024 });
+      mockPrisma.firmwareCampaign.findUnique.mockResolvedValue(null);
+      mockPrisma.chargePoint.findMany.mockResolvedValue([{ cpId: 'CP001' }, { cpId: 'CP002' }] as any);
+      mockPrisma.firmwareCampaign.create.mockResolvedValue({ id: 1, name: 'Wallbox 2.1.0' } as any);
+
+      const result = await adminController.createFirmwareCampaign(body, 'alice');
+
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          vendor: 'ACME',
+          model: 'Wallbox',
+          firmwareVersion: undefined,
+          registrationStatus: 'Accepted',
+          OR: [{ firmwareVersion: null }, { firmwareVersion: { not: '2.1.0' } }],
+        }),
+      }));
+      expect(mockPrisma.firmwareCampaign.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Wallbox 2.1.0',
+          vendor: 'ACME',
+          model: 'Wallbox',
+          fromVersion: null,
+          targetVersion: '2.1.0',
+          location: 'http://ocpp.example.com/firmware/wallbox-2.1.0.bin',
+          batchSize: 10,
+          maxFailureRate: 0.2,
+          issuedBy: 'alice',
+          updates: { create: [{ cpId: 'CP001' }, { cpId: 'CP002' }] },
+        },
+      });
+      expect(result).toEqual({ id: 1, name: 'Wallbox 2.1.0', progress: { Queued: 2 } });
+    });
+
+    it('should refuse a second campaign with the same name', async () => {
+      mockPrisma.firmwareCampaign.findUnique.mockResolvedValue({ id: 1 } as any);
+
+      await expect(adminController.createFirmwareCampaign(body)).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should return 404 for files the repository does not have', async () => {
+      mockPrisma.firmwareCampaign.findUnique.mockResolvedValue(null);
+      firmware.find.mockResolvedValue(null);
+
+      await expect(adminController.createFirmwareCampaign(body)).rejects.toMatchObject({ status: 404 });
+      expect(mockPrisma.firmwareCampaign.create).not.toHaveBeenCalled();
+    });
+
+    it('should approve the failed batch when resuming a paused campaign', async () => {
+      mockPrisma.firmwareCampaign.findUnique.mockResolvedValue({ id: 1, status: 'Paused', currentBatch: 3 } as any);
+      mockPrisma.firmwareCampaign.update.mockResolvedValue({ id: 1, status: 'Running' } as any);
+
+      await adminController.resumeFirmwareCampaign('1');
+
+      expect(mockPrisma.firmwareCampaign.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'Running', pauseReason: null, approvedBatch: 3 },
+      });
+    });
+
+    it('should only pause running campaigns', async () => {
+      mockPrisma.firmwareCampaign.findUnique.mockResolvedValue({ id: 1, name: 'Wallbox 2.1.0', status: 'Completed' } as any);
+
+      await expect(adminController.pauseFirmwareCampaign('1')).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('listMessages', () => {
+    it('should page through a charger\'s journal within a time range', async () => {
+      mockPrisma.ocppMessage.findMany.mockResolvedValue([]);
+      mockPrisma.ocppMessage.count.mockResolvedValue(0);
+
+      const result = await adminController.listMessages('CP001', new URLSearchParams({
+        direction: 'in',
+        action: 'StartTransaction',
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-02T00:00:00Z',
+        pageSize: '100',
+      }));
+
+      expect(mockPrisma.ocppMessage.findMany).toHaveBeenCalledWith({
+        where: {
+          cpId: 'CP001',
+          direction: 'in',
+          action: 'StartTransaction',
+          timestamp: { gte: new Date('2025-01-01T00:00:00Z'), lte: new Date('2025-01-02T00:00:00Z') },
+        },
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 100,
+      });
+      expect(result).toEqual({ items: [], total: 0, page: 1, pageSize: 100 });
+    });
+
+    it('should reject an unknown direction', async () => {
+      await expect(adminController.listMessages('CP001', new URLSearchParams({ direction: 'sideways' })))
+        .rejects.toThrow();
+    });
+  });
+
+  describe('listTransactions', () => {
+    it('should filter transactions by charger, idTag, status and start time', async () => {
+      mockPrisma.transaction.findMany.mockResolvedValue([createMockTransaction()]);
+      mockPrisma.transaction.count.mockResolvedValue(1);
+
+      const result = await adminController.listTransactions(new URLSearchParams({
+        cpId: 'CP001',
+        idTag: 'RFID123456',
+        status: 'completed',
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-02-01T00:00:00Z',
+      }));
+
+      const where = {
+        cpId: 'CP001',
+        idTag: 'RFID123456',
+        status: 'completed',
+        startTimestamp: { gte: new Date('2025-01-01T00:00:00Z'), lte: new Date('2025-02-01T00:00:00Z') },
+      };
+      expect(mockPrisma.transaction.findMany).toHaveBeenCalledWith({
+        where,
+        orderBy: { startTimestamp: 'desc' },
+        skip: 0,
+        take: 50,
+      });
+      expect(mockPrisma.transaction.count).toHaveBeenCalledWith({ where });
+      expect(result.total).toBe(1);
+    });
+
+    it('should reject an unknown status', async () => {
+      await expect(
+        adminController.listTransactions(new URLSearchParams({ status: 'running' }))
+      ).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe('getTransaction', () => {
+    it('should return the transaction with its meter value series', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue({
+        ...createMockTransaction({ transactionId: 7 }),
+        meterValues: [createMockMeterValue({ transactionId: 7 })],
+      } as any);
+
+      const result = await adminController.getTransaction('7');
+
+      expect(mockPrisma.transaction.findUnique).toHaveBeenCalledWith({
+        where: { transactionId: 7 },
+        include: { meterValues: { orderBy: { timestamp: 'asc' } } },
+      });
+      expect(result.meterValues).toHaveLength(1);
+    });
+
+    it('should return 404 for an unknown transaction', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(null);
+
+      await expect(adminController.getTransaction('7')).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should reject a non-numeric transaction id', async () => {
+      await expect(adminController.getTransaction('abc')).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+});
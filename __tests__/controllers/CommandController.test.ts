@@ -0,0 +1,509 @@
+import { CommandController } from '../../src/controllers/CommandController';
+import { OcppService } from '../../src/services/OcppService';
+import { CallManager, CallTimeoutError } from '../../src/services/CallManager';
+import { HttpError } from '../../src/errors';
+import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import { chargePointSelect, createMockChargePoint, createMockConfigurationKey, createMockTransaction } from '../helpers/test-utils';
+import { ZodError } from 'zod';
+
+describe('CommandController - Remote Operations', () => {
+  let commandController: CommandController;
+  let mockPrisma: MockPrismaClient;
+  let callManager: CallManager;
+  let callSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockPrisma = createMockPrismaClient();
+    callManager = new CallManager(1000);
+    callManager.attach('CP001', { send: jest.fn() });
+    callSpy = jest.spyOn(callManager, 'call');
+    commandController = new CommandController(new OcppService(mockPrisma), callManager);
+
+    mockPrisma.remoteCommand.create.mockResolvedValue({ id: 10 } as any);
+    mockPrisma.remoteCommand.update.mockResolvedValue({ id: 10 } as any);
+  });
+
+  describe('remoteStartTransaction', () => {
+    it('should send RemoteStartTransaction and record the accepted answer', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.remoteStartTransaction('CP001', {
+        idTag: 'RFID123456',
+        connectorId: 1,
+      });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'RemoteStartTransaction', {
+        idTag: 'RFID123456',
+        connectorId: 1,
+      });
+      expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cpId: 'CP001',
+          action: 'RemoteStartTransaction',
+          idTag: 'RFID123456',
+          connectorId: 1,
+          status: 'Pending',
+        }),
+      });
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { status: 'Accepted', response: { status: 'Accepted' }, error: undefined },
+      });
+      expect(result).toEqual({ commandId: 10, status: 'Accepted' });
+    });
+
+    it('should pass a charging profile through to the charge point', async () => {
+      callSpy.mockResolvedValue({ status: 'Rejected' });
+      const chargingProfile = { chargingProfileId: 1, stackLevel: 0 };
+
+      const result = await commandController.remoteStartTransaction('CP001', {
+        idTag: 'RFID123456',
+        chargingProfile,
+      });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'RemoteStartTransaction', {
+        idTag: 'RFID123456',
+        chargingProfile,
+      });
+      expect(result.status).toBe('Rejected');
+    });
+
+    it('should reject an invalid request body', async () => {
+      await expect(
+        commandController.remoteStartTransaction('CP001', { connectorId: 1 })
+      ).rejects.toThrow(ZodError);
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the charge point is not connected', async () => {
+      await expect(
+        commandController.remoteStartTransaction('CP999', { idTag: 'RFID123456' })
+      ).rejects.toMatchObject({ status: 404 });
+      expect(mockPrisma.remoteCommand.create).not.toHaveBeenCalled();
+    });
+
+    it('should mark the command failed when the charge point does not answer', async () => {
+      callSpy.mockRejectedValue(new CallTimeoutError('CP001', 'RemoteStartTransaction', 1000));
+
+      await expect(
+        commandController.remoteStartTransaction('CP001', { idTag: 'RFID123456' })
+      ).rejects.toThrow(CallTimeoutError);
+
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: expect.objectContaining({ status: 'Failed', error: expect.stringContaining('timed out') }),
+      });
+    });
+
+    it('should treat a malformed charge point answer as a bad gateway', async () => {
+      callSpy.mockResolvedValue({ status: 'Maybe' });
+
+      const promise = commandController.remoteStartTransaction('CP001', { idTag: 'RFID123456' });
+
+      await expect(promise).rejects.toBeInstanceOf(HttpError);
+      await expect(promise).rejects.toMatchObject({ status: 502 });
+    });
+  });
+
+  describe('remoteStopTransaction', () => {
+    it('should send RemoteStopTransaction for an active transaction', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ transactionId: 5 }));
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.remoteStopTransaction('CP001', { transactionId: 5 });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'RemoteStopTransaction', { transactionId: 5 });
+      expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'RemoteStopTransaction', transactionId: 5 }),
+      });
+      expect(result).toEqual({ commandId: 10, transactionId: 5, status: 'Accepted' });
+    });
+
+    it('should return 404 for a transaction of another charge point', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ cpId: 'CP002' }));
+
+      await expect(
+        commandController.remoteStopTransaction('CP001', { transactionId: 1 })
+      ).rejects.toMatchObject({ status: 404 });
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for a completed transaction', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ status: 'completed' }));
+
+      await expect(
+        commandController.remoteStopTransaction('CP001', { transactionId: 1 })
+      ).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('changeAuthorizationKey', () => {
+    it('should push the new key and store its hash once accepted', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.changeAuthorizationKey('CP001', { authorizationKey: '0123456789abcdef' });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'ChangeConfiguration', {
+        key: 'AuthorizationKey',
+        value: '0123456789abcdef',
+      });
+      // The audit trail never contains the key
+      expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'ChangeConfiguration', request: { key: 'AuthorizationKey' } }),
+      });
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { authPasswordHash: expect.stringMatching(/^scrypt\$/) },
+      });
+      expect(result).toEqual({ commandId: 10, status: 'Accepted' });
+    });
+
+    it('should generate a key when none is given', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      await commandController.changeAuthorizationKey('CP001', {});
+
+      expect(callSpy.mock.calls[0][2].value).toMatch(/^[0-9a-f]{40}$/);
+    });
+
+    it('should keep the old key when the charger rejects the change', async () => {
+      callSpy.mockResolvedValue({ status: 'Rejected' });
+
+      const result = await commandController.changeAuthorizationKey('CP001', { authorizationKey: '0123456789abcdef' });
+
+      expect(result.status).toBe('Rejected');
+      expect(mockPrisma.chargePoint.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject keys outside the allowed length', async () => {
+      await expect(
+        commandController.changeAuthorizationKey('CP001', { authorizationKey: 'short' })
+      ).rejects.toBeInstanceOf(ZodError);
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshConfiguration', () => {
+    beforeEach(() => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([]);
+    });
+
+    it('should fetch all keys and store them', async () => {
+      callSpy.mockResolvedValue({
+        configurationKey: [
+          { key: 'HeartbeatInterval', readonly: false, value: '300' },
+          { key: 'NumberOfConnectors', readonly: true, value: '2' },
+        ],
+      });
+
+      const result = await commandController.refreshConfiguration('CP001');
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'GetConfiguration', {});
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.chargePointConfiguration.deleteMany).toHaveBeenCalled();
+      // GetConfiguration answers have no status
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: expect.objectContaining({ status: 'Completed' }),
+      });
+      expect(result).toEqual({ commandId: 10, configuration: [], unknownKeys: [] });
+    });
+
+    it('should only update the requested keys', async () => {
+      callSpy.mockResolvedValue({ configurationKey: [], unknownKey: ['VendorSpecificKey'] });
+
+      const result = await commandController.refreshConfiguration('CP001', { key: ['VendorSpecificKey'] });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'GetConfiguration', { key: ['VendorSpecificKey'] });
+      expect(mockPrisma.chargePointConfiguration.deleteMany).not.toHaveBeenCalled();
+      expect(result.unknownKeys).toEqual(['VendorSpecificKey']);
+    });
+
+    it('should return 404 for a charger that never booted', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(commandController.refreshConfiguration('CP001')).rejects.toMatchObject({ status: 404 });
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeConfiguration', () => {
+    beforeEach(() => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey({
+        key: 'MeterValueSampleInterval',
+        value: '60',
+      }) as any);
+    });
+
+    it('should send ChangeConfiguration and record the accepted change', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.changeConfiguration('CP001', { key: 'MeterValueSampleInterval', value: '30' });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'ChangeConfiguration', { key: 'MeterValueSampleInterval', value: '30' });
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ key: 'MeterValueSampleInterval', oldValue: '60', newValue: '30', status: 'Accepted', source: 'api' }),
+      });
+      expect(result).toEqual({ commandId: 10, key: 'MeterValueSampleInterval', status: 'Accepted' });
+    });
+
+    it('should keep a change that needs a reboot as pending', async () => {
+      callSpy.mockResolvedValue({ status: 'RebootRequired' });
+
+      const result = await commandController.changeConfiguration('CP001', { key: 'MeterValueSampleInterval', value: '30' });
+
+      expect(result.status).toBe('RebootRequired');
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { pendingValue: '30' },
+      }));
+    });
+
+    it('should record a rejected change without storing the value', async () => {
+      callSpy.mockResolvedValue({ status: 'Rejected' });
+
+      const result = await commandController.changeConfiguration('CP001', { key: 'MeterValueSampleInterval', value: '-1' });
+
+      expect(result.status).toBe('Rejected');
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'Rejected' }),
+      });
+      expect(mockPrisma.chargePointConfiguration.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should use an accepted HeartbeatInterval at the next boot', async () => {
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey() as any);
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      await commandController.changeConfiguration('CP001', { key: 'HeartbeatInterval', value: '900' });
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { heartbeatInterval: 900 },
+        select: chargePointSelect,
+      });
+    });
+
+    it('should refuse read-only keys without contacting the charger', async () => {
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey({
+        key: 'NumberOfConnectors',
+        readonly: true,
+      }) as any);
+
+      await expect(
+        commandController.changeConfiguration('CP001', { key: 'NumberOfConnectors', value: '4' })
+      ).rejects.toMatchObject({ status: 409 });
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+
+    it('should send the AuthorizationKey only through change-authorization-key', async () => {
+      await expect(
+        commandController.changeConfiguration('CP001', { key: 'AuthorizationKey', value: '0123456789abcdef' })
+      ).rejects.toBeInstanceOf(HttpError);
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reset', () => {
+    it('should send the reset type and record who asked for it', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.reset('CP001', { type: 'Soft' }, 'alice');
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'Reset', { type: 'Soft' });
+      expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'Reset', request: { type: 'Soft' }, issuedBy: 'alice' }),
+      });
+      expect(result).toEqual({ commandId: 10, status: 'Accepted' });
+    });
+
+    it('should reject unknown reset types', async () => {
+      await expect(commandController.reset('CP001', { type: 'Cold' })).rejects.toBeInstanceOf(ZodError);
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockConnector', () => {
+    it('should return the charger\'s unlock status', async () => {
+      callSpy.mockResolvedValue({ status: 'UnlockFailed' });
+
+      const result = await commandController.unlockConnector('CP001', { connectorId: 2 });
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'UnlockConnector', { connectorId: 2 });
+      expect(result).toEqual({ commandId: 10, connectorId: 2, status: 'UnlockFailed' });
+    });
+
+    it('should refuse connector 0', async () => {
+      await expect(commandController.unlockConnector('CP001', { connectorId: 0 })).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe('changeAvailability', () => {
+    beforeEach(() => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.$transaction.mockResolvedValue([]);
+    });
+
+    it('should store availability the charger scheduled until its transaction ends', async () => {
+      callSpy.mockResolvedValue({ status: 'Scheduled' });
+
+      const result = await commandController.changeAvailability('CP001', { connectorId: 1, type: 'Inoperative' }, 'alice');
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'ChangeAvailability', { connectorId: 1, type: 'Inoperative' });
+      expect(mockPrisma.connectorAvailability.upsert).toHaveBeenCalledWith({
+        where: { cpId_connectorId: { cpId: 'CP001', connectorId: 1 } },
+        create: { cpId: 'CP001', connectorId: 1, type: 'Inoperative', status: 'Scheduled', issuedBy: 'alice' },
+        update: { type: 'Inoperative', status: 'Scheduled', issuedBy: 'alice' },
+      });
+      expect(result).toEqual({ commandId: 10, connectorId: 1, type: 'Inoperative', status: 'Scheduled' });
+    });
+
+    it('should replace per-connector availability when the whole charger changes', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      await commandController.changeAvailability('CP001', { connectorId: 0, type: 'Operative' });
+
+      expect(mockPrisma.connectorAvailability.deleteMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', connectorId: { not: 0 } },
+      });
+    });
+
+    it('should not store rejected availability', async () => {
+      callSpy.mockResolvedValue({ status: 'Rejected' });
+
+      const result = await commandController.changeAvailability('CP001', { connectorId: 1, type: 'Inoperative' });
+
+      expect(result.status).toBe('Rejected');
+      expect(mockPrisma.connectorAvailability.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateFirmware', () => {
+    const firmware = {
+      find: jest.fn(),
+      locationOf: jest.fn((fileName: string) => `http://ocpp.example.com/firmware/${fileName}`),
+    };
+
+    beforeEach(() => {
+      firmware.find.mockReset();
+      commandController = new CommandController(new OcppService(mockPrisma), callManager, firmware as any);
+      callSpy.mockResolvedValue({});
+    });
+
+    it('should point the charger at a file of the firmware repository', async () => {
+      firmware.find.mockResolvedValue({ fileName: 'wallbox-2.1.0.bin', size: 1024 });
+
+      const result = await commandController.updateFirmware('CP001', {
+        fileName: 'wallbox-2.1.0.bin',
+        retrieveDate: '2025-10-28T02:00:00Z',
+        retries: 3,
+      }, 'alice');
+
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'UpdateFirmware', {
+        location: 'http://ocpp.example.com/firmware/wallbox-2.1.0.bin',
+        retrieveDate: '2025-10-28T02:00:00Z',
+        retries: 3,
+        retryInterval: undefined,
+      });
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: expect.objectContaining({ status: 'Completed' }),
+      });
+      expect(result).toEqual({
+        commandId: 10,
+        location: 'http://ocpp.example.com/firmware/wallbox-2.1.0.bin',
+        retrieveDate: '2025-10-28T02:00:00Z',
+      });
+    });
+
+    it('should return 404 for files the repository does not have', async () => {
+      firmware.find.mockResolvedValue(null);
+
+      await expect(
+        commandController.updateFirmware('CP001', { fileName: 'missing.bin' })
+      ).rejects.toMatchObject({ status: 404 });
+      expect(callSpy).not.toHaveBeenCalled();
+    });
+
+    it('should require either a location or a file name', async () => {
+      await expect(commandController.updateFirmware('CP001', {})).rejects.toBeInstanceOf(ZodError);
+      await expect(commandController.updateFirmware('CP001', {
+        location: 'http://example.com/fw.bin',
+        fileName: 'fw.bin',
+      })).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe('applyConfigurationTemplate', () => {
+    const template = {
+      id: 3,
+      name: 'ACME Wallbox',
+      vendor: 'TestVendor',
+      model: 'TestModel',
+      firmwareVersion: null,
+      keys: { HeartbeatInterval: '900', NumberOfConnectors: '1', MeterValueSampleInterval: '60' },
+    };
+
+    beforeEach(() => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+      mockPrisma.configurationTemplate.findMany.mockResolvedValue([template] as any);
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([
+        createMockConfigurationKey({ key: 'HeartbeatInterval', value: '300' }),
+        createMockConfigurationKey({ key: 'NumberOfConnectors', value: '2', readonly: true }),
+        createMockConfigurationKey({ key: 'MeterValueSampleInterval', value: '60' }),
+      ] as any);
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey() as any);
+    });
+
+    it('should push drifted keys and record them as template changes', async () => {
+      callSpy.mockResolvedValue({ status: 'Accepted' });
+
+      const result = await commandController.applyConfigurationTemplate('CP001');
+
+      expect(callSpy).toHaveBeenCalledTimes(1);
+      expect(callSpy).toHaveBeenCalledWith('CP001', 'ChangeConfiguration', { key: 'HeartbeatInterval', value: '900' });
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ key: 'HeartbeatInterval', newValue: '900', source: 'template' }),
+      });
+      expect(result).toEqual({
+        template: { id: 3, name: 'ACME Wallbox' },
+        drift: [
+          { key: 'HeartbeatInterval', expected: '900', actual: '300', status: 'Accepted' },
+          { key: 'NumberOfConnectors', expected: '1', actual: '2', status: 'ReadOnly' },
+        ],
+      });
+      expect(mockPrisma.configurationDrift.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ cpId: 'CP001', templateId: 3, key: 'HeartbeatInterval', status: 'Accepted' }),
+          expect.objectContaining({ cpId: 'CP001', templateId: 3, key: 'NumberOfConnectors', status: 'ReadOnly' }),
+        ],
+      });
+    });
+
+    it('should report keys the charger did not answer for as failed', async () => {
+      callSpy.mockRejectedValue(new CallTimeoutError('CP001', 'ChangeConfiguration', 1000));
+
+      const result = await commandController.applyConfigurationTemplate('CP001');
+
+      expect(result.drift[0]).toEqual(expect.objectContaining({ key: 'HeartbeatInterval', status: 'Failed', error: expect.any(String) }));
+    });
+
+    it('should clear the drift of chargers without a template', async () => {
+      mockPrisma.configurationTemplate.findMany.mockResolvedValue([{ ...template, model: 'OtherModel' }] as any);
+
+      const result = await commandController.applyConfigurationTemplate('CP001');
+
+      expect(result).toEqual({ template: null, drift: [] });
+      expect(callSpy).not.toHaveBeenCalled();
+      expect(mockPrisma.configurationDrift.deleteMany).toHaveBeenCalledWith({ where: { cpId: 'CP001' } });
+      expect(mockPrisma.configurationDrift.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown chargers', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(null);
+
+      await expect(commandController.applyConfigurationTemplate('CP001')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { Ocpp201Controller } from '../../src/controllers/Ocpp201Controller';
+import { OcppService } from '../../src/services/OcppService';
+import { QueueService } from '../../src/services/QueueService';
+import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import { createMockChargePoint, createMockIdTag, createMockTransaction } from '../helpers/test-utils';
+
+// Mock the services
+jest.mock('../../src/services/QueueService');
+
+describe('Ocpp201Controller - OCPP 2.0.1 Message Handling', () => {
+  let ocpp201Controller: Ocpp201Controller;
+  let mockPrisma: MockPrismaClient;
+  let mockQueueService: jest.Mocked<QueueService>;
+
+  const transactionEvent = (overrides: Record<string, any> = {}) => ({
+    eventType: 'Started',
+    timestamp: '2025-01-01T10:00:00Z',
+    triggerReason: 'Authorized',
+    seqNo: 0,
+    transactionInfo: { transactionId: 'tx-abc' },
+    evse: { id: 1, connectorId: 1 },
+    idToken: { idToken: 'RFID123456', type: 'ISO14443' },
+    ...overrides,
+  });
+
+  const energySample = (value: number, context: string, extra: Record<string, any> = {}) => ({
+    timestamp: '2025-01-01T10:00:00Z',
+    sampledValue: [{ value, context, measurand: 'Energy.Active.Import.Register', ...extra }],
+  });
+
+  beforeEach(() => {
+    mockPrisma = createMockPrismaClient();
+    mockQueueService = new QueueService() as jest.Mocked<QueueService>;
+    ocpp201Controller = new Ocpp201Controller(new OcppService(mockPrisma), mockQueueService);
+
+    mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+    mockPrisma.transaction.count.mockResolvedValue(0);
+  });
+
+  describe('handleAction', () => {
+    it('should answer NotImplemented for OCPP 1.6 actions', async () => {
+      await expect(ocpp201Controller.handleAction('CP001', 'StartTransaction', {})).rejects.toMatchObject({
+        errorCode: 'NotImplemented',
+      });
+    });
+  });
+
+  describe('handleBootNotification', () => {
+    it('should register the charging station', async () => {
+      mockPrisma.chargePoint.upsert.mockResolvedValue(createMockChargePoint());
+      const payload = {
+        chargingStation: { vendorName: 'NewVendor', model: 'NV-22', serialNumber: 'SN1', firmwareVersion: '2.1.0' },
+        reason: 'PowerUp',
+      };
+
+      const result = await ocpp201Controller.handleBootNotification('CP201', payload);
+
+      expect(mockPrisma.chargePoint.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { cpId: 'CP201' },
+        update: expect.objectContaining({
+          vendor: 'NewVendor',
+          model: 'NV-22',
+          serialNumber: 'SN1',
+          firmwareVersion: '2.1.0',
+        }),
+      }));
+      expect(result).toEqual({ status: 'Accepted', currentTime: expect.any(String), interval: 300 });
+    });
+
+    it('should reject an unknown boot reason', async () => {
+      await expect(ocpp201Controller.handleBootNotification('CP201', {
+        chargingStation: { vendorName: 'NewVendor', model: 'NV-22' },
+        reason: 'Reboot',
+      })).rejects.toThrow();
+    });
+  });
+
+  describe('handleStatusNotification', () => {
+    it('should queue the EVSE status as the connector status', async () => {
+      const payload = { timestamp: '2025-01-01T10:00:00Z', connectorStatus: 'Occupied', evseId: 2, connectorId: 1 };
+
+      const result = await ocpp201Controller.handleStatusNotification('CP201', payload);
+
+      expect(mockQueueService.queueStatusNotification).toHaveBeenCalledWith(expect.objectContaining({
+        cpId: 'CP201',
+        connectorId: 2,
+        status: 'Occupied',
+        timestamp: '2025-01-01T10:00:00.000Z',
+        protocol: 'ocpp2.0.1',
+        additionalInfo: payload,
+      }));
+      expect(result).toEqual({});
+    });
+
+    it('should only take notifications raised during the connection for clock skew', async () => {
+      const context = { connectedAt: new Date('2025-01-01T10:00:00Z') };
+
+      await ocpp201Controller.handleAction('CP201', 'StatusNotification', {
+        timestamp: '2025-01-01T09:00:00Z', connectorStatus: 'Available', evseId: 1, connectorId: 1,
+      }, context);
+      await ocpp201Controller.handleAction('CP201', 'StatusNotification', {
+        timestamp: new Date(Date.now() - 2000).toISOString(), connectorStatus: 'Occupied', evseId: 1, connectorId: 1,
+      }, context);
+
+      const [replayed, live] = mockQueueService.queueStatusNotification.mock.calls.map(([job]) => job);
+      expect(replayed.clockSkewMs).toBeUndefined();
+      expect(live.clockSkewMs).toBeGreaterThanOrEqual(2000);
+    });
+  });
+
+  describe('handleAuthorize', () => {
+    it('should answer with idTokenInfo', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({
+        expiryDate: new Date('2099-01-01T00:00:00Z'),
+        parentIdTag: 'FLEET-1',
+      }) as any);
+
+      const result = await ocpp201Controller.handleAuthorize('CP201', {
+        idToken: { idToken: 'RFID123456', type: 'ISO14443' },
+      });
+
+      expect(result).toEqual({
+        idTokenInfo: {
+          status: 'Accepted',
+          cacheExpiryDateTime: '2099-01-01T00:00:00.000Z',
+          groupIdToken: { idToken: 'FLEET-1', type: 'Central' },
+        },
+      });
+      expect(mockPrisma.authorization.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleTransactionEvent', () => {
+    it('should start a transaction keyed by the charger transaction id', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(null);
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction({ transactionId: 12, connectorId: 1 }));
+
+      const result = await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        meterValue: [energySample(1.5, 'Transaction.Begin', { unitOfMeasure: { unit: 'kWh' } })],
+      }));
+
+      expect(mockPrisma.transaction.findUnique).toHaveBeenCalledWith({
+        where: { cpId_externalTransactionId: { cpId: 'CP201', externalTransactionId: 'tx-abc' } },
+      });
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          cpId: 'CP201',
+          connectorId: 1,
+          idTag: 'RFID123456',
+          externalTransactionId: 'tx-abc',
+          meterStart: 1500,
+          startTimestamp: new Date('2025-01-01T10:00:00Z'),
+        }),
+      });
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP201', connectorId: 1 },
+        data: { transactionId: 12 },
+      });
+      expect(mockQueueService.queueMeterValues).toHaveBeenCalledWith({
+        cpId: 'CP201',
+        connectorId: 1,
+        transactionId: 12,
+        meterValues: [expect.objectContaining({ value: '1.5', unit: 'kWh', context: 'Transaction.Begin' })],
+      });
+      expect(result).toEqual({ idTokenInfo: expect.objectContaining({ status: 'Accepted' }) });
+      expect(mockPrisma.transaction.count).toHaveBeenCalled();
+    });
+
+    it('should start a transaction without an idToken', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction({ transactionId: 12, idTag: null }));
+
+      const result = await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        triggerReason: 'CablePluggedIn',
+        idToken: undefined,
+      }));
+
+      expect(mockPrisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ idTag: undefined, externalTransactionId: 'tx-abc' }),
+      });
+      expect(result).toEqual({});
+    });
+
+    it('should not start a retransmitted Started event twice', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ transactionId: 12 }));
+
+      await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent());
+
+      expect(mockPrisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should attach an idToken presented after the start', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ transactionId: 12, idTag: null }));
+      mockPrisma.transaction.update.mockResolvedValue(createMockTransaction({ transactionId: 12 }));
+
+      await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        eventType: 'Updated',
+        seqNo: 1,
+        evse: undefined,
+      }));
+
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 12 },
+        data: { idTag: 'RFID123456' },
+      });
+    });
+
+    it('should store meter values of an Updated event with the transaction', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ transactionId: 12, connectorId: 2 }));
+
+      await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        eventType: 'Updated',
+        triggerReason: 'MeterValuePeriodic',
+        idToken: undefined,
+        evse: undefined,
+        meterValue: [{
+          timestamp: '2025-01-01T10:15:00Z',
+          sampledValue: [
+            { value: 7.2, measurand: 'Power.Active.Import', unitOfMeasure: { unit: 'W', multiplier: 3 } },
+            { value: 0.1, measurand: 'Current.Import', unitOfMeasure: { unit: 'A', multiplier: 3 } },
+            { value: 3, measurand: 'Voltage', unitOfMeasure: { unit: 'V', multiplier: -1 } },
+          ],
+        }],
+      }));
+
+      expect(mockQueueService.queueMeterValues).toHaveBeenCalledWith({
+        cpId: 'CP201',
+        connectorId: 2,
+        transactionId: 12,
+        meterValues: [
+          expect.objectContaining({ value: '7200', measurand: 'Power.Active.Import', unit: 'W' }),
+          expect.objectContaining({ value: '100', measurand: 'Current.Import', unit: 'A' }),
+          expect.objectContaining({ value: '0.3', measurand: 'Voltage', unit: 'V' }),
+        ],
+      });
+    });
+
+    it('should stop the transaction on Ended with the closing register reading', async () => {
+      const active = createMockTransaction({ transactionId: 12, meterStart: 1000 });
+      const stopped = createMockTransaction({ transactionId: 12, meterStart: 1000, meterStop: 8000, status: 'completed' });
+      mockPrisma.transaction.findUnique.mockResolvedValue(active);
+      mockPrisma.transaction.update.mockResolvedValue(stopped);
+
+      await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        eventType: 'Ended',
+        timestamp: '2025-01-01T11:00:00Z',
+        triggerReason: 'EVDeparted',
+        transactionInfo: { transactionId: 'tx-abc', stoppedReason: 'EVDisconnected' },
+        idToken: undefined,
+        evse: undefined,
+        meterValue: [energySample(8000, 'Transaction.End')],
+      }));
+
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 12 },
+        data: expect.objectContaining({
+          meterStop: 8000,
+          stopReason: 'EVDisconnected',
+          stopTimestamp: new Date('2025-01-01T11:00:00Z'),
+          status: 'completed',
+        }),
+      });
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP201', connectorId: 1, transactionId: 12 },
+        data: { transactionId: null },
+      });
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 12 },
+        data: { energyWh: 7000, energySource: 'meterStop' },
+      });
+    });
+
+    it('should ignore a retransmitted Ended event', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(createMockTransaction({ transactionId: 12, status: 'completed' }));
+
+      await ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({
+        eventType: 'Ended',
+        idToken: undefined,
+        evse: undefined,
+      }));
+
+      expect(mockPrisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should require the EVSE for a transaction it has not seen before', async () => {
+      mockPrisma.transaction.findUnique.mockResolvedValue(null);
+
+      await expect(
+        ocpp201Controller.handleTransactionEvent('CP201', transactionEvent({ evse: undefined }))
+      ).rejects.toMatchObject({ errorCode: 'OccurenceConstraintViolation' });
+    });
+  });
+
+  describe('handleMeterValues', () => {
+    it('should queue samples for the EVSE', async () => {
+      const result = await ocpp201Controller.handleMeterValues('CP201', {
+        evseId: 1,
+        meterValue: [energySample(2500, 'Sample.Periodic', { phase: 'L1', location: 'Outlet' })],
+      });
+
+      expect(mockQueueService.queueMeterValues).toHaveBeenCalledWith({
+        cpId: 'CP201',
+        connectorId: 1,
+        meterValues: [{
+          timestamp: '2025-01-01T10:00:00Z',
+          value: '2500',
+          context: 'Sample.Periodic',
+          measurand: 'Energy.Active.Import.Register',
+          phase: 'L1',
+          location: 'Outlet',
+          unit: undefined,
+        }],
+      });
+      expect(result).toEqual({});
+    });
+
+    it('should reject string values', async () => {
+      await expect(ocpp201Controller.handleMeterValues('CP201', {
+        evseId: 1,
+        meterValue: [{ timestamp: '2025-01-01T10:00:00Z', sampledValue: [{ value: '2500' }] }],
+      })).rejects.toThrow();
+    });
+  });
+});
@@ -2,6 +2,16 @@ import { OcppController } from '../../src/controllers/OcppController';
 import { OcppService } from '../../src/services/OcppService';
 import { QueueService } from '../../src/services/QueueService';
 import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import {
+  chargePointSelect,
+  createMockChargePoint,
+  createMockIdTag,
+  createMockTransaction,
+  createValidStartTransactionPayload,
+  createValidStatusNotificationPayload,
+  createValidStopTransactionPayload,
+  createValidMeterValuesPayload,
+} from '../helpers/test-utils';
 
 // Mock the services
 jest.mock('../../src/services/QueueService');
@@ -17,6 +27,28 @@ describe('OcppController - OCPP Message Handling', () => {
     ocppService = new OcppService(mockPrisma);
     mockQueueService = new QueueService() as jest.Mocked<QueueService>;
     ocppController = new OcppController(ocppService, mockQueueService);
+
+    // Known, accepted tag unless a test says otherwise
+    mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+    mockPrisma.transaction.count.mockResolvedValue(0);
+  });
+
+  describe('handleAction', () => {
+    it('should dispatch OCPP 1.6 actions to their handler', async () => {
+      mockQueueService.queueHeartbeat = jest.fn().mockResolvedValue(undefined);
+
+      const result = await ocppController.handleAction('CP001', 'Heartbeat', {});
+
+      expect(result).toEqual({ currentTime: expect.any(String) });
+      expect(mockQueueService.queueHeartbeat).toHaveBeenCalledWith({ cpId: 'CP001', timestamp: expect.any(String) });
+    });
+
+    it('should answer NotImplemented for unknown actions', async () => {
+      await expect(ocppController.handleAction('CP001', 'TransactionEvent', {})).rejects.toMatchObject({
+        errorCode: 'NotImplemented',
+        message: 'Unknown action: TransactionEvent',
+      });
+    });
   });
 
   describe('handleBootNotification', () => {
@@ -38,6 +70,13 @@ describe('OcppController - OCPP Message Handling', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: payload,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -48,6 +87,7 @@ describe('OcppController - OCPP Message Handling', () => {
 
       expect(mockPrisma.chargePoint.upsert).toHaveBeenCalledWith({
         where: { cpId },
+        select: chargePointSelect,
         update: {
           vendor: payload.chargePointVendor,
           model: payload.chargePointModel,
@@ -64,6 +104,7 @@ describe('OcppController - OCPP Message Handling', () => {
           serialNumber: payload.chargePointSerialNumber,
           lastSeen: expect.any(Date),
           status: 'Available',
+          registrationStatus: 'Accepted',
           additionalInfo: payload,
         },
       });
@@ -86,6 +127,34 @@ describe('OcppController - OCPP Message Handling', () => {
         ocppController.handleBootNotification(cpId, invalidPayload)
       ).rejects.toThrow();
     });
+
+    it('should register unknown chargers as Pending in pending provisioning mode', async () => {
+      const pendingController = new OcppController(ocppService, mockQueueService, 'pending');
+      mockPrisma.chargePoint.upsert.mockResolvedValue(createMockChargePoint({ registrationStatus: 'Pending' }));
+
+      const result = await pendingController.handleBootNotification('CP001', {
+        chargePointVendor: 'TestVendor',
+        chargePointModel: 'TestModel',
+      });
+
+      expect(mockPrisma.chargePoint.upsert.mock.calls[0][0].create.registrationStatus).toBe('Pending');
+      expect(mockPrisma.chargePoint.upsert.mock.calls[0][0].update).not.toHaveProperty('registrationStatus');
+      expect(result.status).toBe('Pending');
+    });
+
+    it('should answer with the charger\'s registration status and heartbeat interval', async () => {
+      mockPrisma.chargePoint.upsert.mockResolvedValue(createMockChargePoint({
+        registrationStatus: 'Rejected',
+        heartbeatInterval: 900,
+      }));
+
+      const result = await ocppController.handleBootNotification('CP001', {
+        chargePointVendor: 'TestVendor',
+        chargePointModel: 'TestModel',
+      });
+
+      expect(result).toEqual({ status: 'Rejected', currentTime: expect.any(String), interval: 900 });
+    });
   });
 
   describe('handleHeartbeat', () => {
@@ -136,7 +205,7 @@ describe('OcppController - OCPP Message Handling', () => {
           cpId,
           idTag: payload.idTag,
           status: 'Accepted',
-          expiryDate: expect.any(Date),
+          expiryDate: null,
           timestamp: expect.any(Date),
         },
       });
@@ -144,7 +213,38 @@ describe('OcppController - OCPP Message Handling', () => {
       expect(result).toEqual({
         idTagInfo: {
           status: 'Accepted',
-          expiryDate: expect.any(String),
+        },
+      });
+    });
+
+    it('should return Invalid for an unknown idTag', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(null);
+      mockPrisma.authorization.create.mockResolvedValue({} as any);
+
+      const result = await ocppController.handleAuthorize('CP001', { idTag: 'UNKNOWN' });
+
+      expect(result).toEqual({ idTagInfo: { status: 'Invalid' } });
+      expect(mockPrisma.authorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ idTag: 'UNKNOWN', status: 'Invalid' }),
+      });
+    });
+
+    it('should return the expiry date and parent of a grouped idTag', async () => {
+      const expiryDate = new Date(Date.now() + 60 * 60 * 1000);
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({
+        expiryDate,
+        parentIdTag: 'FLEET01',
+        parent: createMockIdTag({ idTag: 'FLEET01' }),
+      }) as any);
+      mockPrisma.authorization.create.mockResolvedValue({} as any);
+
+      const result = await ocppController.handleAuthorize('CP001', { idTag: 'RFID123456' });
+
+      expect(result).toEqual({
+        idTagInfo: {
+          status: 'Accepted',
+          expiryDate: expiryDate.toISOString(),
+          parentIdTag: 'FLEET01',
         },
       });
     });
@@ -181,6 +281,11 @@ describe('OcppController - OCPP Message Handling', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: payload,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -205,6 +310,7 @@ describe('OcppController - OCPP Message Handling', () => {
           idTag: payload.idTag,
           meterStart: payload.meterStart,
           startTimestamp: new Date(payload.timestamp),
+          startReceivedAt: expect.any(Date),
           status: 'active',
           additionalInfo: expect.objectContaining({
             cpId,
@@ -245,6 +351,11 @@ describe('OcppController - OCPP Message Handling', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -283,6 +394,11 @@ describe('OcppController - OCPP Message Handling', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -293,6 +409,71 @@ describe('OcppController - OCPP Message Handling', () => {
         ocppController.handleStartTransaction(cpId, payload)
       ).rejects.toThrow('Connector 1 already has an active transaction');
     });
+
+    it('should record the transaction but answer ConcurrentTx when the tag is active elsewhere', async () => {
+      const payload = createValidStartTransactionPayload({ connectorId: 2 });
+
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction({ transactionId: 8, connectorId: 2 }));
+      mockPrisma.transaction.count.mockResolvedValue(1);
+
+      const result = await ocppController.handleStartTransaction('CP001', payload);
+
+      expect(mockPrisma.transaction.count).toHaveBeenCalledWith({
+        where: {
+          idTag: payload.idTag,
+          status: 'active',
+          NOT: { cpId: 'CP001', connectorId: 2 },
+        },
+      });
+      expect(mockPrisma.transaction.create).toHaveBeenCalled();
+      expect(result).toEqual({
+        transactionId: 8,
+        idTagInfo: { status: 'ConcurrentTx' },
+      });
+    });
+
+    it('should answer Blocked for a blocked idTag', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({ status: 'Blocked' }) as any);
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction());
+
+      const result = await ocppController.handleStartTransaction('CP001', createValidStartTransactionPayload());
+
+      expect(result.idTagInfo.status).toBe('Blocked');
+      expect(mockPrisma.transaction.count).not.toHaveBeenCalled();
+    });
+
+    it('should link the transaction to a pending remote start command', async () => {
+      const cpId = 'CP001';
+      const payload = createValidStartTransactionPayload({ connectorId: 2 });
+
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction({ transactionId: 9, connectorId: 2 }));
+      mockPrisma.remoteCommand.findFirst.mockResolvedValue({ id: 3 } as any);
+      mockPrisma.remoteCommand.update.mockResolvedValue({ id: 3, transactionId: 9 } as any);
+
+      await ocppController.handleStartTransaction(cpId, payload);
+
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { transactionId: 9 },
+      });
+    });
+
+    it('should make the transaction current on its connector', async () => {
+      const payload = createValidStartTransactionPayload({ connectorId: 2 });
+
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.transaction.create.mockResolvedValue(createMockTransaction({ transactionId: 9, connectorId: 2 }));
+
+      await ocppController.handleStartTransaction('CP001', payload);
+
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', connectorId: 2 },
+        data: { transactionId: 9 },
+      });
+    });
   });
 
   describe('handleStopTransaction', () => {
@@ -317,6 +498,11 @@ describe('OcppController - OCPP Message Handling', () => {
         stopReason: payload.reason,
         status: 'completed',
         additionalInfo: payload,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -329,7 +515,9 @@ describe('OcppController - OCPP Message Handling', () => {
         where: { transactionId: payload.transactionId },
         data: {
           meterStop: payload.meterStop,
-          stopTimestamp: expect.any(Date),
+          // The charger's stop time, not the server's
+          stopTimestamp: new Date(payload.timestamp),
+          stopReceivedAt: expect.any(Date),
           stopReason: payload.reason,
           status: 'completed',
           additionalInfo: expect.objectContaining({
@@ -341,11 +529,13 @@ describe('OcppController - OCPP Message Handling', () => {
         },
       });
 
-      expect(result).toEqual({
-        idTagInfo: {
-          status: 'Accepted',
-        },
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId, connectorId: 1, transactionId: payload.transactionId },
+        data: { transactionId: null },
       });
+
+      // Stopped without an identifier, so there is no idTagInfo to report
+      expect(result).toEqual({});
     });
 
     it('should find and stop transaction without transactionId', async () => {
@@ -369,6 +559,11 @@ describe('OcppController - OCPP Message Handling', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -403,6 +598,53 @@ describe('OcppController - OCPP Message Handling', () => {
       });
     });
 
+    it('should queue transactionData as meter values of the stopped transaction', async () => {
+      const payload = createValidStopTransactionPayload({
+        transactionId: 4,
+        meterStop: 0,
+        transactionData: [
+          {
+            timestamp: '2025-01-01T10:00:00Z',
+            sampledValue: [{ value: '1000', context: 'Transaction.Begin', unit: 'Wh' }],
+          },
+          {
+            timestamp: '2025-01-01T11:00:00Z',
+            sampledValue: [{ value: '8.5', measurand: 'Energy.Active.Import.Register', unit: 'kWh' }],
+          },
+        ],
+      });
+      const stopped = createMockTransaction({ transactionId: 4, connectorId: 2, meterStart: 1000, meterStop: 0 });
+      mockPrisma.transaction.update.mockResolvedValue(stopped);
+
+      await ocppController.handleStopTransaction('CP001', payload);
+
+      expect(mockQueueService.queueMeterValues).toHaveBeenCalledWith({
+        cpId: 'CP001',
+        connectorId: 2,
+        transactionId: 4,
+        meterValues: [
+          expect.objectContaining({ timestamp: '2025-01-01T10:00:00Z', value: '1000', context: 'Transaction.Begin', unit: 'Wh' }),
+          expect.objectContaining({ timestamp: '2025-01-01T11:00:00Z', value: '8.5', measurand: 'Energy.Active.Import.Register', unit: 'kWh' }),
+        ],
+      });
+      // meterStop of 0 is below meterStart, so energy comes from the sampled register
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 4 },
+        data: { energyWh: 7500, energySource: 'transactionData' },
+      });
+    });
+
+    it('should reject malformed transactionData', async () => {
+      const payload = createValidStopTransactionPayload({
+        transactionData: [{ sampledValue: [{ value: 1000 }] }],
+      });
+
+      await expect(
+        ocppController.handleStopTransaction('CP001', payload)
+      ).rejects.toThrow();
+      expect(mockPrisma.transaction.update).not.toHaveBeenCalled();
+    });
+
     it('should throw error when no active transaction found', async () => {
       const cpId = 'CP001';
       const payload = {
@@ -444,11 +686,45 @@ describe('OcppController - OCPP Message Handling', () => {
         vendorId: undefined,
         vendorErrorCode: undefined,
         timestamp: expect.any(String),
+        receivedAt: expect.any(String),
+        clockSkewMs: undefined,
         additionalInfo: payload,
       });
 
       expect(result).toEqual({});
     });
+
+    it('should keep the charger timestamp and report its clock skew', async () => {
+      const chargerTime = new Date(Date.now() - 5 * 60 * 1000);
+      const payload = createValidStatusNotificationPayload({ timestamp: chargerTime.toISOString() });
+
+      await ocppController.handleStatusNotification('CP001', payload, { connectedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+      const job = mockQueueService.queueStatusNotification.mock.calls[0][0];
+      expect(job.timestamp).toBe(chargerTime.toISOString());
+      expect(new Date(job.receivedAt!).getTime()).toBeGreaterThan(chargerTime.getTime());
+      expect(job.clockSkewMs).toBeGreaterThanOrEqual(5 * 60 * 1000);
+    });
+
+    it('should not take notifications replayed after a reconnect for clock skew', async () => {
+      const changedAt = new Date(Date.now() - 3 * 60 * 60 * 1000);
+      const payload = createValidStatusNotificationPayload({ timestamp: changedAt.toISOString() });
+
+      await ocppController.handleAction('CP001', 'StatusNotification', payload, { connectedAt: new Date(Date.now() - 1000) });
+
+      const job = mockQueueService.queueStatusNotification.mock.calls[0][0];
+      expect(job.timestamp).toBe(changedAt.toISOString());
+      expect(job.clockSkewMs).toBeUndefined();
+    });
+
+    it('should reject a malformed timestamp', async () => {
+      const payload = createValidStatusNotificationPayload({ timestamp: 'yesterday' });
+
+      await expect(
+        ocppController.handleStatusNotification('CP001', payload)
+      ).rejects.toThrow();
+      expect(mockQueueService.queueStatusNotification).not.toHaveBeenCalled();
+    });
   });
 
   describe('handleMeterValues', () => {
@@ -553,6 +829,107 @@ describe('OcppController - OCPP Message Handling', () => {
         ],
       });
     });
+
+    it('should pass context, format and location through to the queue', async () => {
+      const payload = createValidMeterValuesPayload({
+        meterValue: [
+          {
+            timestamp: '2025-01-01T10:00:00Z',
+            sampledValue: [
+              {
+                value: '11.2',
+                context: 'Sample.Clock',
+                format: 'Raw',
+                measurand: 'Power.Active.Import',
+                phase: 'L1-N',
+                location: 'Inlet',
+                unit: 'kW',
+              },
+            ],
+          },
+        ],
+      });
+
+      await ocppController.handleMeterValues('CP001', payload);
+
+      expect(mockQueueService.queueMeterValues).toHaveBeenCalledWith(expect.objectContaining({
+        meterValues: [
+          {
+            timestamp: '2025-01-01T10:00:00Z',
+            value: '11.2',
+            context: 'Sample.Clock',
+            format: 'Raw',
+            measurand: 'Power.Active.Import',
+            phase: 'L1-N',
+            location: 'Inlet',
+            unit: 'kW',
+          },
+        ],
+      }));
+    });
+
+    it('should reject values outside the OCPP 1.6 enumerations', async () => {
+      const payload = createValidMeterValuesPayload({
+        meterValue: [
+          {
+            timestamp: '2025-01-01T10:00:00Z',
+            sampledValue: [{ value: '1', measurand: 'Energy.Total', unit: 'MWh' }],
+          },
+        ],
+      });
+
+      await expect(ocppController.handleMeterValues('CP001', payload)).rejects.toThrow();
+      expect(mockQueueService.queueMeterValues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('firmware updates', () => {
+    const update = {
+      campaignId: 4,
+      cpId: 'CP001',
+      status: 'Installing',
+      campaign: { targetVersion: '2.1.0' },
+    };
+
+    it('should record FirmwareStatusNotification on the charger and its campaign update', async () => {
+      mockPrisma.firmwareUpdate.findFirst.mockResolvedValue(update as any);
+      mockPrisma.firmwareUpdate.update.mockResolvedValue({ ...update, status: 'Failed' } as any);
+
+      const result = await ocppController.handleAction('CP001', 'FirmwareStatusNotification', { status: 'InstallationFailed' });
+
+      expect(result).toEqual({});
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { firmwareStatus: 'InstallationFailed', firmwareStatusAt: expect.any(Date) },
+      });
+      expect(mockPrisma.firmwareUpdate.update).toHaveBeenCalledWith({
+        where: { campaignId_cpId: { campaignId: 4, cpId: 'CP001' } },
+        data: expect.objectContaining({ status: 'Failed', firmwareStatus: 'InstallationFailed', error: 'Charger reported InstallationFailed' }),
+      });
+    });
+
+    it('should reject unknown firmware statuses', async () => {
+      await expect(
+        ocppController.handleAction('CP001', 'FirmwareStatusNotification', { status: 'Flashing' })
+      ).rejects.toThrow();
+    });
+
+    it('should confirm the update when the charger boots with the target version', async () => {
+      mockPrisma.chargePoint.upsert.mockResolvedValue(createMockChargePoint({ firmwareVersion: '2.1.0' }));
+      mockPrisma.firmwareUpdate.findFirst.mockResolvedValue(update as any);
+      mockPrisma.firmwareUpdate.update.mockResolvedValue({ ...update, status: 'Succeeded' } as any);
+
+      await ocppController.handleBootNotification('CP001', {
+        chargePointVendor: 'ACME',
+        chargePointModel: 'Wallbox',
+        firmwareVersion: '2.1.0',
+      });
+
+      expect(mockPrisma.firmwareUpdate.update).toHaveBeenCalledWith({
+        where: { campaignId_cpId: { campaignId: 4, cpId: 'CP001' } },
+        data: { status: 'Succeeded', completedAt: expect.any(Date) },
+      });
+    });
   });
 
   describe('handleReconnection', () => {
@@ -571,6 +948,11 @@ describe('OcppController - OCPP Message Handling', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         },
@@ -586,6 +968,11 @@ describe('OcppController - OCPP Message Handling', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         }
@@ -624,5 +1011,75 @@ describe('OcppController - OCPP Message Handling', () => {
 
       expect(result).toEqual([]);
     });
+
+    describe('stored availability', () => {
+      const caller = {
+        isConnected: jest.fn(() => true),
+        hasPendingCall: jest.fn(() => false),
+        call: jest.fn(),
+      };
+
+      beforeEach(() => {
+        caller.call.mockReset();
+        mockPrisma.transaction.findMany.mockResolvedValue([]);
+        mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+        mockPrisma.remoteCommand.create.mockResolvedValue({ id: 20 } as any);
+        mockPrisma.connectorAvailability.findMany.mockResolvedValue([
+          { cpId: 'CP001', connectorId: 1, type: 'Inoperative', status: 'Accepted', issuedBy: 'alice', updatedAt: new Date() },
+          { cpId: 'CP001', connectorId: 2, type: 'Inoperative', status: 'Scheduled', issuedBy: 'alice', updatedAt: new Date() },
+        ]);
+      });
+
+      it('should send ChangeAvailability again for every stored connector', async () => {
+        caller.call.mockResolvedValue({ status: 'Accepted' });
+
+        await ocppController.reapplyAvailability('CP001', caller);
+
+        expect(caller.call).toHaveBeenNthCalledWith(1, 'CP001', 'ChangeAvailability', { connectorId: 1, type: 'Inoperative' });
+        expect(caller.call).toHaveBeenNthCalledWith(2, 'CP001', 'ChangeAvailability', { connectorId: 2, type: 'Inoperative' });
+        expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ action: 'ChangeAvailability', connectorId: 1, issuedBy: 'system' }),
+        });
+        expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+          where: { id: 20 },
+          data: expect.objectContaining({ status: 'Accepted' }),
+        });
+      });
+
+      it('should carry on with the next connector when one fails', async () => {
+        caller.call.mockRejectedValueOnce(new Error('timed out')).mockResolvedValueOnce({ status: 'Accepted' });
+
+        await ocppController.reapplyAvailability('CP001', caller);
+
+        expect(caller.call).toHaveBeenCalledTimes(2);
+        expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+          where: { id: 20 },
+          data: expect.objectContaining({ status: 'Failed', error: 'timed out' }),
+        });
+      });
+
+      it('should not contact a charger that is not accepted', async () => {
+        mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint({ registrationStatus: 'Pending' }));
+
+        await ocppController.reapplyAvailability('CP001', caller);
+
+        expect(caller.call).not.toHaveBeenCalled();
+      });
+
+      it('should re-apply availability after reconnection', async () => {
+        caller.call.mockResolvedValue({ status: 'Accepted' });
+
+        await ocppController.handleReconnection('CP001', caller);
+
+        expect(caller.call).toHaveBeenCalledTimes(2);
+        expect(caller.call).toHaveBeenCalledWith('CP001', 'ChangeAvailability', { connectorId: 1, type: 'Inoperative' });
+      });
+
+      it('should not re-apply availability without a caller', async () => {
+        await ocppController.handleReconnection('CP001');
+
+        expect(mockPrisma.connectorAvailability.findMany).not.toHaveBeenCalled();
+      });
+    });
   });
 });
\ No newline at end of file
@@ -225,6 +225,11 @@ describe('OCPP Service - Error Scenarios', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -294,6 +299,11 @@ describe('OCPP Service - Error Scenarios', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         }
@@ -322,6 +332,11 @@ describe('OCPP Service - Error Scenarios', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         },
@@ -337,6 +352,11 @@ describe('OCPP Service - Error Scenarios', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         }
@@ -445,6 +465,11 @@ describe('OCPP Service - Error Scenarios', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -0,0 +1,95 @@
+import { ZodError } from 'zod';
+import { OcppError, fromZodError, toOcppError, toOcpp201ErrorCode } from '../src/errors';
+import {
+  BootNotificationRequestSchema,
+  StartTransactionRequestSchema,
+  RemoteStartTransactionRequestSchema,
+} from '../src/validation';
+
+const zodErrorFor = (schema: { parse(data: unknown): unknown }, payload: unknown): ZodError => {
+  try {
+    schema.parse(payload);
+  } catch (error) {
+    return error as ZodError;
+  }
+  throw new Error('Expected payload to fail validation');
+};
+
+describe('OCPP-J CALLERROR mapping', () => {
+  describe('fromZodError', () => {
+    it('should map a non-object payload to FormationViolation', () => {
+      const error = fromZodError(zodErrorFor(BootNotificationRequestSchema, 'not-an-object'));
+
+      expect(error.errorCode).toBe('FormationViolation');
+    });
+
+    it('should map a missing required field to OccurenceConstraintViolation', () => {
+      const error = fromZodError(zodErrorFor(BootNotificationRequestSchema, { chargePointModel: 'TestModel' }));
+
+      expect(error.errorCode).toBe('OccurenceConstraintViolation');
+      expect(error.errorDetails).toEqual({
+        fields: [
+          { field: 'chargePointVendor', errorCode: 'OccurenceConstraintViolation', message: 'Required' },
+        ],
+      });
+    });
+
+    it('should map a wrongly typed field to TypeConstraintViolation', () => {
+      const error = fromZodError(zodErrorFor(StartTransactionRequestSchema, {
+        connectorId: 'one',
+        idTag: 'RFID123456',
+        meterStart: 1000,
+        timestamp: new Date().toISOString(),
+      }));
+
+      expect(error.errorCode).toBe('TypeConstraintViolation');
+      expect(error.errorDetails.fields[0].field).toBe('connectorId');
+    });
+
+    it('should map a value out of range to PropertyConstraintViolation', () => {
+      const error = fromZodError(zodErrorFor(RemoteStartTransactionRequestSchema, {
+        idTag: 'X'.repeat(21),
+      }));
+
+      expect(error.errorCode).toBe('PropertyConstraintViolation');
+      expect(error.errorDetails.fields[0].field).toBe('idTag');
+    });
+
+    it('should report every failing field and pick the most severe code', () => {
+      const error = fromZodError(zodErrorFor(RemoteStartTransactionRequestSchema, {
+        idTag: 'X'.repeat(21),
+        connectorId: 'one',
+      }));
+
+      expect(error.errorCode).toBe('TypeConstraintViolation');
+      expect(error.errorDetails.fields.map((f: any) => f.field)).toEqual(['idTag', 'connectorId']);
+    });
+  });
+
+  describe('toOcppError', () => {
+    it('should pass OcppError through unchanged', () => {
+      const original = new OcppError('NotImplemented', 'Unknown action: Foo');
+
+      expect(toOcppError(original)).toBe(original);
+    });
+
+    it('should map unexpected errors to InternalError', () => {
+      const error = toOcppError(new Error('Database connection failed'));
+
+      expect(error.errorCode).toBe('InternalError');
+      expect(error.message).toBe('Database connection failed');
+      expect(error.errorDetails).toEqual({});
+    });
+  });
+
+  describe('toOcpp201ErrorCode', () => {
+    it('should use the corrected OCPP 2.0.1 spelling', () => {
+      expect(toOcpp201ErrorCode('FormationViolation')).toBe('FormatViolation');
+      expect(toOcpp201ErrorCode('OccurenceConstraintViolation')).toBe('OccurrenceConstraintViolation');
+    });
+
+    it('should keep codes shared by both versions', () => {
+      expect(toOcpp201ErrorCode('NotImplemented')).toBe('NotImplemented');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { confirmUpdate, isValidFirmwareFileName, nextCampaignStep, updateStatusFor } from '../src/firmware';
+
+describe('Firmware updates', () => {
+  describe('isValidFirmwareFileName', () => {
+    it('should accept plain file names', () => {
+      expect(isValidFirmwareFileName('acme-wallbox_2.1.0.bin')).toBe(true);
+    });
+
+    it('should refuse names that could leave the repository', () => {
+      expect(isValidFirmwareFileName('../secrets.env')).toBe(false);
+      expect(isValidFirmwareFileName('nested/file.bin')).toBe(false);
+      expect(isValidFirmwareFileName('.hidden')).toBe(false);
+      expect(isValidFirmwareFileName('')).toBe(false);
+    });
+  });
+
+  describe('updateStatusFor', () => {
+    it('should follow the charger through download and installation', () => {
+      expect(updateStatusFor('Downloading')).toBe('Downloading');
+      expect(updateStatusFor('Installed')).toBe('Installed');
+    });
+
+    it('should fail the update on download and installation failures', () => {
+      expect(updateStatusFor('DownloadFailed')).toBe('Failed');
+      expect(updateStatusFor('InstallationFailed')).toBe('Failed');
+    });
+
+    it('should ignore Idle', () => {
+      expect(updateStatusFor('Idle')).toBeNull();
+    });
+  });
+
+  describe('confirmUpdate', () => {
+    it('should succeed once the charger boots with the target version', () => {
+      expect(confirmUpdate({ status: 'Downloading' }, '2.1.0', '2.1.0')).toEqual({ status: 'Succeeded' });
+    });
+
+    it('should fail an installed update that booted with another version', () => {
+      expect(confirmUpdate({ status: 'Installed' }, '2.0.0', '2.1.0')).toEqual({
+        status: 'Failed',
+        error: 'Booted with firmware 2.0.0 instead of 2.1.0',
+      });
+    });
+
+    it('should wait while the charger may still be downloading', () => {
+      expect(confirmUpdate({ status: 'Sent' }, '2.0.0', '2.1.0')).toBeNull();
+    });
+  });
+
+  describe('nextCampaignStep', () => {
+    const campaign = { currentBatch: 1, approvedBatch: 0, maxFailureRate: 0.25 };
+
+    it('should wait for the current batch to finish', () => {
+      expect(nextCampaignStep(campaign, [
+        { status: 'Installing', batch: 1 },
+        { status: 'Queued', batch: null },
+      ])).toEqual({ action: 'wait' });
+    });
+
+    it('should pause when too many updates of the batch failed', () => {
+      expect(nextCampaignStep(campaign, [
+        { status: 'Succeeded', batch: 1 },
+        { status: 'Failed', batch: 1 },
+        { status: 'Queued', batch: null },
+      ])).toEqual({ action: 'pause', reason: '1 of 2 updates in batch 1 failed' });
+    });
+
+    it('should send the next batch when the failure rate is acceptable', () => {
+      expect(nextCampaignStep(campaign, [
+        { status: 'Succeeded', batch: 1 },
+        { status: 'Succeeded', batch: 1 },
+        { status: 'Succeeded', batch: 1 },
+        { status: 'Failed', batch: 1 },
+        { status: 'Queued', batch: null },
+      ])).toEqual({ action: 'dispatch' });
+    });
+
+    it('should not pause again for a batch an operator approved', () => {
+      expect(nextCampaignStep({ ...campaign, approvedBatch: 1 }, [
+        { status: 'Failed', batch: 1 },
+        { status: 'Queued', batch: null },
+      ])).toEqual({ action: 'dispatch' });
+    });
+
+    it('should complete when no charger is left', () => {
+      expect(nextCampaignStep(campaign, [{ status: 'Succeeded', batch: 1 }])).toEqual({ action: 'complete' });
+    });
+  });
+});
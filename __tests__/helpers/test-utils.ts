@@ -13,6 +13,11 @@ export const createMockTransaction = (overrides: Partial<any> = {}) => {
     stopReason: null,
     status: 'active',
     additionalInfo: {},
+    startReceivedAt: null,
+    stopReceivedAt: null,
+    energyWh: null,
+    energySource: null,
+    externalTransactionId: null,
     createdAt: new Date(),
     updatedAt: new Date()
   };
@@ -30,6 +35,13 @@ export const createMockChargePoint = (overrides: Partial<any> = {}) => {
     lastSeen: new Date(),
     status: 'Available',
     additionalInfo: null,
+    clockSkewMs: null,
+    clockSkewUpdatedAt: null,
+    authPasswordHash: null,
+    registrationStatus: 'Accepted',
+    heartbeatInterval: null,
+    firmwareStatus: null,
+    firmwareStatusAt: null,
     createdAt: new Date(),
     updatedAt: new Date()
   };
@@ -52,6 +64,21 @@ export const createMockAuthorization = (overrides: Partial<any> = {}) => {
   return { ...baseAuth, ...overrides };
 };
 
+export const createMockIdTag = (overrides: Partial<any> = {}) => {
+  const baseIdTag = {
+    idTag: 'RFID123456',
+    status: 'Accepted',
+    expiryDate: null,
+    parentIdTag: null,
+    parent: null,
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  return { ...baseIdTag, ...overrides };
+};
+
 export const createMockHeartbeat = (overrides: Partial<any> = {}) => {
   const baseHeartbeat = {
     id: 1,
@@ -76,6 +103,7 @@ export const createMockStatusNotification = (overrides: Partial<any> = {}) => {
     vendorErrorCode: null,
     timestamp: new Date(),
     additionalInfo: null,
+    receivedAt: new Date(),
     createdAt: new Date(),
     updatedAt: new Date()
   };
@@ -83,6 +111,40 @@ export const createMockStatusNotification = (overrides: Partial<any> = {}) => {
   return { ...baseStatus, ...overrides };
 };
 
+export const createMockConnector = (overrides: Partial<any> = {}) => {
+  const baseConnector = {
+    cpId: 'CP001',
+    connectorId: 1,
+    status: 'Available',
+    errorCode: 'NoError',
+    info: null,
+    vendorErrorCode: null,
+    statusChangedAt: new Date('2025-01-01T10:00:00Z'),
+    lastStatusAt: new Date('2025-01-01T10:00:00Z'),
+    transactionId: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  return { ...baseConnector, ...overrides };
+};
+
+export const createMockConfigurationKey = (overrides: Partial<any> = {}) => {
+  const baseKey = {
+    cpId: 'CP001',
+    key: 'HeartbeatInterval',
+    value: '300',
+    readonly: false,
+    pendingValue: null,
+    updatedAt: new Date()
+  };
+
+  return { ...baseKey, ...overrides };
+};
+
+// Select of every ChargePoint query that reaches the API: anything but the password hash
+export const chargePointSelect = expect.not.objectContaining({ authPasswordHash: expect.anything() });
+
 export const createMockMeterValue = (overrides: Partial<any> = {}) => {
   const baseMeterValue = {
     id: 1,
@@ -97,6 +159,8 @@ export const createMockMeterValue = (overrides: Partial<any> = {}) => {
     phase: null,
     location: null,
     unit: 'Wh',
+    numericValue: null,
+    normalizedUnit: null,
     createdAt: new Date(),
     updatedAt: new Date()
   };
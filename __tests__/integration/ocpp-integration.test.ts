@@ -3,6 +3,7 @@ import { OcppService } from '../../src/services/OcppService';
 import { QueueService } from '../../src/services/QueueService';
 import { QueueProcessor } from '../../src/services/QueueProcessor';
 import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import { createMockIdTag } from '../helpers/test-utils';
 
 jest.mock('../../src/services/QueueService');
 
@@ -18,6 +19,8 @@ describe('OCPP Integration Tests', () => {
     ocppService = new OcppService(mockPrisma);
     mockQueueService = new QueueService() as jest.Mocked<QueueService>;
     ocppController = new OcppController(ocppService, mockQueueService);
+    mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+    mockPrisma.transaction.count.mockResolvedValue(0);
     // Don't initialize QueueProcessor in tests as it uses process() which is mocked
   });
 
@@ -42,6 +45,13 @@ describe('OCPP Integration Tests', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: bootPayload,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -105,6 +115,11 @@ describe('OCPP Integration Tests', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { ...startPayload, startTimestamp: startPayload.timestamp } as any,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -168,13 +183,14 @@ describe('OCPP Integration Tests', () => {
       mockPrisma.transaction.update.mockResolvedValue(stoppedTransaction);
 
       const stopResponse = await ocppController.handleStopTransaction(cpId, stopPayload);
-      expect(stopResponse.idTagInfo.status).toBe('Accepted');
+      expect(stopResponse).toEqual({});
 
       // Verify all database calls were made
       expect(mockPrisma.chargePoint.upsert).toHaveBeenCalledTimes(1);
       expect(mockPrisma.authorization.create).toHaveBeenCalledTimes(1);
       expect(mockPrisma.transaction.create).toHaveBeenCalledTimes(1);
-      expect(mockPrisma.transaction.update).toHaveBeenCalledTimes(1);
+      // Stop, then the delivered energy
+      expect(mockPrisma.transaction.update).toHaveBeenCalledTimes(2);
 
       // Verify all queue calls were made
       expect(mockQueueService.queueStatusNotification).toHaveBeenCalledTimes(2);
@@ -204,6 +220,11 @@ describe('OCPP Integration Tests', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { ...startPayload, startTimestamp: startPayload.timestamp } as any,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -281,6 +302,13 @@ describe('OCPP Integration Tests', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: null,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -328,6 +356,11 @@ describe('OCPP Integration Tests', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { ...start1Payload, startTimestamp: start1Payload.timestamp } as any,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -352,6 +385,11 @@ describe('OCPP Integration Tests', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { ...start2Payload, startTimestamp: start2Payload.timestamp } as any,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -390,6 +428,11 @@ describe('OCPP Integration Tests', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -483,6 +526,13 @@ describe('OCPP Integration Tests', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: bootPayload,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -0,0 +1,55 @@
+import { REDACTED, parseFrame } from '../src/journal';
+
+describe('Message journal frames', () => {
+  it('should read a CALL', () => {
+    expect(parseFrame('[2,"msg-1","Heartbeat",{}]')).toEqual({
+      messageType: 2,
+      uniqueId: 'msg-1',
+      action: 'Heartbeat',
+      payload: {},
+    });
+  });
+
+  it('should read a CALLRESULT', () => {
+    expect(parseFrame('[3,"msg-1",{"currentTime":"2025-01-01T00:00:00Z"}]')).toEqual({
+      messageType: 3,
+      uniqueId: 'msg-1',
+      payload: { currentTime: '2025-01-01T00:00:00Z' },
+    });
+  });
+
+  it('should read a CALLERROR', () => {
+    expect(parseFrame('[4,"msg-1","FormationViolation","Missing idTag",{"field":"idTag"}]')).toEqual({
+      messageType: 4,
+      uniqueId: 'msg-1',
+      errorCode: 'FormationViolation',
+      errorDescription: 'Missing idTag',
+      payload: { field: 'idTag' },
+    });
+  });
+
+  it('should redact the AuthorizationKey sent with ChangeConfiguration', () => {
+    expect(parseFrame('[2,"cmd-1","ChangeConfiguration",{"key":"AuthorizationKey","value":"0123456789abcdef"}]').payload)
+      .toEqual({ key: 'AuthorizationKey', value: REDACTED });
+  });
+
+  it('should redact the AuthorizationKey reported by GetConfiguration', () => {
+    const frame = parseFrame(JSON.stringify([3, 'cmd-1', {
+      configurationKey: [
+        { key: 'AuthorizationKey', readonly: false, value: '0123456789abcdef' },
+        { key: 'HeartbeatInterval', readonly: false, value: '300' },
+      ],
+    }]));
+
+    expect(frame.payload.configurationKey).toEqual([
+      { key: 'AuthorizationKey', readonly: false, value: REDACTED },
+      { key: 'HeartbeatInterval', readonly: false, value: '300' },
+    ]);
+  });
+
+  it('should keep malformed frames as raw text', () => {
+    expect(parseFrame('not json')).toEqual({ payload: 'not json' });
+    expect(parseFrame('{"action":"Heartbeat"}')).toEqual({ payload: '{"action":"Heartbeat"}' });
+    expect(parseFrame('[9,"msg-1"]')).toEqual({ uniqueId: 'msg-1', payload: '[9,"msg-1"]' });
+  });
+});
@@ -0,0 +1,96 @@
+import { applyMultiplier, computeTransactionEnergy, energyRegisterWh, normalizeSample } from '../src/metering';
+
+describe('Metering helpers', () => {
+  describe('normalizeSample', () => {
+    const at = '2025-01-01T10:00:00Z';
+
+    it('should default to Wh when no unit is given', () => {
+      expect(normalizeSample({ timestamp: at, value: '1500' })).toEqual({ numericValue: 1500, normalizedUnit: 'Wh' });
+    });
+
+    it.each([
+      ['kWh', 'Wh'],
+      ['kW', 'W'],
+      ['kvarh', 'varh'],
+      ['kvar', 'var'],
+      ['kVA', 'VA'],
+    ])('should convert %s to %s', (unit, normalizedUnit) => {
+      expect(normalizeSample({ timestamp: at, value: '2.5', unit })).toEqual({ numericValue: 2500, normalizedUnit });
+    });
+
+    it('should keep base units unchanged', () => {
+      expect(normalizeSample({ timestamp: at, value: '230.4', unit: 'V' })).toEqual({ numericValue: 230.4, normalizedUnit: 'V' });
+    });
+
+    it('should not parse signed or non-numeric values', () => {
+      expect(normalizeSample({ timestamp: at, value: '1500', format: 'SignedData' }).numericValue).toBeNull();
+      expect(normalizeSample({ timestamp: at, value: 'abc' }).numericValue).toBeNull();
+      expect(normalizeSample({ timestamp: at, value: '' }).numericValue).toBeNull();
+    });
+  });
+
+  describe('applyMultiplier', () => {
+    it('should scale fractional values without float errors', () => {
+      expect(applyMultiplier(0.1, 3)).toBe('100');
+      expect(applyMultiplier(7.2, 3)).toBe('7200');
+      expect(applyMultiplier(3, -1)).toBe('0.3');
+      expect(applyMultiplier(0.7, -2)).toBe('0.007');
+    });
+
+    it('should keep the value when there is no multiplier', () => {
+      expect(applyMultiplier(12.5)).toBe('12.5');
+      expect(applyMultiplier(1e21, 0)).toBe('1000000000000000000000');
+    });
+  });
+
+  describe('energyRegisterWh', () => {
+    it('should treat a sample without measurand as the energy register', () => {
+      expect(energyRegisterWh({ timestamp: '2025-01-01T10:00:00Z', value: '1500' })).toBe(1500);
+    });
+
+    it('should convert kWh readings to Wh', () => {
+      expect(energyRegisterWh({ timestamp: '2025-01-01T10:00:00Z', value: '1.5', unit: 'kWh' })).toBe(1500);
+    });
+
+    it('should ignore other measurands and unreadable values', () => {
+      expect(energyRegisterWh({ timestamp: '2025-01-01T10:00:00Z', value: '230', measurand: 'Voltage' })).toBeUndefined();
+      expect(energyRegisterWh({ timestamp: '2025-01-01T10:00:00Z', value: 'n/a' })).toBeUndefined();
+    });
+  });
+
+  describe('computeTransactionEnergy', () => {
+    const sample = (value: string, unit = 'Wh') => ({ timestamp: '2025-01-01T10:00:00Z', value, unit });
+
+    it('should trust a meterStop consistent with meterStart and the samples', () => {
+      expect(computeTransactionEnergy(1000, 5000, [sample('1000'), sample('4900')])).toEqual({
+        energyWh: 4000,
+        source: 'meterStop',
+      });
+    });
+
+    it('should use the last register reading when meterStop runs backwards', () => {
+      expect(computeTransactionEnergy(1000, 0, [sample('1000'), sample('6000')])).toEqual({
+        energyWh: 5000,
+        source: 'transactionData',
+      });
+    });
+
+    it('should use the samples when meterStop is below a sampled reading', () => {
+      expect(computeTransactionEnergy(1000, 1200, [sample('3.2', 'kWh')])).toEqual({
+        energyWh: 2200,
+        source: 'transactionData',
+      });
+    });
+
+    it('should fall back to the first reading when meterStart is above every sample', () => {
+      expect(computeTransactionEnergy(99999, 0, [sample('1000'), sample('3000')])).toEqual({
+        energyWh: 2000,
+        source: 'transactionData',
+      });
+    });
+
+    it('should report unknown energy when nothing can be trusted', () => {
+      expect(computeTransactionEnergy(1000, 500)).toEqual({ energyWh: null, source: null });
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { loadSupportedProtocols, negotiateProtocol } from '../src/protocols';
+
+describe('OCPP subprotocol negotiation', () => {
+  describe('negotiateProtocol', () => {
+    it('should select a protocol offered by the charger', () => {
+      expect(negotiateProtocol('ocpp1.6', ['ocpp1.6'])).toBe('ocpp1.6');
+      expect(negotiateProtocol('ocpp1.5, ocpp1.6', ['ocpp1.6'])).toBe('ocpp1.6');
+    });
+
+    it('should return null when nothing acceptable is offered', () => {
+      expect(negotiateProtocol('', ['ocpp1.6'])).toBeNull();
+      expect(negotiateProtocol('ocpp2.0.1', ['ocpp1.6'])).toBeNull();
+    });
+  });
+
+  describe('loadSupportedProtocols', () => {
+    it('should default to OCPP 1.6', () => {
+      expect(loadSupportedProtocols(undefined)).toEqual(['ocpp1.6']);
+    });
+
+    it('should parse a comma-separated list', () => {
+      expect(loadSupportedProtocols(' ocpp1.6 ,')).toEqual(['ocpp1.6']);
+    });
+
+    it('should refuse protocols without a controller', () => {
+      expect(() => loadSupportedProtocols('ocpp1.6,ocpp1.5')).toThrow('Unsupported OCPP protocol(s) in OCPP_PROTOCOLS: ocpp1.5');
+    });
+  });
+});
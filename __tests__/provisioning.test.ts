@@ -0,0 +1,34 @@
+import { initialRegistrationStatus, isActionAllowed, loadProvisioningMode } from '../src/provisioning';
+
+describe('Charge point provisioning', () => {
+  describe('loadProvisioningMode', () => {
+    it('should default to open', () => {
+      expect(loadProvisioningMode(undefined)).toBe('open');
+    });
+
+    it('should refuse unknown modes', () => {
+      expect(() => loadProvisioningMode('whitelist')).toThrow('Unknown provisioning mode: whitelist');
+    });
+  });
+
+  describe('initialRegistrationStatus', () => {
+    it('should accept unknown chargers only in open mode', () => {
+      expect(initialRegistrationStatus('open')).toBe('Accepted');
+      expect(initialRegistrationStatus('pending')).toBe('Pending');
+      expect(initialRegistrationStatus('closed')).toBe('Rejected');
+    });
+  });
+
+  describe('isActionAllowed', () => {
+    it('should allow every action once accepted', () => {
+      expect(isActionAllowed('Accepted', 'StartTransaction')).toBe(true);
+    });
+
+    it('should only allow BootNotification while Pending or Rejected', () => {
+      expect(isActionAllowed('Pending', 'BootNotification')).toBe(true);
+      expect(isActionAllowed('Pending', 'Heartbeat')).toBe(false);
+      expect(isActionAllowed('Rejected', 'BootNotification')).toBe(true);
+      expect(isActionAllowed('Rejected', 'StatusNotification')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { CallManager, CallErrorResponse, CallTimeoutError } from '../../src/services/CallManager';
+
+describe('CallManager - Outbound CALL Correlation', () => {
+  let callManager: CallManager;
+  let socket: { send: jest.Mock };
+
+  const lastSentFrame = () => JSON.parse(socket.send.mock.calls[socket.send.mock.calls.length - 1][0]);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    callManager = new CallManager(5000);
+    socket = { send: jest.fn() };
+    callManager.attach('CP001', socket);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('call', () => {
+    it('should send a CALL frame and resolve with the matching CALLRESULT payload', async () => {
+      const promise = callManager.call('CP001', 'RemoteStartTransaction', { idTag: 'RFID123456' });
+
+      const [messageType, uniqueId, action, payload] = lastSentFrame();
+      expect(messageType).toBe(2);
+      expect(typeof uniqueId).toBe('string');
+      expect(action).toBe('RemoteStartTransaction');
+      expect(payload).toEqual({ idTag: 'RFID123456' });
+
+      expect(callManager.handleCallResult('CP001', uniqueId, { status: 'Accepted' })).toBe(true);
+      await expect(promise).resolves.toEqual({ status: 'Accepted' });
+      expect(callManager.hasPendingCall('CP001')).toBe(false);
+    });
+
+    it('should reject with CallErrorResponse on matching CALLERROR', async () => {
+      const promise = callManager.call('CP001', 'Reset', { type: 'Soft' });
+      const [, uniqueId] = lastSentFrame();
+
+      callManager.handleCallError('CP001', uniqueId, 'NotSupported', 'Reset not supported', { reason: 'x' });
+
+      await expect(promise).rejects.toBeInstanceOf(CallErrorResponse);
+      await expect(promise).rejects.toMatchObject({
+        errorCode: 'NotSupported',
+        errorDescription: 'Reset not supported',
+        errorDetails: { reason: 'x' },
+      });
+    });
+
+    it('should reject when the charge point is not connected', async () => {
+      await expect(
+        callManager.call('CP999', 'Reset', { type: 'Soft' })
+      ).rejects.toThrow('Charge point CP999 is not connected');
+    });
+
+    it('should refuse a second CALL while one is outstanding', async () => {
+      callManager.call('CP001', 'Reset', { type: 'Soft' }).catch(() => undefined);
+
+      await expect(
+        callManager.call('CP001', 'UnlockConnector', { connectorId: 1 })
+      ).rejects.toThrow('already has an outstanding Reset call');
+      expect(socket.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should allow calls to different charge points in parallel', async () => {
+      const otherSocket = { send: jest.fn() };
+      callManager.attach('CP002', otherSocket);
+
+      callManager.call('CP001', 'Reset', { type: 'Soft' }).catch(() => undefined);
+      callManager.call('CP002', 'Reset', { type: 'Soft' }).catch(() => undefined);
+
+      expect(callManager.hasPendingCall('CP001')).toBe(true);
+      expect(callManager.hasPendingCall('CP002')).toBe(true);
+    });
+
+    it('should reject with CallTimeoutError when no response arrives in time', async () => {
+      const promise = callManager.call('CP001', 'Reset', { type: 'Soft' });
+
+      jest.advanceTimersByTime(5000);
+
+      await expect(promise).rejects.toBeInstanceOf(CallTimeoutError);
+      expect(callManager.hasPendingCall('CP001')).toBe(false);
+    });
+
+    it('should reject when the socket send throws', async () => {
+      socket.send.mockImplementation(() => {
+        throw new Error('Socket closed');
+      });
+
+      await expect(callManager.call('CP001', 'Reset', { type: 'Soft' })).rejects.toThrow('Socket closed');
+      expect(callManager.hasPendingCall('CP001')).toBe(false);
+    });
+  });
+
+  describe('response correlation', () => {
+    it('should ignore responses with an unknown uniqueId', async () => {
+      const promise = callManager.call('CP001', 'Reset', { type: 'Soft' });
+      const [, uniqueId] = lastSentFrame();
+
+      expect(callManager.handleCallResult('CP001', 'other-id', { status: 'Accepted' })).toBe(false);
+      expect(callManager.handleCallError('CP001', 'other-id', 'InternalError', '')).toBe(false);
+      expect(callManager.hasPendingCall('CP001')).toBe(true);
+
+      callManager.handleCallResult('CP001', uniqueId, { status: 'Accepted' });
+      await expect(promise).resolves.toEqual({ status: 'Accepted' });
+    });
+
+    it('should reject pending calls when the charge point disconnects', async () => {
+      const promise = callManager.call('CP001', 'Reset', { type: 'Soft' });
+
+      callManager.detach('CP001');
+
+      await expect(promise).rejects.toThrow('Connection closed');
+      expect(callManager.isConnected('CP001')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { ClusterRouter } from '../../src/services/ClusterRouter';
+import { CallManager, CallErrorResponse, CallTimeoutError } from '../../src/services/CallManager';
+import { QueueService } from '../../src/services/QueueService';
+import { HttpError } from '../../src/errors';
+
+// In-memory stand-in for the Redis ownership keys and pub/sub shared by all nodes
+const createCluster = () => {
+  const owners = new Map<string, string>();
+  const handlers = new Map<string, (message: any) => void>();
+
+  const nodeQueueService = () => ({
+    getConnectionOwner: jest.fn(async (cpId: string) => owners.get(cpId) ?? null),
+    claimConnection: jest.fn(async (cpId: string, nodeId: string) => {
+      const previous = owners.get(cpId) ?? null;
+      owners.set(cpId, nodeId);
+      return previous;
+    }),
+    releaseConnection: jest.fn(async (cpId: string, nodeId: string) => {
+      const owner = owners.get(cpId);
+      if (owner === nodeId) {
+        owners.delete(cpId);
+      }
+      return owner === undefined || owner === nodeId;
+    }),
+    refreshConnections: jest.fn(async () => 0),
+    // Delivered asynchronously like Redis pub/sub; JSON round trip as on the wire
+    publish: jest.fn(async (channel: string, message: unknown) => {
+      const copy = JSON.parse(JSON.stringify(message));
+      setImmediate(() => handlers.get(channel)?.(copy));
+    }),
+    subscribe: jest.fn(async (channel: string, handler: (message: any) => void) => {
+      handlers.set(channel, handler);
+    }),
+  });
+
+  return { owners, nodeQueueService };
+};
+
+describe('ClusterRouter - Cross-Node Command Routing', () => {
+  let cluster: ReturnType<typeof createCluster>;
+  let callManagerA: CallManager;
+  let callManagerB: CallManager;
+  let routerA: ClusterRouter;
+  let routerB: ClusterRouter;
+  let socket: { send: jest.Mock };
+
+  const options = { ownershipTtlSeconds: 90, replyTimeoutMs: 2000 };
+  const lastSentFrame = () => JSON.parse(socket.send.mock.calls[socket.send.mock.calls.length - 1][0]);
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+  // Wait until the forwarded CALL has reached the charger's socket on node B
+  const delivered = async () => {
+    while (socket.send.mock.calls.length === 0) {
+      await flush();
+    }
+  };
+
+  beforeEach(async () => {
+    cluster = createCluster();
+    callManagerA = new CallManager(1000);
+    callManagerB = new CallManager(1000);
+    routerA = new ClusterRouter('node-a', callManagerA, cluster.nodeQueueService() as unknown as QueueService, options);
+    routerB = new ClusterRouter('node-b', callManagerB, cluster.nodeQueueService() as unknown as QueueService, options);
+    await routerA.start(() => []);
+    await routerB.start(() => []);
+
+    // CP001 is connected to node B
+    socket = { send: jest.fn() };
+    callManagerB.attach('CP001', socket);
+    await routerB.claim('CP001');
+  });
+
+  afterEach(() => {
+    routerA.stop();
+    routerB.stop();
+  });
+
+  it('should report a charger connected to another node as connected', async () => {
+    await expect(routerA.isConnected('CP001')).resolves.toBe(true);
+    await expect(routerA.isConnected('CP002')).resolves.toBe(false);
+  });
+
+  it('should send the CALL through the owning node and return its result', async () => {
+    const result = routerA.call('CP001', 'RemoteStopTransaction', { transactionId: 7 });
+    await delivered();
+
+    const [, uniqueId, action, payload] = lastSentFrame();
+    expect(action).toBe('RemoteStopTransaction');
+    expect(payload).toEqual({ transactionId: 7 });
+    callManagerB.handleCallResult('CP001', uniqueId, { status: 'Accepted' });
+
+    await expect(result).resolves.toEqual({ status: 'Accepted' });
+  });
+
+  it('should call a local charger directly', async () => {
+    const result = routerB.call('CP001', 'Reset', { type: 'Soft' });
+
+    const [, uniqueId] = lastSentFrame();
+    callManagerB.handleCallResult('CP001', uniqueId, { status: 'Accepted' });
+
+    await expect(result).resolves.toEqual({ status: 'Accepted' });
+  });
+
+  it('should rebuild a CALLERROR from the owning node', async () => {
+    const result = routerA.call('CP001', 'Reset', { type: 'Hard' });
+    await delivered();
+
+    const [, uniqueId] = lastSentFrame();
+    callManagerB.handleCallError('CP001', uniqueId, 'NotSupported', 'Hard reset disabled', { reason: 'x' });
+
+    await expect(result).rejects.toBeInstanceOf(CallErrorResponse);
+    await expect(result).rejects.toMatchObject({ errorCode: 'NotSupported', errorDetails: { reason: 'x' } });
+  });
+
+  it('should report a busy charger on the owning node as a conflict', async () => {
+    callManagerB.call('CP001', 'Reset', { type: 'Soft' }).catch(() => undefined);
+
+    const result = routerA.call('CP001', 'UnlockConnector', { connectorId: 1 });
+
+    await expect(result).rejects.toBeInstanceOf(HttpError);
+    await expect(result).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('should time out when the owning node does not answer', async () => {
+    cluster.owners.set('CP002', 'node-gone');
+
+    await expect(routerA.call('CP002', 'Reset', { type: 'Soft' })).rejects.toBeInstanceOf(CallTimeoutError);
+  }, 5000);
+
+  it('should refuse chargers that are not connected anywhere', async () => {
+    await expect(routerA.call('CP002', 'Reset', { type: 'Soft' })).rejects.toThrow('Charge point CP002 is not connected');
+  });
+
+  describe('ownership', () => {
+    it('should ask the previous owner to drop its socket when the charger moves', async () => {
+      const disconnected = jest.fn();
+      routerB.on('disconnect', disconnected);
+
+      await routerA.claim('CP001');
+      await flush();
+
+      expect(cluster.owners.get('CP001')).toBe('node-a');
+      expect(disconnected).toHaveBeenCalledWith('CP001');
+    });
+
+    it('should not release a charger that moved to another node', async () => {
+      await routerA.claim('CP001');
+
+      await expect(routerB.release('CP001')).resolves.toBe(false);
+      expect(cluster.owners.get('CP001')).toBe('node-a');
+
+      await expect(routerA.release('CP001')).resolves.toBe(true);
+      expect(cluster.owners.has('CP001')).toBe(false);
+    });
+  });
+});
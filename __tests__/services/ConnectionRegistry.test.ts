@@ -0,0 +1,121 @@
+import { ConnectionRegistry, loadDuplicateConnectionPolicy } from '../../src/services/ConnectionRegistry';
+
+describe('ConnectionRegistry - Duplicate Connections', () => {
+  const createSocket = () => ({ end: jest.fn() });
+
+  describe('kick-old', () => {
+    let registry: ConnectionRegistry;
+
+    beforeEach(() => {
+      registry = new ConnectionRegistry('kick-old');
+    });
+
+    it('should register the first connection of a charge point', () => {
+      const socket = createSocket();
+
+      expect(registry.register('CP001', socket)).toBe('registered');
+      expect(registry.get('CP001')).toBe(socket);
+      expect(registry.connectedCpIds()).toEqual(['CP001']);
+    });
+
+    it('should close the old socket when the charger reconnects', () => {
+      const oldSocket = createSocket();
+      const newSocket = createSocket();
+      registry.register('CP001', oldSocket);
+
+      expect(registry.register('CP001', newSocket)).toBe('replaced');
+
+      expect(oldSocket.end).toHaveBeenCalledWith(1000, 'Replaced by a new connection');
+      expect(registry.isCurrent('CP001', newSocket)).toBe(true);
+    });
+
+    it('should already treat the old socket as superseded while it is being closed', () => {
+      const oldSocket = createSocket();
+      const newSocket = createSocket();
+      let currentDuringClose: boolean | undefined;
+      oldSocket.end.mockImplementation(() => {
+        currentDuringClose = registry.unregister('CP001', oldSocket);
+      });
+      registry.register('CP001', oldSocket);
+
+      registry.register('CP001', newSocket);
+
+      expect(currentDuringClose).toBe(false);
+      expect(registry.get('CP001')).toBe(newSocket);
+    });
+
+    it('should keep the new connection when closing the old one fails', () => {
+      const oldSocket = createSocket();
+      const newSocket = createSocket();
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      oldSocket.end.mockImplementation(() => {
+        throw new Error('Invalid access of closed uWS.WebSocket');
+      });
+      registry.register('CP001', oldSocket);
+
+      expect(registry.register('CP001', newSocket)).toBe('replaced');
+      expect(registry.get('CP001')).toBe(newSocket);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('reject-new', () => {
+    it('should refuse a second connection and keep the first', () => {
+      const registry = new ConnectionRegistry('reject-new');
+      const oldSocket = createSocket();
+      const newSocket = createSocket();
+      registry.register('CP001', oldSocket);
+
+      expect(registry.register('CP001', newSocket)).toBe('rejected');
+
+      expect(oldSocket.end).not.toHaveBeenCalled();
+      expect(registry.get('CP001')).toBe(oldSocket);
+    });
+
+    it('should accept the charger again once the old socket has closed', () => {
+      const registry = new ConnectionRegistry('reject-new');
+      const oldSocket = createSocket();
+      registry.register('CP001', oldSocket);
+      registry.unregister('CP001', oldSocket);
+
+      expect(registry.register('CP001', createSocket())).toBe('registered');
+    });
+  });
+
+  describe('unregister', () => {
+    it('should only remove the current socket', () => {
+      const registry = new ConnectionRegistry('kick-old');
+      const oldSocket = createSocket();
+      const newSocket = createSocket();
+      registry.register('CP001', oldSocket);
+      registry.register('CP001', newSocket);
+
+      expect(registry.unregister('CP001', oldSocket)).toBe(false);
+      expect(registry.get('CP001')).toBe(newSocket);
+
+      expect(registry.unregister('CP001', newSocket)).toBe(true);
+      expect(registry.get('CP001')).toBeUndefined();
+    });
+
+    it('should keep connections of other charge points', () => {
+      const registry = new ConnectionRegistry('kick-old');
+      const socket = createSocket();
+      registry.register('CP001', socket);
+      registry.register('CP002', createSocket());
+
+      registry.unregister('CP001', socket);
+
+      expect(registry.connectedCpIds()).toEqual(['CP002']);
+    });
+  });
+
+  describe('loadDuplicateConnectionPolicy', () => {
+    it('should default to kicking the old connection', () => {
+      expect(loadDuplicateConnectionPolicy(undefined)).toBe('kick-old');
+    });
+
+    it('should refuse unknown policies', () => {
+      expect(() => loadDuplicateConnectionPolicy('kick-both')).toThrow('Unknown duplicate connection policy: kick-both');
+    });
+  });
+});
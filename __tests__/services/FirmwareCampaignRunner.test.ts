@@ -0,0 +1,139 @@
+import { FirmwareCampaignRunner } from '../../src/services/FirmwareCampaignRunner';
+import { OcppService } from '../../src/services/OcppService';
+import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+
+describe('FirmwareCampaignRunner - Staged Firmware Rollouts', () => {
+  let runner: FirmwareCampaignRunner;
+  let mockPrisma: MockPrismaClient;
+  let caller: { isConnected: jest.Mock; hasPendingCall: jest.Mock; call: jest.Mock };
+  let sender: { updateFirmware: jest.Mock };
+
+  const now = new Date('2025-10-28T12:00:00Z');
+  const campaign = {
+    id: 1,
+    name: 'Wallbox 2.1.0',
+    vendor: 'ACME',
+    model: null,
+    fromVersion: null,
+    targetVersion: '2.1.0',
+    location: 'http://ocpp.example.com/firmware/wallbox-2.1.0.bin',
+    batchSize: 2,
+    maxFailureRate: 0.2,
+    status: 'Running',
+    pauseReason: null,
+    currentBatch: 0,
+    approvedBatch: 0,
+    issuedBy: 'alice',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  beforeEach(() => {
+    mockPrisma = createMockPrismaClient();
+    caller = {
+      isConnected: jest.fn(async (cpId: string) => cpId !== 'CP002'),
+      hasPendingCall: jest.fn(() => false),
+      call: jest.fn(),
+    };
+    sender = { updateFirmware: jest.fn().mockResolvedValue({}) };
+    runner = new FirmwareCampaignRunner(new OcppService(mockPrisma), caller, sender, {
+      tickIntervalMs: 60000,
+      updateTimeoutMs: 2 * 60 * 60 * 1000,
+    });
+
+    mockPrisma.firmwareUpdate.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.firmwareCampaign.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.firmwareCampaign.findMany.mockResolvedValue([campaign]);
+  });
+
+  afterEach(() => {
+    runner.stop();
+  });
+
+  const queued = (...cpIds: string[]) => cpIds.map(cpId => ({ cpId, status: 'Queued', batch: null }));
+
+  it('should send the next batch to connected chargers only', async () => {
+    mockPrisma.firmwareUpdate.findMany.mockResolvedValue(queued('CP001', 'CP002', 'CP003', 'CP004') as any);
+
+    await runner.tick(now);
+
+    expect(mockPrisma.firmwareCampaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: 'Running', currentBatch: 0 },
+      data: { currentBatch: 1, approvedBatch: 0 },
+    });
+    expect(sender.updateFirmware).toHaveBeenCalledTimes(2);
+    expect(sender.updateFirmware).toHaveBeenCalledWith('CP001', { location: campaign.location }, 'system');
+    expect(sender.updateFirmware).toHaveBeenCalledWith('CP003', { location: campaign.location }, 'system');
+    expect(mockPrisma.firmwareUpdate.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 1, cpId: 'CP001', status: 'Queued' },
+      data: { status: 'Sent', batch: 1, sentAt: now },
+    });
+  });
+
+  it('should leave the batch to the node that started it first', async () => {
+    mockPrisma.firmwareUpdate.findMany.mockResolvedValue(queued('CP001') as any);
+    mockPrisma.firmwareCampaign.updateMany.mockResolvedValue({ count: 0 });
+
+    await runner.tick(now);
+
+    expect(sender.updateFirmware).not.toHaveBeenCalled();
+  });
+
+  it('should mark an update Failed when UpdateFirmware could not be sent', async () => {
+    mockPrisma.firmwareUpdate.findMany.mockResolvedValue(queued('CP001') as any);
+    sender.updateFirmware.mockRejectedValue(new Error('timed out'));
+
+    await runner.tick(now);
+
+    expect(mockPrisma.firmwareUpdate.update).toHaveBeenCalledWith({
+      where: { campaignId_cpId: { campaignId: 1, cpId: 'CP001' } },
+      data: { status: 'Failed', error: 'timed out', completedAt: now },
+    });
+  });
+
+  it('should pause the campaign when its batch failed too often', async () => {
+    mockPrisma.firmwareCampaign.findMany.mockResolvedValue([{ ...campaign, currentBatch: 1 }]);
+    mockPrisma.firmwareUpdate.findMany.mockResolvedValue([
+      { cpId: 'CP001', status: 'Failed', batch: 1 },
+      { cpId: 'CP003', status: 'Succeeded', batch: 1 },
+      ...queued('CP004'),
+    ] as any);
+    const paused = jest.fn();
+    runner.on('paused', paused);
+
+    await runner.tick(now);
+
+    expect(mockPrisma.firmwareCampaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: 'Running' },
+      data: { status: 'Paused', pauseReason: '1 of 2 updates in batch 1 failed' },
+    });
+    expect(paused).toHaveBeenCalledWith({ campaignId: 1, name: 'Wallbox 2.1.0', reason: '1 of 2 updates in batch 1 failed' });
+    expect(sender.updateFirmware).not.toHaveBeenCalled();
+  });
+
+  it('should complete the campaign once no charger is left', async () => {
+    mockPrisma.firmwareCampaign.findMany.mockResolvedValue([{ ...campaign, currentBatch: 1 }]);
+    mockPrisma.firmwareUpdate.findMany.mockResolvedValue([{ cpId: 'CP001', status: 'Succeeded', batch: 1 }] as any);
+
+    await runner.tick(now);
+
+    expect(mockPrisma.firmwareCampaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: 'Running' },
+      data: { status: 'Completed' },
+    });
+  });
+
+  it('should fail updates that made no progress within the timeout', async () => {
+    mockPrisma.firmwareCampaign.findMany.mockResolvedValue([]);
+
+    await runner.tick(now);
+
+    expect(mockPrisma.firmwareUpdate.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: { in: ['Sent', 'Downloading', 'Downloaded', 'Installing', 'Installed'] },
+        updatedAt: { lt: new Date('2025-10-28T10:00:00Z') },
+      },
+      data: { status: 'Failed', error: 'No progress since 2025-10-28T10:00:00.000Z', completedAt: now },
+    });
+  });
+});
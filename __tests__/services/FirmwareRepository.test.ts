@@ -0,0 +1,43 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { FirmwareRepository } from '../../src/services/FirmwareRepository';
+
+describe('FirmwareRepository - Local Firmware Files', () => {
+  let directory: string;
+  let repository: FirmwareRepository;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'firmware-'));
+    writeFileSync(path.join(directory, 'wallbox-2.1.0.bin'), Buffer.alloc(1024));
+    mkdirSync(path.join(directory, 'archive'));
+    repository = new FirmwareRepository(directory, 'http://ocpp.example.com:8080/firmware/');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should list the files with their size', async () => {
+    const files = await repository.list();
+
+    expect(files.map(({ fileName, size }) => ({ fileName, size }))).toEqual([
+      { fileName: 'wallbox-2.1.0.bin', size: 1024 },
+    ]);
+  });
+
+  it('should only find plain files inside the directory', async () => {
+    await expect(repository.find('wallbox-2.1.0.bin')).resolves.toMatchObject({ size: 1024 });
+    await expect(repository.find('missing.bin')).resolves.toBeNull();
+    await expect(repository.find('archive')).resolves.toBeNull();
+    await expect(repository.find('../wallbox-2.1.0.bin')).resolves.toBeNull();
+  });
+
+  it('should build the download location from the base URL', () => {
+    expect(repository.locationOf('wallbox-2.1.0.bin')).toBe('http://ocpp.example.com:8080/firmware/wallbox-2.1.0.bin');
+  });
+
+  it('should treat a missing directory as empty', async () => {
+    await expect(new FirmwareRepository(path.join(directory, 'nope')).list()).resolves.toEqual([]);
+  });
+});
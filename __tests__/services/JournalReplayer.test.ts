@@ -0,0 +1,120 @@
+import { OcppMessage } from '@prisma/client';
+import { JournalReplayer } from '../../src/services/JournalReplayer';
+import { OcppError } from '../../src/errors';
+
+describe('JournalReplayer - Journal Replay', () => {
+  let handler: { handleAction: jest.Mock };
+  let replayer: JournalReplayer;
+  let nextId: number;
+
+  const entry = (data: Partial<OcppMessage>): OcppMessage => ({
+    id: nextId++,
+    cpId: 'CP001',
+    timestamp: new Date(Date.UTC(2025, 0, 1, 12, 0, nextId)),
+    direction: 'in',
+    messageType: 2,
+    uniqueId: null,
+    action: null,
+    payload: null,
+    latencyMs: null,
+    errorCode: null,
+    errorDescription: null,
+    ...data,
+  });
+  const call = (uniqueId: string, action: string, payload: any) =>
+    entry({ direction: 'in', messageType: 2, uniqueId, action, payload });
+  const result = (uniqueId: string, payload: any) =>
+    entry({ direction: 'out', messageType: 3, uniqueId, payload });
+  const error = (uniqueId: string, errorCode: string) =>
+    entry({ direction: 'out', messageType: 4, uniqueId, errorCode, errorDescription: 'recorded', payload: {} });
+
+  beforeEach(() => {
+    nextId = 1;
+    handler = { handleAction: jest.fn() };
+    replayer = new JournalReplayer(handler);
+  });
+
+  it('should replay charger CALLs in order and match their answers', async () => {
+    handler.handleAction
+      .mockResolvedValueOnce({ status: 'Accepted', currentTime: new Date().toISOString(), interval: 300 })
+      .mockResolvedValueOnce({ currentTime: new Date().toISOString() });
+
+    const report = await replayer.replay('CP001', [
+      call('b1', 'BootNotification', { chargePointVendor: 'V', chargePointModel: 'M' }),
+      result('b1', { interval: 300, status: 'Accepted', currentTime: '2025-01-01T12:00:00.000Z' }),
+      call('h1', 'Heartbeat', {}),
+      result('h1', { currentTime: '2025-01-01T12:00:05.000Z' }),
+    ]);
+
+    expect(handler.handleAction.mock.calls.map(([, action]) => action)).toEqual(['BootNotification', 'Heartbeat']);
+    expect(report).toEqual({ replayed: 2, matched: 2, skipped: 0, mismatches: [] });
+  });
+
+  it('should report answers that differ from the recorded ones', async () => {
+    handler.handleAction.mockResolvedValueOnce({ idTagInfo: { status: 'Invalid' } });
+
+    const report = await replayer.replay('CP001', [
+      call('a1', 'Authorize', { idTag: 'TAG1' }),
+      result('a1', { idTagInfo: { status: 'Accepted' } }),
+    ]);
+
+    expect(report.matched).toBe(0);
+    expect(report.mismatches).toEqual([expect.objectContaining({
+      uniqueId: 'a1',
+      action: 'Authorize',
+      recorded: { result: { idTagInfo: { status: 'Accepted' } } },
+      replayed: { result: { idTagInfo: { status: 'Invalid' } } },
+    })]);
+  });
+
+  it('should compare CALLERRORs by error code', async () => {
+    handler.handleAction.mockRejectedValueOnce(new OcppError('FormationViolation', 'Missing idTag'));
+
+    const report = await replayer.replay('CP001', [
+      call('s1', 'StartTransaction', {}),
+      error('s1', 'FormationViolation'),
+    ]);
+
+    expect(report.matched).toBe(1);
+  });
+
+  it('should substitute the replayed transaction id for the recorded one', async () => {
+    handler.handleAction
+      .mockResolvedValueOnce({ transactionId: 901, idTagInfo: { status: 'Accepted' } })
+      .mockResolvedValueOnce({ idTagInfo: { status: 'Accepted' } });
+
+    const report = await replayer.replay('CP001', [
+      call('s1', 'StartTransaction', { connectorId: 1, idTag: 'TAG1', meterStart: 0, timestamp: '2025-01-01T12:00:00Z' }),
+      result('s1', { transactionId: 17, idTagInfo: { status: 'Accepted' } }),
+      call('s2', 'StopTransaction', { transactionId: 17, meterStop: 500, timestamp: '2025-01-01T13:00:00Z' }),
+      result('s2', { idTagInfo: { status: 'Accepted' } }),
+    ]);
+
+    expect(handler.handleAction).toHaveBeenLastCalledWith('CP001', 'StopTransaction', expect.objectContaining({ transactionId: 901 }));
+    expect(report.matched).toBe(2);
+  });
+
+  it('should skip retransmits and answers to server CALLs', async () => {
+    handler.handleAction.mockResolvedValue({ currentTime: new Date().toISOString() });
+
+    const report = await replayer.replay('CP001', [
+      call('h1', 'Heartbeat', {}),
+      result('h1', { currentTime: '2025-01-01T12:00:05.000Z' }),
+      call('h1', 'Heartbeat', {}),
+      result('h1', { currentTime: '2025-01-01T12:00:05.000Z' }),
+      entry({ direction: 'out', messageType: 2, uniqueId: 'cmd-1', action: 'Reset', payload: { type: 'Soft' } }),
+      entry({ direction: 'in', messageType: 3, uniqueId: 'cmd-1', action: 'Reset', payload: { status: 'Accepted' } }),
+    ]);
+
+    expect(handler.handleAction).toHaveBeenCalledTimes(1);
+    expect(report).toEqual({ replayed: 1, matched: 1, skipped: 2, mismatches: [] });
+  });
+
+  it('should report CALLs without a recorded answer', async () => {
+    handler.handleAction.mockResolvedValue({});
+
+    const report = await replayer.replay('CP001', [call('m1', 'MeterValues', { connectorId: 1, meterValue: [] })]);
+
+    expect(report.mismatches).toEqual([expect.objectContaining({ uniqueId: 'm1', recorded: undefined, replayed: { result: {} } })]);
+  });
+});
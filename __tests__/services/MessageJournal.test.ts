@@ -0,0 +1,92 @@
+import { MessageJournal } from '../../src/services/MessageJournal';
+import { QueueService } from '../../src/services/QueueService';
+
+describe('MessageJournal - Frame Recording', () => {
+  let journal: MessageJournal;
+  let queueService: { queueJournalEntry: jest.Mock };
+
+  const at = (ms: number) => new Date(Date.UTC(2025, 0, 1, 12) + ms);
+  const queued = () => queueService.queueJournalEntry.mock.calls.map(([entry]) => entry);
+
+  beforeEach(() => {
+    queueService = { queueJournalEntry: jest.fn().mockResolvedValue(undefined) };
+    journal = new MessageJournal(queueService as unknown as QueueService, true);
+  });
+
+  it('should queue inbound and outbound frames', () => {
+    journal.record('CP001', 'in', '[2,"msg-1","Heartbeat",{}]', at(0));
+
+    expect(queued()).toEqual([{
+      cpId: 'CP001',
+      timestamp: at(0).toISOString(),
+      direction: 'in',
+      messageType: 2,
+      uniqueId: 'msg-1',
+      action: 'Heartbeat',
+      payload: {},
+      latencyMs: undefined,
+    }]);
+  });
+
+  it('should give the answer to a charger CALL its action and latency', () => {
+    journal.record('CP001', 'in', '[2,"msg-1","Authorize",{"idTag":"TAG1"}]', at(0));
+    journal.record('CP001', 'out', '[3,"msg-1",{"idTagInfo":{"status":"Accepted"}}]', at(42));
+
+    expect(queued()[1]).toMatchObject({ direction: 'out', messageType: 3, action: 'Authorize', latencyMs: 42 });
+  });
+
+  it('should give the answer to a server CALL its action and latency', () => {
+    journal.record('CP001', 'out', '[2,"cmd-1","Reset",{"type":"Soft"}]', at(0));
+    journal.record('CP001', 'in', '[4,"cmd-1","NotSupported","",{}]', at(1500));
+
+    expect(queued()[1]).toMatchObject({
+      direction: 'in',
+      messageType: 4,
+      action: 'Reset',
+      latencyMs: 1500,
+      errorCode: 'NotSupported',
+    });
+  });
+
+  it('should not match an answer to a different CALL', () => {
+    journal.record('CP001', 'in', '[2,"msg-1","Heartbeat",{}]', at(0));
+    journal.record('CP001', 'out', '[3,"msg-2",{}]', at(10));
+    journal.record('CP002', 'out', '[3,"msg-1",{}]', at(10));
+
+    expect(queued()[1]).toMatchObject({ action: undefined, latencyMs: undefined });
+    expect(queued()[2]).toMatchObject({ action: undefined, latencyMs: undefined });
+  });
+
+  it('should forget unanswered CALLs of a closed connection', () => {
+    journal.record('CP001', 'out', '[2,"cmd-1","Reset",{"type":"Soft"}]', at(0));
+    journal.forget('CP001');
+    journal.record('CP001', 'in', '[3,"cmd-1",{"status":"Accepted"}]', at(10));
+
+    expect(queued()[1]).toMatchObject({ action: undefined, latencyMs: undefined });
+  });
+
+  it('should never queue the plaintext AuthorizationKey', () => {
+    journal.record('CP001', 'out', '[2,"cmd-1","ChangeConfiguration",{"key":"AuthorizationKey","value":"0123456789abcdef"}]', at(0));
+
+    expect(JSON.stringify(queued()[0])).not.toContain('0123456789abcdef');
+  });
+
+  it('should not fail the message when the queue is unavailable', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    queueService.queueJournalEntry.mockRejectedValue(new Error('Redis down'));
+
+    expect(() => journal.record('CP001', 'in', '[2,"msg-1","Heartbeat",{}]')).not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(warn).toHaveBeenCalledWith('[CP001] Could not journal an inbound frame:', expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('should record nothing when disabled', () => {
+    journal = new MessageJournal(queueService as unknown as QueueService, false);
+
+    journal.record('CP001', 'in', '[2,"msg-1","Heartbeat",{}]');
+
+    expect(queueService.queueJournalEntry).not.toHaveBeenCalled();
+  });
+});
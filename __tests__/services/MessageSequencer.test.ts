@@ -0,0 +1,104 @@
+import { MessageSequencer } from '../../src/services/MessageSequencer';
+
+describe('MessageSequencer - Per Charge Point Ordering', () => {
+  let sequencer: MessageSequencer;
+
+  // A task that only finishes when released, recording when it starts and ends
+  const deferredTask = (log: string[], name: string) => {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    const task = async () => {
+      log.push(`start ${name}`);
+      await done;
+      log.push(`end ${name}`);
+      return name;
+    };
+    return { task, release };
+  };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    sequencer = new MessageSequencer();
+  });
+
+  it('should run messages of one charge point in arrival order', async () => {
+    const log: string[] = [];
+    const start = deferredTask(log, 'StartTransaction');
+    const meter = deferredTask(log, 'MeterValues');
+    const stop = deferredTask(log, 'StopTransaction');
+
+    const results = [
+      sequencer.run('CP001', start.task),
+      sequencer.run('CP001', meter.task),
+      sequencer.run('CP001', stop.task),
+    ];
+
+    // Release in reverse order; later messages still wait for earlier ones
+    stop.release();
+    meter.release();
+    await flush();
+    expect(log).toEqual(['start StartTransaction']);
+
+    start.release();
+    await expect(Promise.all(results)).resolves.toEqual(['StartTransaction', 'MeterValues', 'StopTransaction']);
+    expect(log).toEqual([
+      'start StartTransaction',
+      'end StartTransaction',
+      'start MeterValues',
+      'end MeterValues',
+      'start StopTransaction',
+      'end StopTransaction',
+    ]);
+  });
+
+  it('should not hold up other charge points', async () => {
+    const log: string[] = [];
+    const slow = deferredTask(log, 'CP001');
+    const fast = deferredTask(log, 'CP002');
+
+    const slowResult = sequencer.run('CP001', slow.task);
+    const fastResult = sequencer.run('CP002', fast.task);
+
+    fast.release();
+    await expect(fastResult).resolves.toBe('CP002');
+    expect(log).toEqual(['start CP001', 'start CP002', 'end CP002']);
+
+    slow.release();
+    await slowResult;
+  });
+
+  it('should continue with the next message after a failure', async () => {
+    const failed = sequencer.run('CP001', async () => {
+      throw new Error('Database connection failed');
+    });
+    const next = sequencer.run('CP001', async () => 'Heartbeat');
+
+    await expect(failed).rejects.toThrow('Database connection failed');
+    await expect(next).resolves.toBe('Heartbeat');
+  });
+
+  it('should report the backlog per charge point', async () => {
+    const log: string[] = [];
+    const first = deferredTask(log, 'first');
+    const results = [
+      sequencer.run('CP001', first.task),
+      sequencer.run('CP001', async () => 'second'),
+      sequencer.run('CP002', async () => 'other'),
+    ];
+
+    expect(sequencer.getBacklog('CP001')).toBe(2);
+    expect(sequencer.getStats()).toEqual({
+      chargePoints: 2,
+      pending: 3,
+      backlog: { CP001: 2, CP002: 1 },
+    });
+
+    first.release();
+    await Promise.all(results);
+    await flush();
+
+    expect(sequencer.getBacklog('CP001')).toBe(0);
+    expect(sequencer.getStats()).toEqual({ chargePoints: 0, pending: 0, backlog: {} });
+  });
+});
@@ -1,5 +1,16 @@
 import { OcppService } from '../../src/services/OcppService';
+import { hashPassword } from '../../src/auth';
 import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+import {
+  chargePointSelect,
+  createMockAuthorization,
+  createMockChargePoint,
+  createMockConfigurationKey,
+  createMockConnector,
+  createMockIdTag,
+  createMockStatusNotification,
+  createMockTransaction,
+} from '../helpers/test-utils';
 
 describe('OcppService - Database Operations', () => {
   let ocppService: OcppService;
@@ -25,6 +36,13 @@ describe('OcppService - Database Operations', () => {
         ...cpData,
         lastSeen: new Date(),
         status: 'Available',
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -35,6 +53,7 @@ describe('OcppService - Database Operations', () => {
 
       expect(mockPrisma.chargePoint.upsert).toHaveBeenCalledWith({
         where: { cpId: cpData.cpId },
+        select: chargePointSelect,
         update: {
           vendor: cpData.vendor,
           model: cpData.model,
@@ -51,6 +70,7 @@ describe('OcppService - Database Operations', () => {
           serialNumber: cpData.serialNumber,
           lastSeen: expect.any(Date),
           status: 'Available',
+          registrationStatus: 'Accepted',
           additionalInfo: cpData.additionalInfo,
         },
       });
@@ -72,6 +92,13 @@ describe('OcppService - Database Operations', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: null,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -82,6 +109,7 @@ describe('OcppService - Database Operations', () => {
 
       expect(mockPrisma.chargePoint.upsert).toHaveBeenCalledWith({
         where: { cpId: cpData.cpId },
+        select: chargePointSelect,
         update: {
           vendor: cpData.vendor,
           model: cpData.model,
@@ -98,6 +126,7 @@ describe('OcppService - Database Operations', () => {
           serialNumber: undefined,
           lastSeen: expect.any(Date),
           status: 'Available',
+          registrationStatus: 'Accepted',
           additionalInfo: undefined,
         },
       });
@@ -118,6 +147,13 @@ describe('OcppService - Database Operations', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: null,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -135,6 +171,53 @@ describe('OcppService - Database Operations', () => {
     });
   });
 
+  describe('authenticateChargePoint', () => {
+    const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+    it('should accept the stored password for the matching cpId', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(
+        createMockChargePoint({ authPasswordHash: await hashPassword('0123456789abcdef') })
+      );
+
+      await expect(ocppService.authenticateChargePoint('CP001', basic('CP001:0123456789abcdef'))).resolves.toBe(true);
+      expect(mockPrisma.chargePoint.findUnique).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        select: { authPasswordHash: true },
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(
+        createMockChargePoint({ authPasswordHash: await hashPassword('0123456789abcdef') })
+      );
+
+      await expect(ocppService.authenticateChargePoint('CP001', basic('CP001:wrong'))).resolves.toBe(false);
+    });
+
+    it('should reject credentials issued for another charge point', async () => {
+      await expect(ocppService.authenticateChargePoint('CP001', basic('CP002:0123456789abcdef'))).resolves.toBe(false);
+      expect(mockPrisma.chargePoint.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject charge points without a password', async () => {
+      mockPrisma.chargePoint.findUnique.mockResolvedValue(createMockChargePoint());
+
+      await expect(ocppService.authenticateChargePoint('CP001', basic('CP001:anything'))).resolves.toBe(false);
+      await expect(ocppService.authenticateChargePoint('CP001', undefined)).resolves.toBe(false);
+    });
+  });
+
+  describe('setAuthorizationKey', () => {
+    it('should store only a hash of the key', async () => {
+      await ocppService.setAuthorizationKey('CP001', '0123456789abcdef');
+
+      const call = mockPrisma.chargePoint.update.mock.calls[0][0];
+      expect(call.where).toEqual({ cpId: 'CP001' });
+      expect(call.data.authPasswordHash).toMatch(/^scrypt\$/);
+      expect(mockPrisma.chargePoint.upsert).not.toHaveBeenCalled();
+    });
+  });
+
   describe('recordHeartbeat', () => {
     it('should create a heartbeat record and update last seen', async () => {
       const cpId = 'CP001';
@@ -155,6 +238,13 @@ describe('OcppService - Database Operations', () => {
         lastSeen: new Date(),
         status: 'Available',
         additionalInfo: null,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -178,23 +268,83 @@ describe('OcppService - Database Operations', () => {
     });
   });
 
+  describe('getIdTagInfo', () => {
+    it('should return Invalid for an unknown idTag', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(null);
+
+      const result = await ocppService.getIdTagInfo('UNKNOWN');
+
+      expect(mockPrisma.idTag.findUnique).toHaveBeenCalledWith({
+        where: { idTag: 'UNKNOWN' },
+        include: { parent: true },
+      });
+      expect(result).toEqual({ status: 'Invalid' });
+    });
+
+    it('should return the stored status of a blocked idTag', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({ status: 'Blocked' }) as any);
+
+      const result = await ocppService.getIdTagInfo('RFID123456');
+
+      expect(result.status).toBe('Blocked');
+    });
+
+    it('should return Expired once the expiry date has passed', async () => {
+      const expiryDate = new Date(Date.now() - 1000);
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({ expiryDate }) as any);
+
+      const result = await ocppService.getIdTagInfo('RFID123456');
+
+      expect(result).toEqual({ status: 'Expired', expiryDate: expiryDate.toISOString(), parentIdTag: undefined });
+    });
+
+    it('should inherit a blocked status from the parent group', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({
+        parentIdTag: 'FLEET01',
+        parent: createMockIdTag({ idTag: 'FLEET01', status: 'Blocked' }),
+      }) as any);
+
+      const result = await ocppService.getIdTagInfo('RFID123456');
+
+      expect(result).toEqual({ status: 'Blocked', expiryDate: undefined, parentIdTag: 'FLEET01' });
+    });
+
+    it('should return ConcurrentTx when the tag has an active transaction on another connector', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+      mockPrisma.transaction.count.mockResolvedValue(1);
+
+      const result = await ocppService.getIdTagInfo('RFID123456', {
+        concurrentTx: { cpId: 'CP001', connectorId: 1 },
+      });
+
+      expect(mockPrisma.transaction.count).toHaveBeenCalledWith({
+        where: {
+          idTag: 'RFID123456',
+          status: 'active',
+          NOT: { cpId: 'CP001', connectorId: 1 },
+        },
+      });
+      expect(result.status).toBe('ConcurrentTx');
+    });
+
+    it('should not check concurrency unless asked to', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+
+      const result = await ocppService.getIdTagInfo('RFID123456');
+
+      expect(result.status).toBe('Accepted');
+      expect(mockPrisma.transaction.count).not.toHaveBeenCalled();
+    });
+  });
+
   describe('authorize', () => {
-    it('should create an authorization record with accepted status', async () => {
+    it('should record the authorization with the resolved status', async () => {
       const cpId = 'CP001';
       const idTag = 'RFID123456';
+      const expiryDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
 
-      const mockAuth = {
-        id: 1,
-        cpId,
-        idTag,
-        status: 'Accepted',
-        expiryDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        timestamp: new Date(),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      mockPrisma.authorization.create.mockResolvedValue(mockAuth);
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag({ expiryDate }) as any);
+      mockPrisma.authorization.create.mockResolvedValue(createMockAuthorization({ expiryDate }) as any);
 
       const result = await ocppService.authorize(cpId, idTag);
 
@@ -203,19 +353,44 @@ describe('OcppService - Database Operations', () => {
           cpId,
           idTag,
           status: 'Accepted',
-          expiryDate: expect.any(Date),
+          expiryDate,
           timestamp: expect.any(Date),
         },
       });
 
-      expect(result).toEqual(mockAuth);
-      
-      // Check expiry date is 24 hours from now (only if not null)
-      if (result.expiryDate) {
-        const expectedExpiryTime = Date.now() + 24 * 60 * 60 * 1000;
-        const actualExpiryTime = result.expiryDate.getTime();
-        expect(Math.abs(actualExpiryTime - expectedExpiryTime)).toBeLessThan(1000); // Within 1 second
-      }
+      expect(result).toEqual({
+        status: 'Accepted',
+        expiryDate: expiryDate.toISOString(),
+        parentIdTag: undefined,
+      });
+    });
+
+    it('should record refused authorizations too', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(null);
+      mockPrisma.authorization.create.mockResolvedValue(createMockAuthorization({ status: 'Invalid' }) as any);
+
+      const result = await ocppService.authorize('CP001', 'UNKNOWN');
+
+      expect(mockPrisma.authorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ idTag: 'UNKNOWN', status: 'Invalid', expiryDate: null }),
+      });
+      expect(result).toEqual({ status: 'Invalid' });
+    });
+
+    it('should answer ConcurrentTx for a tag that is already charging', async () => {
+      mockPrisma.idTag.findUnique.mockResolvedValue(createMockIdTag() as any);
+      mockPrisma.transaction.count.mockResolvedValue(1);
+
+      const result = await ocppService.authorize('CP002', 'RFID123456');
+
+      // Authorize names no connector, so every active transaction of the tag counts
+      expect(mockPrisma.transaction.count).toHaveBeenCalledWith({
+        where: { idTag: 'RFID123456', status: 'active', NOT: undefined },
+      });
+      expect(mockPrisma.authorization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ idTag: 'RFID123456', status: 'ConcurrentTx' }),
+      });
+      expect(result.status).toBe('ConcurrentTx');
     });
   });
 
@@ -241,6 +416,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { ...transactionData, startTimestamp: transactionData.startTimestamp.toISOString() } as any,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -294,6 +474,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -327,6 +512,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -362,6 +552,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: stopData.stopReason,
         status: 'completed',
         additionalInfo: stopData,
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -375,6 +570,7 @@ describe('OcppService - Database Operations', () => {
         data: {
           meterStop: stopData.meterStop,
           stopTimestamp: expect.any(Date),
+          stopReceivedAt: expect.any(Date),
           stopReason: stopData.stopReason,
           status: 'completed',
           additionalInfo: stopData,
@@ -404,6 +600,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -436,6 +637,7 @@ describe('OcppService - Database Operations', () => {
         data: {
           meterStop: stopData.meterStop,
           stopTimestamp: expect.any(Date),
+          stopReceivedAt: expect.any(Date),
           stopReason: stopData.stopReason,
           status: 'completed',
           additionalInfo: stopData,
@@ -465,6 +667,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: {},
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -512,6 +719,33 @@ describe('OcppService - Database Operations', () => {
     });
   });
 
+  describe('recordTransactionEnergy', () => {
+    it('should store meterStop minus meterStart for a consistent meter', async () => {
+      mockPrisma.transaction.update.mockResolvedValue(createMockTransaction() as any);
+
+      await ocppService.recordTransactionEnergy({ transactionId: 1, meterStart: 1000, meterStop: 2500 });
+
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 1 },
+        data: { energyWh: 1500, energySource: 'meterStop' },
+      });
+    });
+
+    it('should leave energy unknown when meterStop is suspicious and there is no transactionData', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockPrisma.transaction.update.mockResolvedValue(createMockTransaction() as any);
+
+      await ocppService.recordTransactionEnergy({ transactionId: 1, meterStart: 1000, meterStop: 0 });
+
+      expect(mockPrisma.transaction.update).toHaveBeenCalledWith({
+        where: { transactionId: 1 },
+        data: { energyWh: null, energySource: null },
+      });
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
   describe('recordStatusNotification', () => {
     it('should create a status notification record', async () => {
       const notificationData = {
@@ -536,6 +770,7 @@ describe('OcppService - Database Operations', () => {
         vendorErrorCode: notificationData.vendorErrorCode,
         timestamp: new Date(),
         additionalInfo: notificationData.additionalInfo,
+        receivedAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -554,12 +789,257 @@ describe('OcppService - Database Operations', () => {
           vendorId: notificationData.vendorId,
           vendorErrorCode: notificationData.vendorErrorCode,
           timestamp: expect.any(Date),
+          receivedAt: expect.any(Date),
           additionalInfo: notificationData.additionalInfo,
         },
       });
 
       expect(result).toEqual(mockNotification);
     });
+
+    it('should store the charger timestamp separately from the receive time', async () => {
+      const timestamp = new Date('2025-01-01T10:00:00Z');
+      const receivedAt = new Date('2025-01-01T13:00:00Z');
+      mockPrisma.statusNotification.create.mockResolvedValue(createMockStatusNotification() as any);
+
+      await ocppService.recordStatusNotification({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Available',
+        timestamp,
+        receivedAt,
+      });
+
+      expect(mockPrisma.statusNotification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ timestamp, receivedAt }),
+      });
+    });
+  });
+
+  describe('updateConnectorStatus', () => {
+    const where = { cpId_connectorId: { cpId: 'CP001', connectorId: 1 } };
+
+    it('should create the connector on its first notification', async () => {
+      const timestamp = new Date('2025-01-01T10:00:00Z');
+      mockPrisma.connector.findUnique.mockResolvedValue(null);
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.connector.upsert.mockResolvedValue(createMockConnector() as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Available',
+        errorCode: 'NoError',
+        timestamp,
+      });
+
+      expect(mockPrisma.connector.upsert).toHaveBeenCalledWith({
+        where,
+        update: {},
+        create: {
+          cpId: 'CP001',
+          connectorId: 1,
+          status: 'Available',
+          errorCode: 'NoError',
+          info: null,
+          vendorErrorCode: null,
+          statusChangedAt: timestamp,
+          lastStatusAt: timestamp,
+          transactionId: null,
+        },
+      });
+      expect(mockPrisma.connector.update).not.toHaveBeenCalled();
+    });
+
+    it('should attach an already active transaction to a new connector', async () => {
+      mockPrisma.connector.findUnique.mockResolvedValue(null);
+      mockPrisma.transaction.findFirst.mockResolvedValue(createMockTransaction({ transactionId: 42 }) as any);
+      mockPrisma.connector.upsert.mockResolvedValue(createMockConnector({ status: 'Charging', transactionId: 42 }) as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Charging',
+        timestamp: new Date('2025-01-01T10:00:00Z'),
+      });
+
+      expect(mockPrisma.connector.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ status: 'Charging', transactionId: 42 }),
+      }));
+    });
+
+    it('should apply a first notification on top of one processed at the same time', async () => {
+      const created = createMockConnector({ status: 'Preparing', lastStatusAt: new Date('2025-01-01T10:00:00Z') });
+      mockPrisma.connector.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(created as any);
+      mockPrisma.transaction.findFirst.mockResolvedValue(null);
+      mockPrisma.connector.upsert.mockResolvedValue(created as any);
+
+      const timestamp = new Date('2025-01-01T10:00:05Z');
+      await ocppService.updateConnectorStatus({ cpId: 'CP001', connectorId: 1, status: 'Charging', timestamp });
+
+      expect(mockPrisma.connector.create).not.toHaveBeenCalled();
+      expect(mockPrisma.connector.update).toHaveBeenCalledWith({
+        where,
+        data: expect.objectContaining({ status: 'Charging', statusChangedAt: timestamp, lastStatusAt: timestamp }),
+      });
+    });
+
+    it('should update status and change time on a legal transition', async () => {
+      const timestamp = new Date('2025-01-01T10:05:00Z');
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockPrisma.connector.findUnique.mockResolvedValue(createMockConnector() as any);
+
+      await ocppService.updateConnectorStatus({ cpId: 'CP001', connectorId: 1, status: 'Preparing', timestamp });
+
+      expect(mockPrisma.connector.update).toHaveBeenCalledWith({
+        where,
+        data: expect.objectContaining({ status: 'Preparing', statusChangedAt: timestamp, lastStatusAt: timestamp }),
+      });
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should keep the change time when only the error code changes', async () => {
+      const connector = createMockConnector({ status: 'Charging' });
+      const timestamp = new Date('2025-01-01T10:05:00Z');
+      mockPrisma.connector.findUnique.mockResolvedValue(connector as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Charging',
+        errorCode: 'HighTemperature',
+        timestamp,
+      });
+
+      expect(mockPrisma.connector.update).toHaveBeenCalledWith({
+        where,
+        data: expect.objectContaining({
+          errorCode: 'HighTemperature',
+          statusChangedAt: connector.statusChangedAt,
+          lastStatusAt: timestamp,
+        }),
+      });
+    });
+
+    it('should log but still apply an illegal transition', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockPrisma.connector.findUnique.mockResolvedValue(createMockConnector() as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Finishing',
+        timestamp: new Date('2025-01-01T10:05:00Z'),
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith('[CP001] Illegal status transition on connector 1: Available -> Finishing');
+      expect(mockPrisma.connector.update).toHaveBeenCalledWith({
+        where,
+        data: expect.objectContaining({ status: 'Finishing' }),
+      });
+      warnSpy.mockRestore();
+    });
+
+    it('should flag connector statuses reported on connector 0', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const timestamp = new Date('2025-01-01T10:05:00Z');
+      mockPrisma.connector.findUnique.mockResolvedValue(null);
+      mockPrisma.connector.upsert.mockResolvedValue(createMockConnector({
+        connectorId: 0,
+        status: 'Charging',
+        lastStatusAt: timestamp,
+      }) as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 0,
+        status: 'Charging',
+        timestamp,
+      });
+
+      expect(warnSpy).toHaveBeenCalledWith('[CP001] Illegal status transition on connector 0: none -> Charging');
+      expect(mockPrisma.transaction.findFirst).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should not apply OCPP 1.6 transitions to OCPP 2.0.1 statuses', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockPrisma.connector.findUnique.mockResolvedValue(createMockConnector() as any);
+
+      await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Occupied',
+        timestamp: new Date('2025-01-01T10:05:00Z'),
+        protocol: 'ocpp2.0.1',
+      });
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      expect(mockPrisma.connector.update).toHaveBeenCalledWith({
+        where,
+        data: expect.objectContaining({ status: 'Occupied' }),
+      });
+      warnSpy.mockRestore();
+    });
+
+    it('should ignore notifications older than the current state', async () => {
+      const connector = createMockConnector({ lastStatusAt: new Date('2025-01-01T10:05:00Z') });
+      mockPrisma.connector.findUnique.mockResolvedValue(connector as any);
+
+      const result = await ocppService.updateConnectorStatus({
+        cpId: 'CP001',
+        connectorId: 1,
+        status: 'Preparing',
+        timestamp: new Date('2025-01-01T10:04:00Z'),
+      });
+
+      expect(result).toBe(connector);
+      expect(mockPrisma.connector.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('connector transactions', () => {
+    it('should set the current transaction on the connector', async () => {
+      await ocppService.setConnectorTransaction('CP001', 1, 42);
+
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', connectorId: 1 },
+        data: { transactionId: 42 },
+      });
+    });
+
+    it('should only clear the connector when it still holds the stopped transaction', async () => {
+      await ocppService.clearConnectorTransaction('CP001', 1, 42);
+
+      expect(mockPrisma.connector.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', connectorId: 1, transactionId: 42 },
+        data: { transactionId: null },
+      });
+    });
+  });
+
+  describe('recordClockSkew', () => {
+    it('should store the measured skew on the charge point', async () => {
+      mockPrisma.chargePoint.update.mockResolvedValue(createMockChargePoint() as any);
+
+      await ocppService.recordClockSkew('CP001', 1234.6);
+
+      expect(mockPrisma.chargePoint.update).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { clockSkewMs: 1235, clockSkewUpdatedAt: expect.any(Date) },
+      });
+    });
+
+    it('should warn when the skew exceeds the threshold', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockPrisma.chargePoint.update.mockResolvedValue(createMockChargePoint() as any);
+
+      await ocppService.recordClockSkew('CP001', -10 * 60 * 1000);
+
+      expect(warnSpy).toHaveBeenCalledWith('[CP001] Charger clock is off by -600s');
+      warnSpy.mockRestore();
+    });
   });
 
   describe('recordMeterValues', () => {
@@ -599,6 +1079,8 @@ describe('OcppService - Database Operations', () => {
             transactionId: meterData.transactionId,
             timestamp: meterData.meterValues[0].timestamp,
             value: meterData.meterValues[0].value,
+            numericValue: 1500,
+            normalizedUnit: 'Wh',
             context: undefined,
             format: undefined,
             measurand: meterData.meterValues[0].measurand,
@@ -612,6 +1094,8 @@ describe('OcppService - Database Operations', () => {
             transactionId: meterData.transactionId,
             timestamp: meterData.meterValues[1].timestamp,
             value: meterData.meterValues[1].value,
+            numericValue: 22.1,
+            normalizedUnit: 'V',
             context: undefined,
             format: undefined,
             measurand: meterData.meterValues[1].measurand,
@@ -624,6 +1108,43 @@ describe('OcppService - Database Operations', () => {
 
       expect(result).toEqual(mockResult);
     });
+
+    it('should store context, format and location and normalize kilo units', async () => {
+      mockPrisma.meterValue.createMany.mockResolvedValue({ count: 2 });
+
+      await ocppService.recordMeterValues({
+        cpId: 'CP001',
+        connectorId: 1,
+        meterValues: [
+          {
+            timestamp: new Date(),
+            value: '7.4',
+            context: 'Sample.Periodic',
+            format: 'Raw',
+            measurand: 'Power.Active.Import',
+            location: 'Outlet',
+            unit: 'kW',
+          },
+          {
+            timestamp: new Date(),
+            value: '3045022100ab',
+            format: 'SignedData',
+          },
+        ],
+      });
+
+      const [power, signed] = mockPrisma.meterValue.createMany.mock.calls[0][0]!.data as any[];
+      expect(power).toEqual(expect.objectContaining({
+        value: '7.4',
+        numericValue: 7400,
+        normalizedUnit: 'W',
+        context: 'Sample.Periodic',
+        format: 'Raw',
+        location: 'Outlet',
+        unit: 'kW',
+      }));
+      expect(signed).toEqual(expect.objectContaining({ numericValue: null, normalizedUnit: 'Wh' }));
+    });
   });
 
   describe('setChargePointStatus', () => {
@@ -640,6 +1161,13 @@ describe('OcppService - Database Operations', () => {
         lastSeen: new Date(),
         status,
         additionalInfo: null,
+        clockSkewMs: null,
+        clockSkewUpdatedAt: null,
+        authPasswordHash: null,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: null,
+        firmwareStatus: null,
+        firmwareStatusAt: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -690,6 +1218,11 @@ describe('OcppService - Database Operations', () => {
           stopReason: null,
           status: 'active',
           additionalInfo: {},
+          startReceivedAt: null,
+          stopReceivedAt: null,
+          energyWh: null,
+          energySource: null,
+          externalTransactionId: null,
           createdAt: new Date(),
           updatedAt: new Date()
         }
@@ -738,6 +1271,11 @@ describe('OcppService - Database Operations', () => {
         stopReason: null,
         status: 'active',
         additionalInfo: { existingField: 'value' },
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -791,6 +1329,11 @@ describe('OcppService - Database Operations', () => {
           reconnectionCount: 2,
           lastReconnectedAt: '2023-01-01T00:00:00Z'
         },
+        startReceivedAt: null,
+        stopReceivedAt: null,
+        energyWh: null,
+        energySource: null,
+        externalTransactionId: null,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -834,4 +1377,250 @@ describe('OcppService - Database Operations', () => {
       expect(mockPrisma.transaction.update).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('charge point configuration', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockResolvedValue([]);
+    });
+
+    it('should store a complete GetConfiguration answer and drop keys the charger no longer has', async () => {
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([]);
+
+      await ocppService.saveReportedConfiguration('CP001', [
+        { key: 'HeartbeatInterval', value: '300', readonly: false },
+        { key: 'NumberOfConnectors', value: '2', readonly: true },
+      ], true);
+
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith({
+        where: { cpId_key: { cpId: 'CP001', key: 'NumberOfConnectors' } },
+        create: { cpId: 'CP001', key: 'NumberOfConnectors', value: '2', readonly: true },
+        update: { value: '2', readonly: true, pendingValue: null },
+      });
+      expect(mockPrisma.chargePointConfiguration.deleteMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001', key: { notIn: ['HeartbeatInterval', 'NumberOfConnectors'] } },
+      });
+      expect(mockPrisma.configurationChange.create).not.toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep other keys when only some were requested', async () => {
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([]);
+
+      await ocppService.saveReportedConfiguration('CP001', [{ key: 'HeartbeatInterval', value: '300', readonly: false }], false);
+
+      expect(mockPrisma.chargePointConfiguration.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should record values the charger reports differently in the key history', async () => {
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([
+        createMockConfigurationKey({ key: 'MeterValueSampleInterval', value: '60' }),
+      ] as any);
+
+      await ocppService.saveReportedConfiguration('CP001', [{ key: 'MeterValueSampleInterval', value: '30', readonly: false }], true);
+
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalledWith({
+        data: {
+          cpId: 'CP001',
+          key: 'MeterValueSampleInterval',
+          oldValue: '60',
+          newValue: '30',
+          status: 'Reported',
+          source: 'charger',
+        },
+      });
+    });
+
+    it('should clear a pending value once the charger reports it', async () => {
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([
+        createMockConfigurationKey({ key: 'WebSocketPingInterval', value: '0', pendingValue: '60' }),
+        createMockConfigurationKey({ key: 'ConnectionTimeOut', value: '30', pendingValue: '90' }),
+      ] as any);
+
+      await ocppService.saveReportedConfiguration('CP001', [
+        { key: 'WebSocketPingInterval', value: '60', readonly: false },
+        { key: 'ConnectionTimeOut', value: '30', readonly: false },
+      ], true);
+
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { value: '60', readonly: false, pendingValue: null },
+      }));
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { value: '30', readonly: false, pendingValue: '90' },
+      }));
+    });
+
+    it('should never store the AuthorizationKey', async () => {
+      mockPrisma.chargePointConfiguration.findMany.mockResolvedValue([]);
+
+      await ocppService.saveReportedConfiguration('CP001', [{ key: 'AuthorizationKey', value: 'secret-secret-secret', readonly: false }], true);
+
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { cpId: 'CP001', key: 'AuthorizationKey', value: null, readonly: false },
+      }));
+    });
+
+    it('should store an accepted change and record it', async () => {
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey() as any);
+
+      await ocppService.recordConfigurationChange('CP001', {
+        key: 'HeartbeatInterval',
+        value: '600',
+        status: 'Accepted',
+        source: 'api',
+      });
+
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalledWith({
+        data: {
+          cpId: 'CP001',
+          key: 'HeartbeatInterval',
+          oldValue: '300',
+          newValue: '600',
+          status: 'Accepted',
+          source: 'api',
+        },
+      });
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith({
+        where: { cpId_key: { cpId: 'CP001', key: 'HeartbeatInterval' } },
+        create: { cpId: 'CP001', key: 'HeartbeatInterval', value: '600' },
+        update: { value: '600', pendingValue: null },
+      });
+    });
+
+    it('should keep a change that needs a reboot as pending', async () => {
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey() as any);
+
+      await ocppService.recordConfigurationChange('CP001', {
+        key: 'HeartbeatInterval',
+        value: '600',
+        status: 'RebootRequired',
+        source: 'api',
+      });
+
+      expect(mockPrisma.chargePointConfiguration.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { pendingValue: '600' },
+      }));
+    });
+
+    it('should only record a rejected change', async () => {
+      mockPrisma.chargePointConfiguration.findUnique.mockResolvedValue(createMockConfigurationKey() as any);
+
+      await ocppService.recordConfigurationChange('CP001', {
+        key: 'HeartbeatInterval',
+        value: '600',
+        status: 'Rejected',
+        source: 'api',
+      });
+
+      expect(mockPrisma.configurationChange.create).toHaveBeenCalled();
+      expect(mockPrisma.chargePointConfiguration.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('configuration drift', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockResolvedValue([]);
+    });
+
+    it('should replace the previous drift report of the charger', async () => {
+      const checkedAt = new Date('2025-10-24T09:00:00Z');
+
+      await ocppService.saveConfigurationDrift('CP001', 3, [
+        { key: 'HeartbeatInterval', expected: '900', actual: '300', status: 'Accepted' },
+      ], checkedAt);
+
+      expect(mockPrisma.configurationDrift.deleteMany).toHaveBeenCalledWith({ where: { cpId: 'CP001' } });
+      expect(mockPrisma.configurationDrift.createMany).toHaveBeenCalledWith({
+        data: [{ cpId: 'CP001', templateId: 3, checkedAt, key: 'HeartbeatInterval', expected: '900', actual: '300', status: 'Accepted' }],
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only clear the report when nothing drifted', async () => {
+      await ocppService.saveConfigurationDrift('CP001', 3, []);
+
+      expect(mockPrisma.configurationDrift.deleteMany).toHaveBeenCalled();
+      expect(mockPrisma.configurationDrift.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remote commands', () => {
+    it('should create a pending remote command', async () => {
+      mockPrisma.remoteCommand.create.mockResolvedValue({ id: 1 } as any);
+
+      await ocppService.createRemoteCommand({
+        cpId: 'CP001',
+        action: 'RemoteStartTransaction',
+        idTag: 'RFID123456',
+        connectorId: 1,
+        request: { idTag: 'RFID123456', connectorId: 1 },
+      });
+
+      expect(mockPrisma.remoteCommand.create).toHaveBeenCalledWith({
+        data: {
+          cpId: 'CP001',
+          action: 'RemoteStartTransaction',
+          idTag: 'RFID123456',
+          connectorId: 1,
+          transactionId: undefined,
+          status: 'Pending',
+          request: { idTag: 'RFID123456', connectorId: 1 },
+        },
+      });
+    });
+
+    it('should record the outcome of a remote command', async () => {
+      mockPrisma.remoteCommand.update.mockResolvedValue({ id: 1 } as any);
+
+      await ocppService.completeRemoteCommand(1, { status: 'Accepted', response: { status: 'Accepted' } });
+
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'Accepted', response: { status: 'Accepted' }, error: undefined },
+      });
+    });
+
+    it('should link a started transaction to the matching accepted RemoteStartTransaction', async () => {
+      mockPrisma.remoteCommand.findFirst.mockResolvedValue({ id: 7 } as any);
+      mockPrisma.remoteCommand.update.mockResolvedValue({ id: 7, transactionId: 42 } as any);
+
+      const result = await ocppService.linkRemoteStart({
+        transactionId: 42,
+        cpId: 'CP001',
+        connectorId: 2,
+        idTag: 'RFID123456',
+      });
+
+      expect(mockPrisma.remoteCommand.findFirst).toHaveBeenCalledWith({
+        where: {
+          cpId: 'CP001',
+          action: 'RemoteStartTransaction',
+          status: 'Accepted',
+          idTag: 'RFID123456',
+          transactionId: null,
+          createdAt: { gte: expect.any(Date) },
+          OR: [{ connectorId: null }, { connectorId: 2 }],
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(mockPrisma.remoteCommand.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { transactionId: 42 },
+      });
+      expect(result).toEqual({ id: 7, transactionId: 42 });
+    });
+
+    it('should not link locally started transactions', async () => {
+      mockPrisma.remoteCommand.findFirst.mockResolvedValue(null);
+
+      const result = await ocppService.linkRemoteStart({
+        transactionId: 42,
+        cpId: 'CP001',
+        connectorId: 1,
+        idTag: 'RFID123456',
+      });
+
+      expect(result).toBeNull();
+      expect(mockPrisma.remoteCommand.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { OfflineSweeper } from '../../src/services/OfflineSweeper';
+import { OcppService } from '../../src/services/OcppService';
+import { createMockPrismaClient, MockPrismaClient } from '../mocks/prisma';
+
+describe('OfflineSweeper - Stale Connection Detection', () => {
+  let sweeper: OfflineSweeper;
+  let ocppService: OcppService;
+  let mockPrisma: MockPrismaClient;
+
+  const now = new Date('2025-01-01T12:00:00Z');
+  const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+  beforeEach(() => {
+    mockPrisma = createMockPrismaClient();
+    ocppService = new OcppService(mockPrisma);
+    sweeper = new OfflineSweeper(ocppService, { sweepIntervalMs: 60000, missedHeartbeats: 3 });
+    mockPrisma.chargePoint.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    sweeper.stop();
+  });
+
+  it('should mark chargers Offline after the missed heartbeats', async () => {
+    mockPrisma.chargePoint.findMany.mockResolvedValue([
+      { cpId: 'CP001', lastSeen: secondsAgo(901), heartbeatInterval: null },
+      { cpId: 'CP002', lastSeen: secondsAgo(899), heartbeatInterval: null },
+    ] as any);
+    const listener = jest.fn();
+    sweeper.on('offline', listener);
+
+    const events = await sweeper.sweep(now);
+
+    expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledWith({
+      where: { status: 'Online' },
+      select: { cpId: true, lastSeen: true, heartbeatInterval: true },
+    });
+    expect(mockPrisma.chargePoint.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.chargePoint.updateMany).toHaveBeenCalledWith({
+      where: { cpId: 'CP001', status: 'Online', lastSeen: secondsAgo(901) },
+      data: { status: 'Offline' },
+    });
+    expect(events).toEqual([
+      { cpId: 'CP001', lastSeen: secondsAgo(901), silentForMs: 901000, heartbeatIntervalSeconds: 300 },
+    ]);
+    expect(listener).toHaveBeenCalledWith(events[0]);
+  });
+
+  it('should use the charger\'s own heartbeat interval', async () => {
+    mockPrisma.chargePoint.findMany.mockResolvedValue([
+      { cpId: 'CP001', lastSeen: secondsAgo(100), heartbeatInterval: 30 },
+      { cpId: 'CP002', lastSeen: secondsAgo(1000), heartbeatInterval: 600 },
+    ] as any);
+
+    const events = await sweeper.sweep(now);
+
+    expect(events.map(event => event.cpId)).toEqual(['CP001']);
+  });
+
+  it('should not report a charger that sent a message during the sweep', async () => {
+    mockPrisma.chargePoint.findMany.mockResolvedValue([
+      { cpId: 'CP001', lastSeen: secondsAgo(3600), heartbeatInterval: null },
+    ] as any);
+    mockPrisma.chargePoint.updateMany.mockResolvedValue({ count: 0 });
+    const listener = jest.fn();
+    sweeper.on('offline', listener);
+
+    await expect(sweeper.sweep(now)).resolves.toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should skip chargers that were never seen', async () => {
+    mockPrisma.chargePoint.findMany.mockResolvedValue([
+      { cpId: 'CP001', lastSeen: null, heartbeatInterval: null },
+    ] as any);
+
+    await sweeper.sweep(now);
+
+    expect(mockPrisma.chargePoint.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should sweep on its interval once started', async () => {
+    jest.useFakeTimers();
+    try {
+      mockPrisma.chargePoint.findMany.mockResolvedValue([]);
+
+      sweeper.start();
+      jest.advanceTimersByTime(60000);
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledTimes(1);
+
+      sweeper.stop();
+      jest.advanceTimersByTime(60000);
+      expect(mockPrisma.chargePoint.findMany).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('markChargePointSeen', () => {
+    it('should bring the charger back Online', async () => {
+      await ocppService.markChargePointSeen('CP001', now);
+
+      expect(mockPrisma.chargePoint.updateMany).toHaveBeenCalledWith({
+        where: { cpId: 'CP001' },
+        data: { lastSeen: now, status: 'Online' },
+      });
+    });
+  });
+});
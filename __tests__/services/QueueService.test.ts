@@ -1,4 +1,4 @@
-import { QueueService, HeartbeatJob, StatusNotificationJob, MeterValuesJob } from '../../src/services/QueueService';
+import { QueueService, HeartbeatJob, StatusNotificationJob, MeterValuesJob, MessageJournalJob } from '../../src/services/QueueService';
 
 // Mock the dependencies
 jest.mock('ioredis');
@@ -9,6 +9,7 @@ describe('QueueService - Connection Management', () => {
   let mockHeartbeatQueue: any;
   let mockStatusNotificationQueue: any;
   let mockMeterValuesQueue: any;
+  let mockMessageJournalQueue: any;
 
   beforeEach(() => {
     // Reset all mocks
@@ -51,12 +52,25 @@ describe('QueueService - Connection Management', () => {
       }),
     };
 
+    mockMessageJournalQueue = {
+      add: jest.fn().mockResolvedValue({ id: 'job-id', data: {} }),
+      close: jest.fn().mockResolvedValue(undefined),
+      process: jest.fn().mockResolvedValue(undefined),
+      getJobCounts: jest.fn().mockResolvedValue({
+        waiting: 0,
+        active: 0,
+        completed: 0,
+        failed: 0,
+      }),
+    };
+
     // Mock Bull constructor to return our mock queues
     const Bull = require('bull');
     Bull.mockImplementation((queueName: string) => {
       if (queueName === 'heartbeat-queue') return mockHeartbeatQueue;
       if (queueName === 'status-notification-queue') return mockStatusNotificationQueue;
       if (queueName === 'meter-values-queue') return mockMeterValuesQueue;
+      if (queueName === 'message-journal-queue') return mockMessageJournalQueue;
       return {};
     });
 
@@ -88,6 +102,7 @@ describe('QueueService - Connection Management', () => {
       expect(Bull).toHaveBeenCalledWith('heartbeat-queue', expectedRedisConfig);
       expect(Bull).toHaveBeenCalledWith('status-notification-queue', expectedRedisConfig);
       expect(Bull).toHaveBeenCalledWith('meter-values-queue', expectedRedisConfig);
+      expect(Bull).toHaveBeenCalledWith('message-journal-queue', expectedRedisConfig);
     });
   });
 
@@ -254,6 +269,28 @@ describe('QueueService - Connection Management', () => {
     });
   });
 
+  describe('queueJournalEntry', () => {
+    it('should queue the frame without keeping finished jobs', async () => {
+      const entry: MessageJournalJob = {
+        cpId: 'CP001',
+        timestamp: new Date().toISOString(),
+        direction: 'in',
+        messageType: 2,
+        uniqueId: 'msg-1',
+        action: 'Heartbeat',
+        payload: {},
+      };
+
+      await queueService.queueJournalEntry(entry);
+
+      expect(mockMessageJournalQueue.add).toHaveBeenCalledWith(
+        'record-message',
+        entry,
+        expect.objectContaining({ attempts: 3, removeOnComplete: true })
+      );
+    });
+  });
+
   describe('queue getters', () => {
     it('should return heartbeat queue instance', () => {
       const heartbeatQueue = queueService.getHeartbeatQueue();
@@ -285,6 +322,7 @@ describe('QueueService - Connection Management', () => {
       expect(mockHeartbeatQueue.close).toHaveBeenCalled();
       expect(mockStatusNotificationQueue.close).toHaveBeenCalled();
       expect(mockMeterValuesQueue.close).toHaveBeenCalled();
+      expect(mockMessageJournalQueue.close).toHaveBeenCalled();
       expect(mockRedis.quit).toHaveBeenCalled();
     });
 
@@ -301,6 +339,106 @@ describe('QueueService - Connection Management', () => {
     });
   });
 
+  describe('response cache', () => {
+    let mockRedis: { get: jest.Mock; set: jest.Mock };
+
+    beforeEach(() => {
+      mockRedis = {
+        get: jest.fn().mockResolvedValue(null),
+        set: jest.fn().mockResolvedValue('OK'),
+      };
+      (queueService as any).redis = mockRedis;
+    });
+
+    const stop = { transactionId: 42, meterStop: 1500, timestamp: '2025-01-01T00:00:00Z' };
+
+    it('should store the response per charge point and uniqueId with an expiry', async () => {
+      await queueService.cacheResponse('CP001', 'msg-1', 'StopTransaction', stop, { idTagInfo: { status: 'Accepted' } });
+
+      expect(mockRedis.set).toHaveBeenCalledWith('ocpp:response:CP001:msg-1', expect.any(String), 'EX', 600);
+      expect(JSON.parse(mockRedis.set.mock.calls[0][1])).toEqual({
+        action: 'StopTransaction',
+        requestHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        payload: { idTagInfo: { status: 'Accepted' } },
+      });
+    });
+
+    it('should return the cached response of a retransmitted CALL', async () => {
+      await queueService.cacheResponse('CP001', 'msg-1', 'StopTransaction', stop, { idTagInfo: { status: 'Accepted' } });
+      mockRedis.get.mockResolvedValue(mockRedis.set.mock.calls[0][1]);
+
+      const cached = await queueService.getCachedResponse('CP001', 'msg-1', 'StopTransaction', { ...stop });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('ocpp:response:CP001:msg-1');
+      expect(cached).toMatchObject({ action: 'StopTransaction', payload: { idTagInfo: { status: 'Accepted' } } });
+    });
+
+    it('should treat a reused uniqueId with another payload or action as a new CALL', async () => {
+      await queueService.cacheResponse('CP001', '1', 'StartTransaction', { connectorId: 1, idTag: 'TAG1', meterStart: 0 }, { transactionId: 7 });
+      mockRedis.get.mockResolvedValue(mockRedis.set.mock.calls[0][1]);
+
+      await expect(queueService.getCachedResponse('CP001', '1', 'StartTransaction', { connectorId: 1, idTag: 'TAG2', meterStart: 0 }))
+        .resolves.toBeNull();
+      await expect(queueService.getCachedResponse('CP001', '1', 'BootNotification', { connectorId: 1, idTag: 'TAG1', meterStart: 0 }))
+        .resolves.toBeNull();
+    });
+
+    it('should return null for a new CALL', async () => {
+      await expect(queueService.getCachedResponse('CP001', 'msg-2', 'Heartbeat', {})).resolves.toBeNull();
+    });
+  });
+
+  describe('connection ownership', () => {
+    let mockRedis: { get: jest.Mock; eval: jest.Mock };
+
+    beforeEach(() => {
+      mockRedis = {
+        get: jest.fn().mockResolvedValue('node-a'),
+        eval: jest.fn().mockResolvedValue(1),
+      };
+      (queueService as any).redis = mockRedis;
+    });
+
+    it('should record the owning node and its expiry in one step', async () => {
+      mockRedis.eval.mockResolvedValue('node-b');
+
+      const previous = await queueService.claimConnection('CP001', 'node-a', 90);
+
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+      expect(mockRedis.eval).toHaveBeenCalledWith(expect.stringContaining("'EX'"), 1, 'ocpp:owner:CP001', 'node-a', 90);
+      expect(previous).toBe('node-b');
+    });
+
+    it('should report no previous owner for a new connection', async () => {
+      mockRedis.eval.mockResolvedValue(null);
+
+      await expect(queueService.claimConnection('CP001', 'node-a', 90)).resolves.toBeNull();
+    });
+
+    it('should look up the owning node', async () => {
+      await expect(queueService.getConnectionOwner('CP001')).resolves.toBe('node-a');
+      expect(mockRedis.get).toHaveBeenCalledWith('ocpp:owner:CP001');
+    });
+
+    it('should only release ownership held by this node', async () => {
+      mockRedis.eval.mockResolvedValue(0);
+
+      await expect(queueService.releaseConnection('CP001', 'node-a')).resolves.toBe(false);
+      expect(mockRedis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'ocpp:owner:CP001', 'node-a');
+    });
+
+    it('should refresh the ownership of all local connections in one call', async () => {
+      mockRedis.eval.mockResolvedValue(2);
+
+      await expect(queueService.refreshConnections(['CP001', 'CP002'], 'node-a', 90)).resolves.toBe(2);
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String), 2, 'ocpp:owner:CP001', 'ocpp:owner:CP002', 'node-a', 90
+      );
+      await expect(queueService.refreshConnections([], 'node-a', 90)).resolves.toBe(0);
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getQueueStats', () => {
     it('should return statistics for all queues', async () => {
       const expectedStats = {
@@ -322,11 +460,18 @@ describe('QueueService - Connection Management', () => {
           completed: 200,
           failed: 2,
         },
+        messageJournal: {
+          waiting: 40,
+          active: 5,
+          completed: 0,
+          failed: 0,
+        },
       };
 
       mockHeartbeatQueue.getJobCounts.mockResolvedValue(expectedStats.heartbeat);
       mockStatusNotificationQueue.getJobCounts.mockResolvedValue(expectedStats.statusNotification);
       mockMeterValuesQueue.getJobCounts.mockResolvedValue(expectedStats.meterValues);
+      mockMessageJournalQueue.getJobCounts.mockResolvedValue(expectedStats.messageJournal);
 
       const result = await queueService.getQueueStats();
 
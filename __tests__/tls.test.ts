@@ -0,0 +1,93 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { X509Certificate } from 'crypto';
+import { checkClientCertificate, getCommonName, isTrustedProxy, loadTlsConfig, loadTrustedProxies } from '../src/tls';
+
+// Charger certificates are issued offline by the local test CA script
+const TEST_CA = path.join(__dirname, '..', 'scripts', 'test-ca.sh');
+
+describe('TLS client certificates', () => {
+  let dir: string;
+  let caPem: string;
+  let chargerPem: string;
+  let rogueChargerPem: string;
+
+  const read = (...parts: string[]) => readFileSync(path.join(dir, ...parts), 'utf8');
+  const testCa = (...args: string[]) => execFileSync(TEST_CA, args, { stdio: 'ignore' });
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'ocpp-ca-'));
+    testCa(dir, 'ca');
+    testCa(dir, 'charger', 'CP001');
+    testCa(path.join(dir, 'rogue'), 'ca');
+    testCa(path.join(dir, 'rogue'), 'charger', 'CP001');
+
+    caPem = read('ca.pem');
+    chargerPem = read('CP001.pem');
+    rogueChargerPem = read('rogue', 'CP001.pem');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the CN of a charger certificate', () => {
+    expect(getCommonName(new X509Certificate(chargerPem))).toBe('CP001');
+  });
+
+  it('should accept a CA-issued certificate whose CN is the cpId', () => {
+    expect(checkClientCertificate('CP001', chargerPem, caPem)).toBeNull();
+  });
+
+  it('should refuse a certificate issued for another charger', () => {
+    expect(checkClientCertificate('CP002', chargerPem, caPem)).toBe('Certificate CN CP001 does not match CP002');
+  });
+
+  it('should refuse a certificate from another CA', () => {
+    expect(checkClientCertificate('CP001', rogueChargerPem, caPem)).toBe('Certificate is not issued by the trusted CA');
+  });
+
+  it('should refuse a certificate outside its validity period', () => {
+    expect(checkClientCertificate('CP001', chargerPem, caPem, new Date('2000-01-01T00:00:00Z')))
+      .toBe('Certificate is not valid at this time');
+  });
+
+  it('should refuse garbage', () => {
+    expect(checkClientCertificate('CP001', 'not a certificate', caPem)).toBe('Certificate could not be parsed');
+  });
+
+  describe('loadTlsConfig', () => {
+    it('should stay disabled without a certificate and key', () => {
+      expect(loadTlsConfig({ TLS_CERT_FILE: 'server.pem' })).toBeNull();
+    });
+
+    it('should read the certificate, key and passphrase', () => {
+      expect(loadTlsConfig({
+        TLS_CERT_FILE: 'server.pem',
+        TLS_KEY_FILE: 'server.key',
+        TLS_KEY_PASSPHRASE: 'secret',
+      })).toEqual({ certFile: 'server.pem', keyFile: 'server.key', passphrase: 'secret' });
+    });
+  });
+
+  describe('trusted proxies', () => {
+    const trusted = loadTrustedProxies({ TLS_TRUSTED_PROXIES: '10.0.0.5, fd00::1' });
+
+    it('should only trust the configured addresses', () => {
+      expect(isTrustedProxy('10.0.0.5', trusted)).toBe(true);
+      expect(isTrustedProxy('FD00::1', trusted)).toBe(true);
+      expect(isTrustedProxy('10.0.0.6', trusted)).toBe(false);
+    });
+
+    it('should recognise IPv4-mapped IPv6 addresses', () => {
+      expect(isTrustedProxy('::ffff:10.0.0.5', trusted)).toBe(true);
+      expect(isTrustedProxy('0000:0000:0000:0000:0000:ffff:0a00:0005', trusted)).toBe(true);
+    });
+
+    it('should trust nobody by default', () => {
+      expect(loadTrustedProxies({})).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "remote_commands" (
+    "id" SERIAL NOT NULL,
+    "cp_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "id_tag" TEXT,
+    "connector_id" INTEGER,
+    "transaction_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'Pending',
+    "request" JSONB,
+    "response" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "remote_commands_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "remote_commands_cp_id_action_status_idx" ON "remote_commands"("cp_id", "action", "status");
+
+-- AddForeignKey
+ALTER TABLE "remote_commands" ADD CONSTRAINT "remote_commands_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remote_commands" ADD CONSTRAINT "remote_commands_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("transaction_id") ON DELETE SET NULL ON UPDATE CASCADE;
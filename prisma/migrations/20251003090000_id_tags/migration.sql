@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "id_tags" (
+    "id_tag" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Accepted',
+    "expiry_date" TIMESTAMP(3),
+    "parent_id_tag" TEXT,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "id_tags_pkey" PRIMARY KEY ("id_tag")
+);
+
+-- AddForeignKey
+ALTER TABLE "id_tags" ADD CONSTRAINT "id_tags_parent_id_tag_fkey" FOREIGN KEY ("parent_id_tag") REFERENCES "id_tags"("id_tag") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "clock_skew_ms" INTEGER,
+ADD COLUMN     "clock_skew_updated_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "start_received_at" TIMESTAMP(3),
+ADD COLUMN     "stop_received_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "status_notifications" ADD COLUMN     "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "energy_source" TEXT,
+ADD COLUMN     "energy_wh" DOUBLE PRECISION;
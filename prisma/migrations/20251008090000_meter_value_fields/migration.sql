@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "meter_values" ADD COLUMN     "context" TEXT,
+ADD COLUMN     "format" TEXT,
+ADD COLUMN     "location" TEXT,
+ADD COLUMN     "normalized_unit" TEXT,
+ADD COLUMN     "numeric_value" DOUBLE PRECISION;
+
+-- Backfill the parsed value for existing plain numeric readings
+UPDATE "meter_values"
+SET "normalized_unit" = CASE COALESCE("unit", 'Wh')
+        WHEN 'kWh' THEN 'Wh'
+        WHEN 'kvarh' THEN 'varh'
+        WHEN 'kW' THEN 'W'
+        WHEN 'kvar' THEN 'var'
+        WHEN 'kVA' THEN 'VA'
+        ELSE COALESCE("unit", 'Wh')
+    END,
+    "numeric_value" = CASE
+        WHEN "value" ~ '^\s*-?[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?\s*$' THEN
+            CAST("value" AS DOUBLE PRECISION) * CASE WHEN "unit" IN ('kWh', 'kvarh', 'kW', 'kvar', 'kVA') THEN 1000 ELSE 1 END
+        ELSE NULL
+    END;
+
+-- CreateIndex
+CREATE INDEX "meter_values_cp_id_connector_id_measurand_timestamp_idx" ON "meter_values"("cp_id", "connector_id", "measurand", "timestamp");
@@ -0,0 +1,90 @@
+-- TimescaleDB
+CREATE EXTENSION IF NOT EXISTS timescaledb;
+
+-- Hypertables require the partitioning column in every unique index
+ALTER TABLE "meter_values" DROP CONSTRAINT "meter_values_pkey";
+ALTER TABLE "meter_values" ADD CONSTRAINT "meter_values_pkey" PRIMARY KEY ("id", "timestamp");
+
+ALTER TABLE "heartbeats" DROP CONSTRAINT "heartbeats_pkey";
+ALTER TABLE "heartbeats" ADD CONSTRAINT "heartbeats_pkey" PRIMARY KEY ("id", "timestamp");
+
+-- Convert to hypertables, keeping existing rows
+SELECT create_hypertable('meter_values', 'timestamp', chunk_time_interval => INTERVAL '7 days', migrate_data => true);
+SELECT create_hypertable('heartbeats', 'timestamp', chunk_time_interval => INTERVAL '7 days', migrate_data => true);
+
+-- Continuous aggregates: energy and power per connector.
+-- Only phase-less readings are used so per-phase values are not counted twice;
+-- a sample without measurand is the Energy.Active.Import.Register per OCPP 1.6.
+CREATE MATERIALIZED VIEW "meter_values_1m"
+WITH (timescaledb.continuous) AS
+SELECT
+    time_bucket(INTERVAL '1 minute', "timestamp") AS "bucket",
+    "cp_id",
+    "connector_id",
+    first("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_start_wh",
+    last("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_end_wh",
+    avg("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_avg_w",
+    max("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_max_w",
+    count(*) AS "sample_count"
+FROM "meter_values"
+GROUP BY 1, 2, 3
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW "meter_values_15m"
+WITH (timescaledb.continuous) AS
+SELECT
+    time_bucket(INTERVAL '15 minutes', "timestamp") AS "bucket",
+    "cp_id",
+    "connector_id",
+    first("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_start_wh",
+    last("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_end_wh",
+    avg("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_avg_w",
+    max("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_max_w",
+    count(*) AS "sample_count"
+FROM "meter_values"
+GROUP BY 1, 2, 3
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW "meter_values_1h"
+WITH (timescaledb.continuous) AS
+SELECT
+    time_bucket(INTERVAL '1 hour', "timestamp") AS "bucket",
+    "cp_id",
+    "connector_id",
+    first("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_start_wh",
+    last("numeric_value", "timestamp") FILTER (WHERE COALESCE("measurand", 'Energy.Active.Import.Register') = 'Energy.Active.Import.Register' AND "normalized_unit" = 'Wh' AND "phase" IS NULL) AS "energy_end_wh",
+    avg("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_avg_w",
+    max("numeric_value") FILTER (WHERE "measurand" = 'Power.Active.Import' AND "normalized_unit" = 'W' AND "phase" IS NULL) AS "power_max_w",
+    count(*) AS "sample_count"
+FROM "meter_values"
+GROUP BY 1, 2, 3
+WITH NO DATA;
+
+-- Refresh policies; start offsets cover chargers replaying buffered readings after an outage
+SELECT add_continuous_aggregate_policy('meter_values_1m',
+    start_offset => INTERVAL '1 day', end_offset => INTERVAL '1 minute', schedule_interval => INTERVAL '1 minute');
+SELECT add_continuous_aggregate_policy('meter_values_15m',
+    start_offset => INTERVAL '3 days', end_offset => INTERVAL '15 minutes', schedule_interval => INTERVAL '15 minutes');
+SELECT add_continuous_aggregate_policy('meter_values_1h',
+    start_offset => INTERVAL '7 days', end_offset => INTERVAL '1 hour', schedule_interval => INTERVAL '1 hour');
+
+-- Compression: unique index columns must be covered by segmentby/orderby
+ALTER TABLE "meter_values" SET (
+    timescaledb.compress,
+    timescaledb.compress_segmentby = 'cp_id, connector_id',
+    timescaledb.compress_orderby = 'timestamp DESC, id'
+);
+SELECT add_compression_policy('meter_values', INTERVAL '14 days');
+
+ALTER TABLE "heartbeats" SET (
+    timescaledb.compress,
+    timescaledb.compress_segmentby = 'cp_id',
+    timescaledb.compress_orderby = 'timestamp DESC, id'
+);
+SELECT add_compression_policy('heartbeats', INTERVAL '7 days');
+
+-- Retention: raw data is dropped once the coarser aggregates cover it
+SELECT add_retention_policy('heartbeats', INTERVAL '90 days');
+SELECT add_retention_policy('meter_values', INTERVAL '1 year');
+SELECT add_retention_policy('meter_values_1m', INTERVAL '30 days');
+SELECT add_retention_policy('meter_values_15m', INTERVAL '2 years');
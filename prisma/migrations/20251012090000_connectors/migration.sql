@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "connectors" (
+    "cp_id" TEXT NOT NULL,
+    "connector_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "error_code" TEXT,
+    "info" TEXT,
+    "vendor_error_code" TEXT,
+    "status_changed_at" TIMESTAMP(3) NOT NULL,
+    "last_status_at" TIMESTAMP(3) NOT NULL,
+    "transaction_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connectors_pkey" PRIMARY KEY ("cp_id","connector_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "connectors" ADD CONSTRAINT "connectors_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connectors" ADD CONSTRAINT "connectors_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions"("transaction_id") ON DELETE SET NULL ON UPDATE CASCADE;
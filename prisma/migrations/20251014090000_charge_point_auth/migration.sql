@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "auth_password_hash" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "transactions" ALTER COLUMN "id_tag" DROP NOT NULL,
+ADD COLUMN     "external_transaction_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_cp_id_external_transaction_id_key" ON "transactions"("cp_id", "external_transaction_id");
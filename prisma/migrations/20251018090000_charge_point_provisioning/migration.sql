@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN     "registration_status" TEXT NOT NULL DEFAULT 'Accepted',
+ADD COLUMN     "heartbeat_interval" INTEGER;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "ocpp_messages" (
+    "id" SERIAL NOT NULL,
+    "cp_id" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "direction" TEXT NOT NULL,
+    "message_type" INTEGER,
+    "unique_id" TEXT,
+    "action" TEXT,
+    "payload" JSONB,
+    "latency_ms" INTEGER,
+    "error_code" TEXT,
+    "error_description" TEXT,
+
+    CONSTRAINT "ocpp_messages_pkey" PRIMARY KEY ("id", "timestamp")
+);
+
+-- CreateIndex
+CREATE INDEX "ocpp_messages_cp_id_timestamp_idx" ON "ocpp_messages"("cp_id", "timestamp");
+
+-- Hypertable with compression and retention like the other raw time series
+SELECT create_hypertable('ocpp_messages', 'timestamp', chunk_time_interval => INTERVAL '1 day');
+
+ALTER TABLE "ocpp_messages" SET (
+    timescaledb.compress,
+    timescaledb.compress_segmentby = 'cp_id',
+    timescaledb.compress_orderby = 'timestamp DESC, id'
+);
+SELECT add_compression_policy('ocpp_messages', INTERVAL '7 days');
+SELECT add_retention_policy('ocpp_messages', INTERVAL '30 days');
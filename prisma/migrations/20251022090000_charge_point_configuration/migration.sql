@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "charge_point_configurations" (
+    "cp_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT,
+    "readonly" BOOLEAN NOT NULL DEFAULT false,
+    "pending_value" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charge_point_configurations_pkey" PRIMARY KEY ("cp_id", "key")
+);
+
+-- CreateTable
+CREATE TABLE "configuration_changes" (
+    "id" SERIAL NOT NULL,
+    "cp_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "old_value" TEXT,
+    "new_value" TEXT,
+    "status" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "configuration_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "configuration_changes_cp_id_key_created_at_idx" ON "configuration_changes"("cp_id", "key", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "charge_point_configurations" ADD CONSTRAINT "charge_point_configurations_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "configuration_changes" ADD CONSTRAINT "configuration_changes_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "configuration_templates" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "model" TEXT,
+    "firmware_version" TEXT,
+    "keys" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "configuration_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "configuration_drift" (
+    "cp_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "expected" TEXT NOT NULL,
+    "actual" TEXT,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "template_id" INTEGER NOT NULL,
+    "checked_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "configuration_drift_pkey" PRIMARY KEY ("cp_id", "key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "configuration_templates_name_key" ON "configuration_templates"("name");
+
+-- CreateIndex
+CREATE INDEX "configuration_drift_status_idx" ON "configuration_drift"("status");
+
+-- AddForeignKey
+ALTER TABLE "configuration_drift" ADD CONSTRAINT "configuration_drift_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "configuration_drift" ADD CONSTRAINT "configuration_drift_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "configuration_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
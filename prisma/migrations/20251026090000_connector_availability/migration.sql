@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "remote_commands" ADD COLUMN "issued_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "connector_availability" (
+    "cp_id" TEXT NOT NULL,
+    "connector_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "issued_by" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connector_availability_pkey" PRIMARY KEY ("cp_id", "connector_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "connector_availability" ADD CONSTRAINT "connector_availability_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "charge_points" ADD COLUMN "firmware_status" TEXT,
+ADD COLUMN "firmware_status_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "firmware_campaigns" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "vendor" TEXT NOT NULL,
+    "model" TEXT,
+    "from_version" TEXT,
+    "target_version" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "batch_size" INTEGER NOT NULL,
+    "max_failure_rate" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Running',
+    "pause_reason" TEXT,
+    "current_batch" INTEGER NOT NULL DEFAULT 0,
+    "approved_batch" INTEGER NOT NULL DEFAULT 0,
+    "issued_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "firmware_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "firmware_updates" (
+    "campaign_id" INTEGER NOT NULL,
+    "cp_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'Queued',
+    "batch" INTEGER,
+    "firmware_status" TEXT,
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "firmware_updates_pkey" PRIMARY KEY ("campaign_id", "cp_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "firmware_campaigns_name_key" ON "firmware_campaigns"("name");
+
+-- CreateIndex
+CREATE INDEX "firmware_campaigns_status_idx" ON "firmware_campaigns"("status");
+
+-- CreateIndex
+CREATE INDEX "firmware_updates_cp_id_status_idx" ON "firmware_updates"("cp_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "firmware_updates" ADD CONSTRAINT "firmware_updates_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "firmware_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "firmware_updates" ADD CONSTRAINT "firmware_updates_cp_id_fkey" FOREIGN KEY ("cp_id") REFERENCES "charge_points"("cp_id") ON DELETE RESTRICT ON UPDATE CASCADE;
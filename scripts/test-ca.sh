@@ -0,0 +1,49 @@
+#!/bin/bash
+# Local test CA for OCPP Security Profiles 2 and 3; everything is issued offline with openssl.
+#
+#   scripts/test-ca.sh <dir> ca                  CA key and certificate (ca.key, ca.pem)
+#   scripts/test-ca.sh <dir> server <hostname>   server certificate for TLS_CERT_FILE/TLS_KEY_FILE
+#   scripts/test-ca.sh <dir> charger <cpId>      charger client certificate with CN=<cpId>
+#
+# Certificates are valid for $DAYS days (default 825).
+
+set -euo pipefail
+
+DIR=${1:?usage: test-ca.sh <dir> ca|server|charger [name]}
+COMMAND=${2:?usage: test-ca.sh <dir> ca|server|charger [name]}
+NAME=${3:-}
+DAYS=${DAYS:-825}
+
+mkdir -p "$DIR"
+cd "$DIR"
+
+issue() {
+  local name=$1 extensions=$2
+
+  openssl ecparam -name prime256v1 -genkey -noout -out "$name.key"
+  openssl req -new -key "$name.key" -subj "/CN=$NAME" -out "$name.csr"
+  printf '%s\n' "$extensions" > "$name.ext"
+  openssl x509 -req -in "$name.csr" -CA ca.pem -CAkey ca.key -CAcreateserial \
+    -days "$DAYS" -sha256 -extfile "$name.ext" -out "$name.pem" 2>/dev/null
+  rm -f "$name.csr" "$name.ext"
+}
+
+case "$COMMAND" in
+  ca)
+    openssl ecparam -name prime256v1 -genkey -noout -out ca.key
+    openssl req -x509 -new -key ca.key -sha256 -days "$DAYS" -subj "/CN=OCPP Test CA" -out ca.pem
+    ;;
+  server)
+    : "${NAME:?server hostname required}"
+    issue server "subjectAltName=DNS:$NAME
+extendedKeyUsage=serverAuth"
+    ;;
+  charger)
+    : "${NAME:?charger cpId required}"
+    issue "$NAME" "extendedKeyUsage=clientAuth"
+    ;;
+  *)
+    echo "Unknown command: $COMMAND" >&2
+    exit 1
+    ;;
+esac
@@ -0,0 +1,75 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { HttpError } from './errors';
+
+// Charge point passwords (OCPP 1.6 Security Profile 1)
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// Stored as `scrypt$<salt>$<hash>`, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Decode an `Authorization: Basic` header; the password itself may contain colons
+export function parseBasicAuth(header: string | undefined): { username: string; password: string } | null {
+  const match = header?.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator < 0) {
+    return null;
+  }
+
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+// `Authorization: Bearer <token>` for the admin token; digests keep the comparison constant-time for any length
+export function isAdminToken(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match || !token) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+// API operations that hand out charger credentials need the admin token; without OCPP_ADMIN_TOKEN they are disabled
+export function adminOnly<T extends { headers: Record<string, string> }, R>(
+  handler: (request: T) => Promise<R>,
+  token: string | undefined = process.env.OCPP_ADMIN_TOKEN
+): (request: T) => Promise<R> {
+  return async request => {
+    if (!token) {
+      throw new HttpError(403, 'Set OCPP_ADMIN_TOKEN to enable this operation');
+    }
+    if (!isAdminToken(request.headers.authorization, token)) {
+      throw new HttpError(401, 'Admin token required');
+    }
+    return handler(request);
+  };
+}
+
+// 20 random bytes as hex, the format chargers expect for AuthorizationKey
+export function generateAuthorizationKey(): string {
+  return randomBytes(20).toString('hex');
+}
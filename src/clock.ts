@@ -0,0 +1,12 @@
+// Charger clock checks. Skew is server receive time minus charger time; positive means the charger clock is behind.
+
+// Skew shown by a StatusNotification, or undefined when its timestamp tells nothing about the charger's clock.
+// The timestamp is when the status changed, and chargers replay queued notifications after a reconnect, so only
+// notifications raised while the current connection was open count. A clock running behind by more than the age of
+// the connection therefore only shows once the connection has been up that long.
+export function liveClockSkewMs(timestamp: Date, receivedAt: Date, connectedAt?: Date): number | undefined {
+  if (!connectedAt || timestamp.getTime() < connectedAt.getTime()) {
+    return undefined;
+  }
+  return receivedAt.getTime() - timestamp.getTime();
+}
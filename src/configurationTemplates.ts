@@ -0,0 +1,75 @@
+// Matching chargers to configuration templates and finding keys that drifted from them
+
+export interface TemplateSelector {
+  vendor: string;
+  model: string | null;
+  firmwareVersion: string | null;
+}
+
+export interface ChargerIdentity {
+  vendor: string | null;
+  model: string | null;
+  firmwareVersion: string | null;
+}
+
+export interface StoredKey {
+  key: string;
+  value: string | null;
+  readonly: boolean;
+  pendingValue: string | null;
+}
+
+export interface DriftedKey {
+  key: string;
+  expected: string;
+  // Unset when the charger does not report the key
+  actual?: string;
+  readonly: boolean;
+  // The expected value was already accepted and waits for a reboot
+  pending: boolean;
+}
+
+// Drift statuses that need someone to look at the charger
+export const FAILED_DRIFT_STATUSES = ['Rejected', 'NotSupported', 'ReadOnly', 'Failed'];
+
+// The most specific template for the charger: model and firmware version both set beat model only, which beats vendor only
+export function matchTemplate<T extends TemplateSelector>(templates: T[], charger: ChargerIdentity): T | null {
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const template of templates) {
+    if (template.vendor !== charger.vendor) {
+      continue;
+    }
+    if (template.model !== null && template.model !== charger.model) {
+      continue;
+    }
+    if (template.firmwareVersion !== null && template.firmwareVersion !== charger.firmwareVersion) {
+      continue;
+    }
+
+    const score = (template.model !== null ? 2 : 0) + (template.firmwareVersion !== null ? 1 : 0);
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function diffConfiguration(desired: Record<string, string>, stored: StoredKey[]): DriftedKey[] {
+  const byKey = new Map(stored.map(entry => [entry.key, entry]));
+
+  return Object.entries(desired)
+    .filter(([key, expected]) => byKey.get(key)?.value !== expected)
+    .map(([key, expected]) => {
+      const entry = byKey.get(key);
+      return {
+        key,
+        expected,
+        actual: entry?.value ?? undefined,
+        readonly: entry?.readonly ?? false,
+        pending: entry?.pendingValue === expected,
+      };
+    });
+}
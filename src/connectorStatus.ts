@@ -0,0 +1,44 @@
+// OCPP 1.6 connector status state machine (section 4.9)
+
+export const CONNECTOR_STATUSES = [
+  'Available',
+  'Preparing',
+  'Charging',
+  'SuspendedEVSE',
+  'SuspendedEV',
+  'Finishing',
+  'Reserved',
+  'Unavailable',
+  'Faulted',
+] as const;
+
+export type ConnectorStatus = typeof CONNECTOR_STATUSES[number];
+
+// Connector 0 stands for the whole charge point and only reports these
+export const CHARGE_POINT_STATUSES: ConnectorStatus[] = ['Available', 'Unavailable', 'Faulted'];
+
+// Allowed next statuses for connectors > 0
+const TRANSITIONS: Record<ConnectorStatus, ConnectorStatus[]> = {
+  Available: ['Preparing', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Reserved', 'Unavailable', 'Faulted'],
+  Preparing: ['Available', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Finishing', 'Faulted'],
+  Charging: ['Available', 'SuspendedEV', 'SuspendedEVSE', 'Finishing', 'Unavailable', 'Faulted'],
+  SuspendedEV: ['Available', 'Charging', 'SuspendedEVSE', 'Finishing', 'Unavailable', 'Faulted'],
+  SuspendedEVSE: ['Available', 'Charging', 'SuspendedEV', 'Finishing', 'Unavailable', 'Faulted'],
+  Finishing: ['Available', 'Preparing', 'Unavailable', 'Faulted'],
+  Reserved: ['Available', 'Preparing', 'Unavailable', 'Faulted'],
+  Unavailable: ['Available', 'Preparing', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Faulted'],
+  Faulted: ['Available', 'Preparing', 'Charging', 'SuspendedEV', 'SuspendedEVSE', 'Finishing', 'Reserved', 'Unavailable'],
+};
+
+// A repeated status (e.g. only the errorCode changed) is not a transition and always allowed
+export function isLegalTransition(from: string, to: string, connectorId: number): boolean {
+  if (connectorId === 0) {
+    return CHARGE_POINT_STATUSES.includes(to as ConnectorStatus);
+  }
+  if (from === to) {
+    return true;
+  }
+
+  const allowed = TRANSITIONS[from as ConnectorStatus];
+  return allowed !== undefined && allowed.includes(to as ConnectorStatus);
+}
@@ -0,0 +1,339 @@
+import { FirmwareRepository, OcppService } from '../services';
+import { HttpError } from '../errors';
+import { Page } from '../types';
+import {
+  ApproveChargePointRequestSchema,
+  CampaignIdParamSchema,
+  ChargePointListQuerySchema,
+  ConfigurationChangeListQuerySchema,
+  ConfigurationDriftListQuerySchema,
+  ConfigurationTemplateRequestSchema,
+  FirmwareCampaignRequestSchema,
+  FirmwareUpdateListQuerySchema,
+  HeartbeatIntervalRequestSchema,
+  MessageListQuerySchema,
+  ProvisionChargePointRequestSchema,
+  RemoteCommandListQuerySchema,
+  SetAuthorizationKeyRequestSchema,
+  StatusNotificationListQuerySchema,
+  TransactionListQuerySchema,
+  TemplateIdParamSchema,
+  TransactionIdParamSchema,
+} from '../validation';
+import { FAILED_DRIFT_STATUSES } from '../configurationTemplates';
+
+// Views over charge points and transactions for the ops dashboard, plus charger provisioning
+export class AdminController {
+  constructor(
+    private ocppService: OcppService,
+    private firmware: FirmwareRepository = new FirmwareRepository()
+  ) {}
+
+  async listChargePoints(query: URLSearchParams) {
+    const validated = ChargePointListQuerySchema.parse(Object.fromEntries(query));
+
+    const { items, total } = await this.ocppService.listChargePoints({
+      status: validated.status,
+      registrationStatus: validated.registrationStatus,
+      vendor: validated.vendor,
+      firmwareVersion: validated.firmwareVersion,
+      lastSeenFrom: validated.lastSeenFrom ? new Date(validated.lastSeenFrom) : undefined,
+      lastSeenTo: validated.lastSeenTo ? new Date(validated.lastSeenTo) : undefined,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  async getChargePoint(cpId: string) {
+    const chargePoint = await this.ocppService.getChargePoint(cpId);
+    if (!chargePoint) {
+      throw new HttpError(404, `Charge point ${cpId} not found`);
+    }
+
+    return {
+      ...chargePoint,
+      connectors: await this.ocppService.getConnectors(cpId),
+    };
+  }
+
+  // Chargers that connected while provisioning is pending and wait to be approved
+  async listAwaitingApproval(query: URLSearchParams) {
+    const params = new URLSearchParams(query);
+    params.set('registrationStatus', 'Pending');
+    return this.listChargePoints(params);
+  }
+
+  // Register a charger before it first connects, e.g. when unknown chargers are refused
+  async provisionChargePoint(body: any) {
+    const validated = ProvisionChargePointRequestSchema.parse(body);
+    if (await this.ocppService.getChargePoint(validated.cpId)) {
+      throw new HttpError(409, `Charge point ${validated.cpId} already exists`);
+    }
+
+    return this.ocppService.provisionChargePoint(validated);
+  }
+
+  // The charger receives Accepted at its next BootNotification
+  async approveChargePoint(cpId: string, body: any) {
+    const validated = ApproveChargePointRequestSchema.parse(body);
+    await this.getChargePoint(cpId);
+
+    return this.ocppService.updateRegistration(cpId, {
+      registrationStatus: 'Accepted',
+      heartbeatInterval: validated.heartbeatInterval,
+    });
+  }
+
+  async rejectChargePoint(cpId: string) {
+    await this.getChargePoint(cpId);
+    return this.ocppService.updateRegistration(cpId, { registrationStatus: 'Rejected' });
+  }
+
+  // Sent as the BootNotification interval from the charger's next boot on
+  async setHeartbeatInterval(cpId: string, body: any) {
+    const validated = HeartbeatIntervalRequestSchema.parse(body);
+    await this.getChargePoint(cpId);
+
+    return this.ocppService.updateRegistration(cpId, { heartbeatInterval: validated.heartbeatInterval });
+  }
+
+  // Store a basic-auth password without contacting the charger, e.g. before its first connection
+  async setAuthorizationKey(cpId: string, body: any) {
+    const validated = SetAuthorizationKeyRequestSchema.parse(body);
+    await this.getChargePoint(cpId);
+    await this.ocppService.setAuthorizationKey(cpId, validated.authorizationKey);
+    return { cpId };
+  }
+
+  async listConnectors(cpId: string) {
+    await this.getChargePoint(cpId);
+    return this.ocppService.getConnectors(cpId);
+  }
+
+  // Mirror of the charger's configuration from its last GetConfiguration
+  async getConfiguration(cpId: string) {
+    await this.getChargePoint(cpId);
+    return this.ocppService.getConfiguration(cpId);
+  }
+
+  // Newest first
+  async listConfigurationChanges(cpId: string, key: string, query: URLSearchParams) {
+    const validated = ConfigurationChangeListQuerySchema.parse(Object.fromEntries(query));
+    await this.getChargePoint(cpId);
+
+    const { items, total } = await this.ocppService.listConfigurationChanges(cpId, key, this.toRange(validated));
+    return this.toPage(items, total, validated);
+  }
+
+  // Keys that differed from the charger's template at its last boot and how pushing them went
+  async getConfigurationDrift(cpId: string) {
+    await this.getChargePoint(cpId);
+    return this.ocppService.getConfigurationDrift(cpId);
+  }
+
+  // Drift across all chargers, most recently checked first
+  async listConfigurationDrift(query: URLSearchParams) {
+    const validated = ConfigurationDriftListQuerySchema.parse(Object.fromEntries(query));
+
+    const { items, total } = await this.ocppService.listConfigurationDrift({
+      statuses: validated.failed ? FAILED_DRIFT_STATUSES : validated.status ? [validated.status] : undefined,
+      templateId: validated.templateId,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  async listConfigurationTemplates() {
+    return this.ocppService.listConfigurationTemplates();
+  }
+
+  async createConfigurationTemplate(body: any) {
+    const validated = ConfigurationTemplateRequestSchema.parse(body);
+    await this.ensureNoConflictingTemplate(validated);
+
+    return this.ocppService.createConfigurationTemplate(validated);
+  }
+
+  async updateConfigurationTemplate(templateIdParam: string, body: any) {
+    const templateId = TemplateIdParamSchema.parse(templateIdParam);
+    const validated = ConfigurationTemplateRequestSchema.parse(body);
+    await this.getConfigurationTemplate(templateId);
+    await this.ensureNoConflictingTemplate(validated, templateId);
+
+    return this.ocppService.updateConfigurationTemplate(templateId, validated);
+  }
+
+  // Its drift reports go with it
+  async deleteConfigurationTemplate(templateIdParam: string) {
+    const templateId = TemplateIdParamSchema.parse(templateIdParam);
+    await this.getConfigurationTemplate(templateId);
+
+    return this.ocppService.deleteConfigurationTemplate(templateId);
+  }
+
+  async listFirmwareFiles() {
+    return this.firmware.list();
+  }
+
+  async listFirmwareCampaigns() {
+    return this.ocppService.listFirmwareCampaigns();
+  }
+
+  // The matching chargers are queued right away; the campaign runner sends the first batch at its next tick
+  async createFirmwareCampaign(body: any, issuedBy?: string) {
+    const { fileName, location, ...validated } = FirmwareCampaignRequestSchema.parse(body);
+    if (await this.ocppService.findFirmwareCampaignByName(validated.name)) {
+      throw new HttpError(409, `Firmware campaign ${validated.name} already exists`);
+    }
+    if (fileName !== undefined && !(await this.firmware.find(fileName))) {
+      throw new HttpError(404, `Firmware file ${fileName} not found`);
+    }
+
+    const campaign = await this.ocppService.createFirmwareCampaign({
+      ...validated,
+      location: fileName !== undefined ? this.firmware.locationOf(fileName) : location!,
+      issuedBy,
+    });
+    return this.withProgress(campaign);
+  }
+
+  async getFirmwareCampaign(campaignIdParam: string) {
+    return this.withProgress(await this.findFirmwareCampaign(campaignIdParam));
+  }
+
+  // Per-charger progress in batch order
+  async listFirmwareUpdates(campaignIdParam: string, query: URLSearchParams) {
+    const validated = FirmwareUpdateListQuerySchema.parse(Object.fromEntries(query));
+    const campaign = await this.findFirmwareCampaign(campaignIdParam);
+
+    const { items, total } = await this.ocppService.listFirmwareUpdates(campaign.id, {
+      status: validated.status,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  // Updates already sent carry on; no further batch starts
+  async pauseFirmwareCampaign(campaignIdParam: string, issuedBy?: string) {
+    const campaign = await this.findFirmwareCampaign(campaignIdParam);
+    if (campaign.status !== 'Running') {
+      throw new HttpError(409, `Firmware campaign ${campaign.name} is ${campaign.status}`);
+    }
+
+    await this.ocppService.pauseFirmwareCampaign(campaign.id, `Paused by ${issuedBy ?? 'an operator'}`);
+    return this.getFirmwareCampaign(campaignIdParam);
+  }
+
+  async resumeFirmwareCampaign(campaignIdParam: string) {
+    const campaign = await this.findFirmwareCampaign(campaignIdParam);
+    if (campaign.status !== 'Paused') {
+      throw new HttpError(409, `Firmware campaign ${campaign.name} is ${campaign.status}`);
+    }
+
+    return this.withProgress(await this.ocppService.resumeFirmwareCampaign(campaign.id, campaign.currentBatch));
+  }
+
+  async listStatusNotifications(cpId: string, query: URLSearchParams) {
+    const validated = StatusNotificationListQuerySchema.parse(Object.fromEntries(query));
+    await this.getChargePoint(cpId);
+
+    return this.ocppService.getRecentStatusNotifications(cpId, validated);
+  }
+
+  // Availability operators set with ChangeAvailability per connector, re-applied on reconnection and after every accepted boot
+  async getConnectorAvailability(cpId: string) {
+    await this.getChargePoint(cpId);
+    return this.ocppService.getConnectorAvailability(cpId);
+  }
+
+  // Audit trail of the commands sent to the charger, newest first
+  async listRemoteCommands(cpId: string, query: URLSearchParams) {
+    const validated = RemoteCommandListQuerySchema.parse(Object.fromEntries(query));
+    await this.getChargePoint(cpId);
+
+    const { items, total } = await this.ocppService.listRemoteCommands(cpId, {
+      action: validated.action,
+      issuedBy: validated.issuedBy,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  // Newest first. Frames are journaled for chargers without a record too, so unknown cpIds are not an error.
+  async listMessages(cpId: string, query: URLSearchParams) {
+    const validated = MessageListQuerySchema.parse(Object.fromEntries(query));
+
+    const { items, total } = await this.ocppService.listJournalEntries(cpId, {
+      direction: validated.direction,
+      action: validated.action,
+      from: validated.from ? new Date(validated.from) : undefined,
+      to: validated.to ? new Date(validated.to) : undefined,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  async listTransactions(query: URLSearchParams) {
+    const validated = TransactionListQuerySchema.parse(Object.fromEntries(query));
+
+    const { items, total } = await this.ocppService.listTransactions({
+      cpId: validated.cpId,
+      idTag: validated.idTag,
+      status: validated.status,
+      from: validated.from ? new Date(validated.from) : undefined,
+      to: validated.to ? new Date(validated.to) : undefined,
+    }, this.toRange(validated));
+
+    return this.toPage(items, total, validated);
+  }
+
+  async getTransaction(transactionIdParam: string) {
+    const transactionId = TransactionIdParamSchema.parse(transactionIdParam);
+
+    const transaction = await this.ocppService.getTransactionWithMeterValues(transactionId);
+    if (!transaction) {
+      throw new HttpError(404, `Transaction ${transactionId} not found`);
+    }
+    return transaction;
+  }
+
+  private async findFirmwareCampaign(campaignIdParam: string) {
+    const campaignId = CampaignIdParamSchema.parse(campaignIdParam);
+    const campaign = await this.ocppService.getFirmwareCampaign(campaignId);
+    if (!campaign) {
+      throw new HttpError(404, `Firmware campaign ${campaignId} not found`);
+    }
+    return campaign;
+  }
+
+  private async withProgress<T extends { id: number }>(campaign: T) {
+    return { ...campaign, progress: await this.ocppService.getFirmwareCampaignProgress(campaign.id) };
+  }
+
+  private async getConfigurationTemplate(templateId: number) {
+    const template = await this.ocppService.getConfigurationTemplate(templateId);
+    if (!template) {
+      throw new HttpError(404, `Configuration template ${templateId} not found`);
+    }
+    return template;
+  }
+
+  // One template per name and per vendor/model/firmware selector, so the match for a charger is unambiguous
+  private async ensureNoConflictingTemplate(
+    template: { name: string; vendor: string; model: string | null; firmwareVersion: string | null },
+    exceptId?: number
+  ) {
+    const conflicting = await this.ocppService.findConflictingConfigurationTemplate(template, exceptId);
+    if (conflicting) {
+      throw new HttpError(409, `Configuration template ${conflicting.name} already exists for this name or selector`);
+    }
+  }
+
+  private toRange(paging: { page: number; pageSize: number }) {
+    return { skip: (paging.page - 1) * paging.pageSize, take: paging.pageSize };
+  }
+
+  private toPage<T>(items: T[], total: number, paging: { page: number; pageSize: number }): Page<T> {
+    return { items, total, page: paging.page, pageSize: paging.pageSize };
+  }
+}
@@ -0,0 +1,391 @@
+import { ZodType } from 'zod';
+import { FirmwareRepository, OcppService } from '../services';
+import { HttpError } from '../errors';
+import { generateAuthorizationKey } from '../auth';
+import { ChargePointCaller } from '../types';
+import { DriftedKey, diffConfiguration, matchTemplate } from '../configurationTemplates';
+import {
+  ChangeAuthorizationKeyRequestSchema,
+  ChangeAvailabilityRequestSchema,
+  ChangeAvailabilityResponseSchema,
+  ChangeConfigurationRequestSchema,
+  ChangeConfigurationResponseSchema,
+  GetConfigurationRequestSchema,
+  GetConfigurationResponseSchema,
+  RemoteStartTransactionRequestSchema,
+  RemoteStartTransactionResponseSchema,
+  RemoteStopTransactionRequestSchema,
+  RemoteStopTransactionResponseSchema,
+  ResetRequestSchema,
+  ResetResponseSchema,
+  UnlockConnectorRequestSchema,
+  UnlockConnectorResponseSchema,
+  UpdateFirmwareRequestSchema,
+  UpdateFirmwareResponseSchema,
+} from '../validation';
+
+// Central-system-initiated operations exposed over the HTTP API
+export class CommandController {
+  constructor(
+    private ocppService: OcppService,
+    private caller: ChargePointCaller,
+    private firmware: FirmwareRepository = new FirmwareRepository()
+  ) {}
+
+  async remoteStartTransaction(cpId: string, body: any, issuedBy?: string) {
+    const validated = RemoteStartTransactionRequestSchema.parse(body);
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'RemoteStartTransaction',
+      idTag: validated.idTag,
+      connectorId: validated.connectorId,
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'RemoteStartTransaction', validated, RemoteStartTransactionResponseSchema);
+
+    return {
+      commandId: command.id,
+      status: response.status,
+    };
+  }
+
+  async remoteStopTransaction(cpId: string, body: any, issuedBy?: string) {
+    const validated = RemoteStopTransactionRequestSchema.parse(body);
+
+    const transaction = await this.ocppService.getTransaction(validated.transactionId);
+    if (!transaction || transaction.cpId !== cpId) {
+      throw new HttpError(404, `Transaction ${validated.transactionId} not found on ${cpId}`);
+    }
+    if (transaction.status !== 'active') {
+      throw new HttpError(409, `Transaction ${validated.transactionId} is not active`);
+    }
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'RemoteStopTransaction',
+      idTag: transaction.idTag ?? undefined,
+      connectorId: transaction.connectorId,
+      transactionId: transaction.transactionId,
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'RemoteStopTransaction', validated, RemoteStopTransactionResponseSchema);
+
+    return {
+      commandId: command.id,
+      transactionId: transaction.transactionId,
+      status: response.status,
+    };
+  }
+
+  // Rotate the Security Profile 1 password; the charger uses it from its next connection
+  async changeAuthorizationKey(cpId: string, body: any, issuedBy?: string) {
+    const validated = ChangeAuthorizationKeyRequestSchema.parse(body);
+    await this.ensureReady(cpId);
+
+    const payload = {
+      key: 'AuthorizationKey',
+      value: validated.authorizationKey ?? generateAuthorizationKey(),
+    };
+
+    // The key itself is never written to the audit trail
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'ChangeConfiguration',
+      request: { key: payload.key },
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'ChangeConfiguration', payload, ChangeConfigurationResponseSchema);
+
+    if (response.status === 'Accepted' || response.status === 'RebootRequired') {
+      await this.ocppService.setAuthorizationKey(cpId, payload.value);
+    }
+
+    return {
+      commandId: command.id,
+      status: response.status,
+    };
+  }
+
+  // Fetch the charger's configuration into the stored mirror; all keys unless some are asked for
+  async refreshConfiguration(cpId: string, body: any = {}, issuedBy?: string) {
+    const validated = GetConfigurationRequestSchema.parse(body);
+    await this.ensureKnown(cpId);
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'GetConfiguration',
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'GetConfiguration', validated, GetConfigurationResponseSchema);
+    await this.ocppService.saveReportedConfiguration(cpId, response.configurationKey ?? [], !validated.key?.length);
+
+    return {
+      commandId: command.id,
+      configuration: await this.ocppService.getConfiguration(cpId),
+      unknownKeys: response.unknownKey ?? [],
+    };
+  }
+
+  // RebootRequired changes are stored as pending until the charger reports the new value
+  async changeConfiguration(cpId: string, body: any, issuedBy?: string) {
+    const validated = ChangeConfigurationRequestSchema.parse(body);
+    if (validated.key === 'AuthorizationKey') {
+      throw new HttpError(400, 'Use change-authorization-key to change the AuthorizationKey');
+    }
+    await this.ensureKnown(cpId);
+    const current = await this.ocppService.getConfigurationKey(cpId, validated.key);
+    if (current?.readonly) {
+      throw new HttpError(409, `Configuration key ${validated.key} is read-only on ${cpId}`);
+    }
+    await this.ensureReady(cpId);
+
+    const { commandId, status } = await this.pushConfiguration(cpId, validated.key, validated.value, 'api', issuedBy);
+
+    return {
+      commandId,
+      key: validated.key,
+      status,
+    };
+  }
+
+  // Accepted means the charger reboots once it is done; it boots again with a BootNotification
+  async reset(cpId: string, body: any, issuedBy?: string) {
+    const validated = ResetRequestSchema.parse(body);
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'Reset',
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'Reset', validated, ResetResponseSchema);
+
+    return {
+      commandId: command.id,
+      status: response.status,
+    };
+  }
+
+  // Releases a cable stuck in the socket; a transaction on the connector is stopped by the charger
+  async unlockConnector(cpId: string, body: any, issuedBy?: string) {
+    const validated = UnlockConnectorRequestSchema.parse(body);
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'UnlockConnector',
+      connectorId: validated.connectorId,
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'UnlockConnector', validated, UnlockConnectorResponseSchema);
+
+    return {
+      commandId: command.id,
+      connectorId: validated.connectorId,
+      status: response.status,
+    };
+  }
+
+  // Scheduled means the connector has a transaction and changes once it ends. Accepted and scheduled
+  // availability is kept so it can be sent again when the charger reconnects.
+  async changeAvailability(cpId: string, body: any, issuedBy?: string) {
+    const validated = ChangeAvailabilityRequestSchema.parse(body);
+    await this.ensureKnown(cpId);
+    await this.ensureReady(cpId);
+
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'ChangeAvailability',
+      connectorId: validated.connectorId,
+      request: validated,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'ChangeAvailability', validated, ChangeAvailabilityResponseSchema);
+    if (response.status !== 'Rejected') {
+      await this.ocppService.setConnectorAvailability(cpId, validated.connectorId, {
+        type: validated.type,
+        status: response.status,
+        issuedBy,
+      });
+    }
+
+    return {
+      commandId: command.id,
+      connectorId: validated.connectorId,
+      type: validated.type,
+      status: response.status,
+    };
+  }
+
+  // The charger downloads the firmware at retrieveDate (now by default) and reports its progress with
+  // FirmwareStatusNotification; a file name is resolved against the firmware repository
+  async updateFirmware(cpId: string, body: any, issuedBy?: string) {
+    const validated = UpdateFirmwareRequestSchema.parse(body);
+    const location = validated.fileName !== undefined
+      ? await this.firmwareLocation(validated.fileName)
+      : validated.location!;
+    await this.ensureReady(cpId);
+
+    const payload = {
+      location,
+      retrieveDate: validated.retrieveDate ?? new Date().toISOString(),
+      retries: validated.retries,
+      retryInterval: validated.retryInterval,
+    };
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'UpdateFirmware',
+      request: payload,
+      issuedBy,
+    });
+
+    await this.send(command.id, cpId, 'UpdateFirmware', payload, UpdateFirmwareResponseSchema);
+
+    return {
+      commandId: command.id,
+      location,
+      retrieveDate: payload.retrieveDate,
+    };
+  }
+
+  // Push the template's value for every key that differs from the stored configuration, one key at a time.
+  // The outcome per key replaces the charger's previous drift report.
+  async applyConfigurationTemplate(cpId: string, issuedBy?: string) {
+    const chargePoint = await this.ocppService.getChargePoint(cpId);
+    if (!chargePoint) {
+      throw new HttpError(404, `Charge point ${cpId} not found`);
+    }
+
+    const templates = await this.ocppService.listConfigurationTemplates({ vendor: chargePoint.vendor ?? undefined });
+    const template = matchTemplate(templates, chargePoint);
+    if (!template) {
+      await this.ocppService.saveConfigurationDrift(cpId, null, []);
+      return { template: null, drift: [] };
+    }
+
+    const drifted = diffConfiguration(template.keys as Record<string, string>, await this.ocppService.getConfiguration(cpId));
+    const drift = [];
+    for (const entry of drifted) {
+      drift.push({
+        key: entry.key,
+        expected: entry.expected,
+        actual: entry.actual,
+        ...await this.pushTemplateKey(cpId, entry, issuedBy),
+      });
+    }
+    await this.ocppService.saveConfigurationDrift(cpId, template.id, drift);
+
+    return {
+      template: { id: template.id, name: template.name },
+      drift,
+    };
+  }
+
+  private async pushTemplateKey(cpId: string, entry: DriftedKey, issuedBy?: string): Promise<{ status: string; error?: string }> {
+    if (entry.pending) {
+      return { status: 'RebootRequired' };
+    }
+    if (entry.readonly) {
+      return { status: 'ReadOnly' };
+    }
+    try {
+      await this.ensureReady(cpId);
+      const { status } = await this.pushConfiguration(cpId, entry.key, entry.expected, 'template', issuedBy);
+      return { status };
+    } catch (error) {
+      return { status: 'Failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async pushConfiguration(cpId: string, key: string, value: string, source: string, issuedBy?: string) {
+    const payload = { key, value };
+    const command = await this.ocppService.createRemoteCommand({
+      cpId,
+      action: 'ChangeConfiguration',
+      request: payload,
+      issuedBy,
+    });
+
+    const response = await this.send(command.id, cpId, 'ChangeConfiguration', payload, ChangeConfigurationResponseSchema);
+    await this.ocppService.recordConfigurationChange(cpId, { ...payload, status: response.status, source });
+
+    // Keep the interval sent at the next BootNotification in line with the charger
+    const heartbeatInterval = parseInt(value);
+    if (key === 'HeartbeatInterval' && response.status === 'Accepted' && heartbeatInterval > 0) {
+      await this.ocppService.updateRegistration(cpId, { heartbeatInterval });
+    }
+
+    return { commandId: command.id, status: response.status };
+  }
+
+  private async firmwareLocation(fileName: string) {
+    if (!(await this.firmware.find(fileName))) {
+      throw new HttpError(404, `Firmware file ${fileName} not found`);
+    }
+    return this.firmware.locationOf(fileName);
+  }
+
+  // Configuration is stored per known charge point; a charger that has not booted yet has no record
+  private async ensureKnown(cpId: string) {
+    if (!(await this.ocppService.getChargePoint(cpId))) {
+      throw new HttpError(404, `Charge point ${cpId} not found`);
+    }
+  }
+
+  private async ensureReady(cpId: string) {
+    if (!(await this.caller.isConnected(cpId))) {
+      throw new HttpError(404, `Charge point ${cpId} is not connected`);
+    }
+    if (this.caller.hasPendingCall(cpId)) {
+      throw new HttpError(409, `Charge point ${cpId} is busy with another command`);
+    }
+  }
+
+  // Send the CALL and record its outcome on the RemoteCommand row
+  private async send<T extends object>(
+    commandId: number,
+    cpId: string,
+    action: string,
+    payload: any,
+    responseSchema: ZodType<T>
+  ): Promise<T> {
+    let response: T;
+    try {
+      const result = responseSchema.safeParse(await this.caller.call(cpId, action, payload));
+      if (!result.success) {
+        throw new HttpError(502, `Charge point ${cpId} sent an invalid ${action} response`, result.error.issues);
+      }
+      response = result.data;
+    } catch (error) {
+      await this.ocppService.completeRemoteCommand(commandId, {
+        status: 'Failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+
+    await this.ocppService.completeRemoteCommand(commandId, {
+      // Answers without a status, e.g. GetConfiguration, just complete the command
+      status: 'status' in response && typeof response.status === 'string' ? response.status : 'Completed',
+      response,
+    });
+
+    return response;
+  }
+}
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { OcppService } from '../services';
+import { OcppJobQueue } from '../services/QueueService';
+import {
+  BootNotificationRequestSchema,
+  HeartbeatRequestSchema,
+  StatusNotificationRequestSchema,
+  AuthorizeRequestSchema,
+  TransactionEventRequestSchema,
+  MeterValuesRequestSchema,
+  MeterValueSchema,
+} from '../validation201';
+import { OcppError } from '../errors';
+import {
+  DEFAULT_HEARTBEAT_INTERVAL,
+  ProvisioningMode,
+  RegistrationStatus,
+  initialRegistrationStatus,
+  loadProvisioningMode,
+} from '../provisioning';
+import { Sample, applyMultiplier, energyRegisterWh } from '../metering';
+import { CallContext, IdTagInfo, IdTokenInfo, OcppActionHandler } from '../types';
+import { liveClockSkewMs } from '../clock';
+
+// OCPP 2.0.1 message handling. EVSE ids are stored as connector ids (both use 0 for the whole station);
+// the connector within the EVSE is kept in additionalInfo.
+export class Ocpp201Controller implements OcppActionHandler {
+  constructor(
+    private ocppService: OcppService,
+    private queueService: OcppJobQueue,
+    private provisioningMode: ProvisioningMode = loadProvisioningMode()
+  ) {}
+
+  async handleAction(cpId: string, action: string, payload: any, context?: CallContext): Promise<any> {
+    switch (action) {
+      case 'BootNotification':
+        return this.handleBootNotification(cpId, payload);
+      case 'Heartbeat':
+        return this.handleHeartbeat(cpId, payload);
+      case 'StatusNotification':
+        return this.handleStatusNotification(cpId, payload, context);
+      case 'Authorize':
+        return this.handleAuthorize(cpId, payload);
+      case 'TransactionEvent':
+        return this.handleTransactionEvent(cpId, payload);
+      case 'MeterValues':
+        return this.handleMeterValues(cpId, payload);
+      default:
+        throw new OcppError('NotImplemented', `Unknown action: ${action}`);
+    }
+  }
+
+  async handleBootNotification(cpId: string, payload: any) {
+    const validated = BootNotificationRequestSchema.parse(payload);
+    const { chargingStation } = validated;
+
+    const chargePoint = await this.ocppService.registerChargePoint({
+      cpId,
+      vendor: chargingStation.vendorName,
+      model: chargingStation.model,
+      firmwareVersion: chargingStation.firmwareVersion,
+      serialNumber: chargingStation.serialNumber,
+      additionalInfo: payload,
+    }, initialRegistrationStatus(this.provisioningMode));
+
+    // Pending and Rejected chargers retry the BootNotification after the interval
+    return {
+      status: chargePoint.registrationStatus as RegistrationStatus,
+      currentTime: new Date().toISOString(),
+      interval: chargePoint.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL,
+    };
+  }
+
+  async handleHeartbeat(cpId: string, payload: any) {
+    HeartbeatRequestSchema.parse(payload);
+
+    await this.queueService.queueHeartbeat({
+      cpId,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      currentTime: new Date().toISOString(),
+    };
+  }
+
+  async handleStatusNotification(cpId: string, payload: any, context?: CallContext) {
+    const validated = StatusNotificationRequestSchema.parse(payload);
+    const receivedAt = new Date();
+    const timestamp = new Date(validated.timestamp);
+
+    await this.queueService.queueStatusNotification({
+      cpId,
+      connectorId: validated.evseId,
+      status: validated.connectorStatus,
+      timestamp: timestamp.toISOString(),
+      receivedAt: receivedAt.toISOString(),
+      clockSkewMs: liveClockSkewMs(timestamp, receivedAt, context?.connectedAt),
+      protocol: 'ocpp2.0.1',
+      additionalInfo: payload,
+    });
+
+    return {};
+  }
+
+  async handleAuthorize(cpId: string, payload: any) {
+    const validated = AuthorizeRequestSchema.parse(payload);
+
+    const idTagInfo = await this.ocppService.authorize(cpId, validated.idToken.idToken);
+
+    return { idTokenInfo: this.toIdTokenInfo(idTagInfo) };
+  }
+
+  // Started/Updated/Ended share the charger's transactionId; any of them may be the first one we see
+  async handleTransactionEvent(cpId: string, payload: any): Promise<{ idTokenInfo?: IdTokenInfo }> {
+    const validated = TransactionEventRequestSchema.parse(payload);
+    const { eventType, transactionInfo } = validated;
+    const idTag = validated.idToken?.idToken;
+    const samples = this.flattenMeterValues(validated.meterValue ?? []);
+
+    let transaction = await this.ocppService.findTransactionByExternalId(cpId, transactionInfo.transactionId);
+
+    if (!transaction) {
+      if (!validated.evse) {
+        throw new OcppError('OccurenceConstraintViolation', 'evse is required in the first TransactionEvent of a transaction', {
+          fields: [{ field: 'evse', errorCode: 'OccurenceConstraintViolation', message: 'Required' }],
+        });
+      }
+      if (eventType !== 'Started') {
+        console.warn(`[${cpId}] ${eventType} for unknown transaction ${transactionInfo.transactionId}, recording it as started`);
+      }
+
+      transaction = await this.ocppService.startTransaction({
+        cpId,
+        connectorId: validated.evse.id,
+        idTag,
+        externalTransactionId: transactionInfo.transactionId,
+        meterStart: this.registerReading(samples, 'Transaction.Begin'),
+        startTimestamp: new Date(validated.timestamp),
+        startReceivedAt: new Date(),
+      });
+      await this.ocppService.setConnectorTransaction(cpId, transaction.connectorId, transaction.transactionId);
+    } else if (idTag && !transaction.idTag) {
+      // The driver was identified after the transaction started
+      transaction = await this.ocppService.setTransactionIdTag(transaction.transactionId, idTag);
+    }
+
+    if (samples.length > 0) {
+      await this.queueService.queueMeterValues({
+        cpId,
+        connectorId: transaction.connectorId,
+        transactionId: transaction.transactionId,
+        meterValues: samples,
+      });
+    }
+
+    // A retransmitted Ended finds the transaction already completed
+    if (eventType === 'Ended' && transaction.status === 'active') {
+      const stopped = await this.ocppService.stopTransaction({
+        transactionId: transaction.transactionId,
+        cpId,
+        meterStop: this.registerReading(samples, 'Transaction.End'),
+        stopReason: transactionInfo.stoppedReason,
+        stopTimestamp: new Date(validated.timestamp),
+        receivedAt: new Date(),
+      });
+      await this.ocppService.clearConnectorTransaction(cpId, stopped.connectorId, stopped.transactionId);
+      await this.ocppService.recordTransactionEnergy(stopped, samples);
+    }
+
+    // idTokenInfo is only returned when the event carries an idToken
+    if (!idTag) {
+      return {};
+    }
+
+    const idTagInfo = await this.ocppService.getIdTagInfo(idTag, eventType === 'Started'
+      ? { concurrentTx: { cpId, connectorId: transaction.connectorId } }
+      : {});
+
+    return { idTokenInfo: this.toIdTokenInfo(idTagInfo) };
+  }
+
+  async handleMeterValues(cpId: string, payload: any) {
+    const validated = MeterValuesRequestSchema.parse(payload);
+
+    await this.queueService.queueMeterValues({
+      cpId,
+      connectorId: validated.evseId,
+      meterValues: this.flattenMeterValues(validated.meterValue),
+    });
+
+    return {};
+  }
+
+  // Same shape as OCPP 1.6 sampled values, with the multiplier applied to the numeric value
+  private flattenMeterValues(meterValue: z.infer<typeof MeterValueSchema>[]): Array<Sample & { timestamp: string }> {
+    return meterValue.flatMap(mv =>
+      mv.sampledValue.map(sv => ({
+        timestamp: mv.timestamp,
+        value: applyMultiplier(sv.value, sv.unitOfMeasure?.multiplier),
+        context: sv.context,
+        measurand: sv.measurand,
+        phase: sv.phase,
+        location: sv.location,
+        unit: sv.unitOfMeasure?.unit,
+      }))
+    );
+  }
+
+  // Energy register reading of an event, preferring samples taken for the given context
+  private registerReading(samples: Sample[], context: string): number | undefined {
+    const registers = samples.filter(sample => energyRegisterWh(sample) !== undefined);
+    const sample = registers.find(register => register.context === context) ?? registers[registers.length - 1];
+    return sample ? energyRegisterWh(sample) : undefined;
+  }
+
+  private toIdTokenInfo(idTagInfo: IdTagInfo): IdTokenInfo {
+    return {
+      status: idTagInfo.status,
+      cacheExpiryDateTime: idTagInfo.expiryDate,
+      groupIdToken: idTagInfo.parentIdTag ? { idToken: idTagInfo.parentIdTag, type: 'Central' } : undefined,
+    };
+  }
+}
@@ -1,5 +1,6 @@
+import { z } from 'zod';
 import { OcppService } from '../services';
-import { QueueService } from '../services/QueueService';
+import { OcppJobQueue } from '../services/QueueService';
 import {
   BootNotificationRequestSchema,
   HeartbeatRequestSchema,
@@ -8,30 +9,74 @@ import {
   StopTransactionRequestSchema,
   StatusNotificationRequestSchema,
   MeterValuesRequestSchema,
+  MeterValueSchema,
+  FirmwareStatusNotificationRequestSchema,
+  ChangeAvailabilityResponseSchema,
 } from '../validation';
+import { OcppError } from '../errors';
+import {
+  DEFAULT_HEARTBEAT_INTERVAL,
+  ProvisioningMode,
+  RegistrationStatus,
+  initialRegistrationStatus,
+  loadProvisioningMode,
+} from '../provisioning';
+import { CallContext, ChargePointCaller, IdTagInfo, OcppActionHandler, SYSTEM_ISSUER } from '../types';
+import { liveClockSkewMs } from '../clock';
 
-export class OcppController {
+// OCPP 1.6 message handling
+export class OcppController implements OcppActionHandler {
   constructor(
     private ocppService: OcppService,
-    private queueService: QueueService
+    private queueService: OcppJobQueue,
+    private provisioningMode: ProvisioningMode = loadProvisioningMode()
   ) {}
 
+  async handleAction(cpId: string, action: string, payload: any, context?: CallContext): Promise<any> {
+    switch (action) {
+      case 'BootNotification':
+        return this.handleBootNotification(cpId, payload);
+      case 'Heartbeat':
+        return this.handleHeartbeat(cpId, payload);
+      case 'Authorize':
+        return this.handleAuthorize(cpId, payload);
+      case 'StartTransaction':
+        return this.handleStartTransaction(cpId, payload);
+      case 'StopTransaction':
+        return this.handleStopTransaction(cpId, payload);
+      case 'StatusNotification':
+        return this.handleStatusNotification(cpId, payload, context);
+      case 'MeterValues':
+        return this.handleMeterValues(cpId, payload);
+      case 'FirmwareStatusNotification':
+        return this.handleFirmwareStatusNotification(cpId, payload);
+      default:
+        throw new OcppError('NotImplemented', `Unknown action: ${action}`);
+    }
+  }
+
   async handleBootNotification(cpId: string, payload: any) {
     const validated = BootNotificationRequestSchema.parse(payload);
     
-    await this.ocppService.registerChargePoint({
+    const chargePoint = await this.ocppService.registerChargePoint({
       cpId,
       vendor: validated.chargePointVendor,
       model: validated.chargePointModel,
       firmwareVersion: validated.firmwareVersion,
       serialNumber: validated.chargePointSerialNumber,
       additionalInfo: payload,
-    });
+    }, initialRegistrationStatus(this.provisioningMode));
+
+    const firmwareUpdate = await this.ocppService.confirmFirmwareUpdate(cpId, validated.firmwareVersion);
+    if (firmwareUpdate) {
+      console.log(`[${cpId}] Firmware update of campaign ${firmwareUpdate.campaignId}: ${firmwareUpdate.status}`);
+    }
 
+    // Pending and Rejected chargers retry the BootNotification after the interval
     return {
-      status: 'Accepted' as const,
+      status: chargePoint.registrationStatus as RegistrationStatus,
       currentTime: new Date().toISOString(),
-      interval: 300, // 5 minutes
+      interval: chargePoint.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL,
     };
   }
 
@@ -52,55 +97,83 @@ export class OcppController {
   async handleAuthorize(cpId: string, payload: any) {
     const validated = AuthorizeRequestSchema.parse(payload);
     
-    await this.ocppService.authorize(cpId, validated.idTag);
+    const idTagInfo = await this.ocppService.authorize(cpId, validated.idTag);
 
-    return {
-      idTagInfo: {
-        status: 'Accepted' as const,
-        expiryDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-      },
-    };
+    return { idTagInfo };
   }
 
   async handleStartTransaction(cpId: string, payload: any) {
     const validated = StartTransactionRequestSchema.parse(payload);
-    
+
+    // The charger has already started, so the transaction is recorded even when the tag is refused
+    const idTagInfo = await this.ocppService.getIdTagInfo(validated.idTag, {
+      concurrentTx: { cpId, connectorId: validated.connectorId },
+    });
+
     const transaction = await this.ocppService.startTransaction({
       cpId,
       connectorId: validated.connectorId,
       idTag: validated.idTag,
       meterStart: validated.meterStart,
       startTimestamp: new Date(validated.timestamp),
+      startReceivedAt: new Date(),
     });
 
+    await this.ocppService.setConnectorTransaction(cpId, transaction.connectorId, transaction.transactionId);
+
+    const remoteCommand = await this.ocppService.linkRemoteStart(transaction);
+    if (remoteCommand) {
+      console.log(`[${cpId}] Transaction ${transaction.transactionId} started by remote command ${remoteCommand.id}`);
+    }
+
     return {
       transactionId: transaction.transactionId,
-      idTagInfo: {
-        status: 'Accepted' as const,
-      },
+      idTagInfo,
     };
   }
 
-  async handleStopTransaction(cpId: string, payload: any) {
+  async handleStopTransaction(cpId: string, payload: any): Promise<{ idTagInfo?: IdTagInfo }> {
     const validated = StopTransactionRequestSchema.parse(payload);
+    const samples = this.flattenMeterValues(validated.transactionData ?? []);
     
-    await this.ocppService.stopTransaction({
+    const transaction = await this.ocppService.stopTransaction({
       transactionId: validated.transactionId,
       cpId,
       meterStop: validated.meterStop,
       stopReason: validated.reason,
       idTag: validated.idTag,
+      stopTimestamp: new Date(validated.timestamp),
+      receivedAt: new Date(),
     });
 
+    await this.ocppService.clearConnectorTransaction(cpId, transaction.connectorId, transaction.transactionId);
+
+    // Sampled values reported with the stop are stored like regular MeterValues
+    if (samples.length > 0) {
+      await this.queueService.queueMeterValues({
+        cpId,
+        connectorId: transaction.connectorId,
+        transactionId: transaction.transactionId,
+        meterValues: samples,
+      });
+    }
+
+    await this.ocppService.recordTransactionEnergy(transaction, samples);
+
+    // idTagInfo is only returned when the transaction was stopped with an identifier
+    if (!validated.idTag) {
+      return {};
+    }
+
     return {
-      idTagInfo: {
-        status: 'Accepted' as const,
-      },
+      idTagInfo: await this.ocppService.getIdTagInfo(validated.idTag),
     };
   }
 
-  async handleStatusNotification(cpId: string, payload: any) {
+  async handleStatusNotification(cpId: string, payload: any, context?: CallContext) {
     const validated = StatusNotificationRequestSchema.parse(payload);
+    const receivedAt = new Date();
+    const timestamp = validated.timestamp ? new Date(validated.timestamp) : receivedAt;
     
     // Queue status notification instead of processing immediately
     await this.queueService.queueStatusNotification({
@@ -111,7 +184,9 @@ export class OcppController {
       info: validated.info,
       vendorId: validated.vendorId,
       vendorErrorCode: validated.vendorErrorCode,
-      timestamp: new Date().toISOString(),
+      timestamp: timestamp.toISOString(),
+      receivedAt: receivedAt.toISOString(),
+      clockSkewMs: validated.timestamp ? liveClockSkewMs(timestamp, receivedAt, context?.connectedAt) : undefined,
       additionalInfo: payload,
     });
 
@@ -121,15 +196,7 @@ export class OcppController {
   async handleMeterValues(cpId: string, payload: any) {
     const validated = MeterValuesRequestSchema.parse(payload);
     
-    const meterValues = validated.meterValue.flatMap(mv => 
-      mv.sampledValue.map(sv => ({
-        timestamp: mv.timestamp,
-        value: sv.value,
-        measurand: sv.measurand,
-        phase: sv.phase,
-        unit: sv.unit,
-      }))
-    );
+    const meterValues = this.flattenMeterValues(validated.meterValue);
 
     // Queue meter values instead of processing immediately
     await this.queueService.queueMeterValues({
@@ -142,8 +209,35 @@ export class OcppController {
     return {}; // Empty response
   }
 
+  async handleFirmwareStatusNotification(cpId: string, payload: any) {
+    const validated = FirmwareStatusNotificationRequestSchema.parse(payload);
+
+    const firmwareUpdate = await this.ocppService.recordFirmwareStatus(cpId, validated.status);
+    if (firmwareUpdate?.status === 'Failed') {
+      console.warn(`[${cpId}] Firmware update of campaign ${firmwareUpdate.campaignId} failed: ${validated.status}`);
+    }
+
+    return {};
+  }
+
+  // One entry per sampled value, carrying the timestamp of its MeterValue
+  private flattenMeterValues(meterValue: z.infer<typeof MeterValueSchema>[]) {
+    return meterValue.flatMap(mv =>
+      mv.sampledValue.map(sv => ({
+        timestamp: mv.timestamp,
+        value: sv.value,
+        context: sv.context,
+        format: sv.format,
+        measurand: sv.measurand,
+        phase: sv.phase,
+        location: sv.location,
+        unit: sv.unit,
+      }))
+    );
+  }
+
   // Handle charge point reconnection and resume active transactions
-  async handleReconnection(cpId: string) {
+  async handleReconnection(cpId: string, caller?: ChargePointCaller) {
     const activeTransactions = await this.ocppService.getActiveTransactions(cpId);
     
     if (activeTransactions.length > 0) {
@@ -155,7 +249,49 @@ export class OcppController {
         console.log(`[${cpId}] Resumed transaction ${transaction.transactionId} on connector ${transaction.connectorId}`);
       }
     }
-    
+
+    // A charger that reconnects without rebooting sends no BootNotification
+    if (caller) {
+      await this.reapplyAvailability(cpId, caller);
+    }
+
     return activeTransactions;
   }
+
+  // A charger that lost its state, e.g. after a replacement or factory reset, gets the operator's availability back.
+  // One ChangeAvailability per stored connector; a failure is logged and does not stop the others.
+  async reapplyAvailability(cpId: string, caller: ChargePointCaller) {
+    const availability = await this.ocppService.getConnectorAvailability(cpId);
+    if (availability.length === 0) {
+      return;
+    }
+    // Only an accepted charger may be sent CALLs
+    const chargePoint = await this.ocppService.getChargePoint(cpId);
+    if (chargePoint?.registrationStatus !== 'Accepted') {
+      return;
+    }
+
+    for (const { connectorId, type } of availability) {
+      const payload = { connectorId, type };
+      const command = await this.ocppService.createRemoteCommand({
+        cpId,
+        action: 'ChangeAvailability',
+        connectorId,
+        request: payload,
+        issuedBy: SYSTEM_ISSUER,
+      });
+
+      try {
+        const response = ChangeAvailabilityResponseSchema.parse(await caller.call(cpId, 'ChangeAvailability', payload));
+        await this.ocppService.completeRemoteCommand(command.id, { status: response.status, response });
+        console.log(`[${cpId}] Re-applied ${type} on connector ${connectorId}: ${response.status}`);
+      } catch (error) {
+        await this.ocppService.completeRemoteCommand(command.id, {
+          status: 'Failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        console.warn(`[${cpId}] Could not re-apply ${type} on connector ${connectorId}:`, error);
+      }
+    }
+  }
 }
\ No newline at end of file
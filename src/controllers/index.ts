@@ -1 +1,4 @@
-export * from './OcppController';
\ No newline at end of file
+export * from './OcppController';
+export * from './CommandController';
+export * from './AdminController';
+export * from './Ocpp201Controller';
@@ -0,0 +1,90 @@
+import { ZodError, ZodIssue } from 'zod';
+
+// Error carrying the HTTP status the API should answer with
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: any) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// CALLERROR codes defined by OCPP-J 1.6 (the spec spells "Occurence" this way)
+export type OcppErrorCode =
+  | 'NotImplemented'
+  | 'NotSupported'
+  | 'InternalError'
+  | 'ProtocolError'
+  | 'SecurityError'
+  | 'FormationViolation'
+  | 'PropertyConstraintViolation'
+  | 'OccurenceConstraintViolation'
+  | 'TypeConstraintViolation'
+  | 'GenericError';
+
+// Error that is reported to the charge point as a CALLERROR
+export class OcppError extends Error {
+  constructor(
+    public readonly errorCode: OcppErrorCode,
+    message: string,
+    public readonly errorDetails: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'OcppError';
+  }
+}
+
+// Severity order used to pick one code when a payload has several problems
+const ZOD_ERROR_PRIORITY: OcppErrorCode[] = [
+  'FormationViolation',
+  'OccurenceConstraintViolation',
+  'TypeConstraintViolation',
+  'PropertyConstraintViolation',
+];
+
+function errorCodeForIssue(issue: ZodIssue): OcppErrorCode {
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.path.length === 0) {
+        return 'FormationViolation';
+      }
+      return issue.received === 'undefined' ? 'OccurenceConstraintViolation' : 'TypeConstraintViolation';
+    case 'unrecognized_keys':
+      return 'FormationViolation';
+    default:
+      return 'PropertyConstraintViolation';
+  }
+}
+
+export function fromZodError(error: ZodError): OcppError {
+  const codes = error.issues.map(errorCodeForIssue);
+  const errorCode = ZOD_ERROR_PRIORITY.find(code => codes.includes(code)) || 'FormationViolation';
+
+  return new OcppError(errorCode, 'Payload validation failed', {
+    fields: error.issues.map((issue, index) => ({
+      field: issue.path.join('.'),
+      errorCode: codes[index],
+      message: issue.message,
+    })),
+  });
+}
+
+// Normalize anything thrown while handling a CALL into a spec-compliant CALLERROR
+export function toOcppError(error: unknown): OcppError {
+  if (error instanceof OcppError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return fromZodError(error);
+  }
+  return new OcppError('InternalError', error instanceof Error ? error.message : 'Unknown error');
+}
+
+// OCPP 2.0.1 renamed FormationViolation and corrected the spelling of Occurrence
+const OCPP201_ERROR_CODES: Partial<Record<OcppErrorCode, string>> = {
+  FormationViolation: 'FormatViolation',
+  OccurenceConstraintViolation: 'OccurrenceConstraintViolation',
+};
+
+export function toOcpp201ErrorCode(errorCode: OcppErrorCode): string {
+  return OCPP201_ERROR_CODES[errorCode] ?? errorCode;
+}
@@ -0,0 +1,77 @@
+// Firmware repository file names, update progress and the next step of a firmware campaign
+
+// FirmwareUpdate.status while the charger works on the update
+export const IN_PROGRESS_UPDATE_STATUSES = ['Sent', 'Downloading', 'Downloaded', 'Installing', 'Installed'];
+
+// Plain file names only, so a name can never point outside the repository directory
+const FIRMWARE_FILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,199}$/;
+
+export function isValidFirmwareFileName(fileName: string): boolean {
+  return FIRMWARE_FILE_NAME.test(fileName);
+}
+
+// FirmwareUpdate.status a FirmwareStatusNotification moves the update to; null leaves it unchanged
+export function updateStatusFor(firmwareStatus: string): string | null {
+  switch (firmwareStatus) {
+    case 'Downloading':
+    case 'Downloaded':
+    case 'Installing':
+    case 'Installed':
+      return firmwareStatus;
+    case 'DownloadFailed':
+    case 'InstallationFailed':
+      return 'Failed';
+    default:
+      // Idle says nothing about the update
+      return null;
+  }
+}
+
+// Outcome of an update once the charger booted again; null while it may still be downloading
+export function confirmUpdate(
+  update: { status: string },
+  reportedVersion: string | undefined,
+  targetVersion: string
+): { status: 'Succeeded' } | { status: 'Failed'; error: string } | null {
+  if (reportedVersion === targetVersion) {
+    return { status: 'Succeeded' };
+  }
+  // The reboot that follows an installation comes back with the old version
+  if (update.status === 'Installing' || update.status === 'Installed') {
+    return { status: 'Failed', error: `Booted with firmware ${reportedVersion ?? 'unknown'} instead of ${targetVersion}` };
+  }
+  return null;
+}
+
+export interface CampaignState {
+  currentBatch: number;
+  approvedBatch: number;
+  maxFailureRate: number;
+}
+
+export type CampaignStep =
+  | { action: 'wait' }
+  | { action: 'dispatch' }
+  | { action: 'pause'; reason: string }
+  | { action: 'complete' };
+
+// A running campaign waits for its batch to finish, then pauses when the batch failed too often,
+// completes when no charger is left, or sends the next batch
+export function nextCampaignStep(campaign: CampaignState, updates: Array<{ status: string; batch: number | null }>): CampaignStep {
+  if (updates.some(update => IN_PROGRESS_UPDATE_STATUSES.includes(update.status))) {
+    return { action: 'wait' };
+  }
+
+  if (campaign.currentBatch > campaign.approvedBatch) {
+    const batch = updates.filter(update => update.batch === campaign.currentBatch);
+    const failed = batch.filter(update => update.status === 'Failed').length;
+    if (batch.length > 0 && failed / batch.length > campaign.maxFailureRate) {
+      return { action: 'pause', reason: `${failed} of ${batch.length} updates in batch ${campaign.currentBatch} failed` };
+    }
+  }
+
+  if (!updates.some(update => update.status === 'Queued')) {
+    return { action: 'complete' };
+  }
+  return { action: 'dispatch' };
+}
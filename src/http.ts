@@ -0,0 +1,236 @@
+import * as uWS from 'uws';
+import { ReadStream, createReadStream } from 'fs';
+import { ZodError } from 'zod';
+import { CallErrorResponse, CallTimeoutError } from './services';
+import { HttpError } from './errors';
+
+export interface ApiRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  // Lower-case names as uWS reports them
+  headers: Record<string, string>;
+  body: any;
+}
+
+// Who issued a command, for the RemoteCommand audit trail. The API has no login, so operators name themselves.
+export const OPERATOR_HEADER = 'x-operator';
+
+export function operatorOf(request: ApiRequest): string | undefined {
+  const operator = request.headers[OPERATOR_HEADER]?.trim();
+  return operator ? operator.slice(0, 100) : undefined;
+}
+
+export type ApiHandler = (request: ApiRequest) => Promise<any>;
+
+// Where a file route finds its file; null answers 404
+export type FileResolver = (params: Record<string, string>) => Promise<{ path: string; size: number } | null>;
+
+const STATUS_LINES: Record<number, string> = {
+  200: '200 OK',
+  400: '400 Bad Request',
+  401: '401 Unauthorized',
+  403: '403 Forbidden',
+  404: '404 Not Found',
+  409: '409 Conflict',
+  500: '500 Internal Server Error',
+  502: '502 Bad Gateway',
+  504: '504 Gateway Timeout',
+};
+
+// Map an error thrown by a handler onto an HTTP status and JSON body
+export function toErrorResponse(error: unknown): { status: number; body: any } {
+  if (error instanceof HttpError) {
+    return { status: error.status, body: { error: error.message, details: error.details } };
+  }
+  if (error instanceof ZodError) {
+    return { status: 400, body: { error: 'Invalid request', details: error.issues } };
+  }
+  if (error instanceof CallTimeoutError) {
+    return { status: 504, body: { error: error.message } };
+  }
+  if (error instanceof CallErrorResponse) {
+    return {
+      status: 502,
+      body: { error: error.message, errorCode: error.errorCode, details: error.errorDetails },
+    };
+  }
+
+  console.error('API error:', error);
+  return { status: 500, body: { error: error instanceof Error ? error.message : 'Unknown error' } };
+}
+
+// Small JSON router on top of the uWS app; path parameters are declared as `:name`
+export class HttpApi {
+  constructor(private app: uWS.TemplatedApp) {}
+
+  get(pattern: string, handler: ApiHandler) {
+    this.app.get(pattern, this.wrap(pattern, handler, false));
+    return this;
+  }
+
+  post(pattern: string, handler: ApiHandler) {
+    this.app.post(pattern, this.wrap(pattern, handler, true));
+    return this;
+  }
+
+  del(pattern: string, handler: ApiHandler) {
+    this.app.del(pattern, this.wrap(pattern, handler, false));
+    return this;
+  }
+
+  // Binary download, streamed so large files are never held in memory
+  file(pattern: string, resolve: FileResolver) {
+    const paramNames = parameterNames(pattern);
+
+    this.app.get(pattern, (res: uWS.HttpResponse, req: uWS.HttpRequest) => {
+      let aborted = false;
+      let stream: ReadStream | undefined;
+      res.onAborted(() => {
+        aborted = true;
+        stream?.destroy();
+      });
+
+      resolve(readParameters(req, paramNames)).then(
+        file => {
+          if (aborted) {
+            return;
+          }
+          if (!file) {
+            return writeJson(res, 404, { error: 'File not found' });
+          }
+          res.cork(() => {
+            res.writeStatus(STATUS_LINES[200]).writeHeader('Content-Type', 'application/octet-stream');
+          });
+          if (file.size === 0) {
+            return res.cork(() => res.end());
+          }
+          stream = createReadStream(file.path);
+          streamFile(res, stream, file.size, () => aborted);
+        },
+        error => {
+          if (!aborted) {
+            const { status, body } = toErrorResponse(error);
+            writeJson(res, status, body);
+          }
+        }
+      );
+    });
+    return this;
+  }
+
+  private wrap(pattern: string, handler: ApiHandler, withBody: boolean) {
+    const paramNames = parameterNames(pattern);
+
+    return (res: uWS.HttpResponse, req: uWS.HttpRequest) => {
+      let aborted = false;
+      res.onAborted(() => {
+        aborted = true;
+      });
+
+      // uWS request data is only valid synchronously, so copy it out first
+      const params = readParameters(req, paramNames);
+      const query = new URLSearchParams(req.getQuery() || '');
+      const headers: Record<string, string> = {};
+      req.forEach((name, value) => {
+        headers[name] = value;
+      });
+
+      const body = withBody ? readJson(res) : Promise.resolve(undefined);
+
+      body
+        .then(parsed => handler({ params, query, headers, body: parsed }))
+        .then(
+          result => ({ status: 200, body: result }),
+          error => toErrorResponse(error)
+        )
+        .then(({ status, body: responseBody }) => {
+          if (aborted) {
+            return;
+          }
+          writeJson(res, status, responseBody);
+        });
+    };
+  }
+}
+
+function parameterNames(pattern: string): string[] {
+  return pattern.split('/').filter(part => part.startsWith(':')).map(part => part.slice(1));
+}
+
+function readParameters(req: uWS.HttpRequest, names: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  names.forEach((name, index) => {
+    params[name] = decodeURIComponent(req.getParameter(index) || '');
+  });
+  return params;
+}
+
+function writeJson(res: uWS.HttpResponse, status: number, body: any) {
+  res.cork(() => {
+    res.writeStatus(STATUS_LINES[status] || `${status}`)
+      .writeHeader('Content-Type', 'application/json')
+      .end(JSON.stringify(body));
+  });
+}
+
+// Pauses reading while uWS cannot take more data (backpressure) and resumes once the socket drained
+function streamFile(res: uWS.HttpResponse, stream: ReadStream, size: number, isAborted: () => boolean) {
+  stream.on('data', data => {
+    const chunk = data as Buffer;
+    const arrayBuffer = chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength);
+    const chunkOffset = res.getWriteOffset();
+
+    let result: [boolean, boolean] = [false, false];
+    res.cork(() => {
+      result = res.tryEnd(arrayBuffer, size);
+    });
+    const [ok, done] = result;
+    if (done) {
+      stream.destroy();
+    } else if (!ok) {
+      stream.pause();
+      // Called with the offset uWS got to; the rest of this chunk is sent first
+      res.onWritable(offset => {
+        const [retryOk, retryDone] = res.tryEnd(arrayBuffer.slice(offset - chunkOffset), size);
+        if (retryDone) {
+          stream.destroy();
+        } else if (retryOk) {
+          stream.resume();
+        }
+        return retryOk;
+      });
+    }
+  });
+
+  stream.on('error', error => {
+    console.error('Could not stream file:', error);
+    stream.destroy();
+    // The status line may already be out, so the connection is all that can signal the failure
+    if (!isAborted()) {
+      res.close();
+    }
+  });
+}
+
+function readJson(res: uWS.HttpResponse): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    res.onData((chunk, isLast) => {
+      // uWS reuses the chunk memory, so it has to be copied
+      chunks.push(Buffer.from(chunk.slice(0)));
+      if (!isLast) {
+        return;
+      }
+
+      const raw = Buffer.concat(chunks).toString();
+      if (!raw) {
+        return resolve({});
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+  });
+}
@@ -0,0 +1,76 @@
+import { MessageType, SECRET_CONFIGURATION_KEYS } from './types';
+
+// Stands in for the values of secret configuration keys
+export const REDACTED = '[redacted]';
+
+// 'in' from the charger, 'out' to the charger
+export type JournalDirection = 'in' | 'out';
+
+// What the message journal keeps of one OCPP-J frame
+export interface JournalFrame {
+  messageType?: number;
+  uniqueId?: string;
+  action?: string;
+  payload?: any;
+  errorCode?: string;
+  errorDescription?: string;
+}
+
+// Reads what it can from a frame; malformed frames are kept as raw text so they can still be inspected
+export function parseFrame(raw: string): JournalFrame {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return { payload: raw };
+  }
+  if (!Array.isArray(message) || typeof message[1] !== 'string') {
+    return { payload: raw };
+  }
+
+  const [messageType, uniqueId] = message;
+  switch (messageType) {
+    case MessageType.CALL:
+      // [2, uniqueId, action, payload]
+      return {
+        messageType,
+        uniqueId,
+        action: typeof message[2] === 'string' ? message[2] : undefined,
+        payload: redactSecrets(message[3]),
+      };
+    case MessageType.CALLRESULT:
+      // [3, uniqueId, payload]
+      return { messageType, uniqueId, payload: redactSecrets(message[2]) };
+    case MessageType.CALLERROR:
+      // [4, uniqueId, errorCode, errorDescription, errorDetails]
+      return {
+        messageType,
+        uniqueId,
+        errorCode: typeof message[2] === 'string' ? message[2] : undefined,
+        errorDescription: typeof message[3] === 'string' ? message[3] : undefined,
+        payload: redactSecrets(message[4]),
+      };
+    default:
+      return { uniqueId, payload: raw };
+  }
+}
+
+// Hides the value of secret keys wherever a payload carries `{ key, value }` pairs: the ChangeConfiguration request
+// and the configurationKey list of a GetConfiguration answer
+export function redactSecrets(payload: any): any {
+  if (Array.isArray(payload)) {
+    return payload.map(redactSecrets);
+  }
+  if (payload === null || typeof payload !== 'object') {
+    return payload;
+  }
+
+  const redacted: Record<string, any> = {};
+  for (const [name, value] of Object.entries(payload)) {
+    redacted[name] = redactSecrets(value);
+  }
+  if (SECRET_CONFIGURATION_KEYS.includes(payload.key) && payload.value !== undefined) {
+    redacted.value = REDACTED;
+  }
+  return redacted;
+}
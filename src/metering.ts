@@ -0,0 +1,84 @@
+// Helpers for working with OCPP sampled values
+import { Prisma } from '@prisma/client';
+
+// Defaults the spec applies when a SampledValue omits the field
+export const DEFAULT_MEASURAND = 'Energy.Active.Import.Register';
+export const DEFAULT_UNIT = 'Wh';
+
+// Kilo units are stored in their base unit so queries can compare values directly
+const UNIT_SCALE: Record<string, { unit: string; factor: number }> = {
+  kWh: { unit: 'Wh', factor: 1000 },
+  kvarh: { unit: 'varh', factor: 1000 },
+  kW: { unit: 'W', factor: 1000 },
+  kvar: { unit: 'var', factor: 1000 },
+  kVA: { unit: 'VA', factor: 1000 },
+};
+
+export interface Sample {
+  timestamp: string | Date;
+  value: string;
+  context?: string;
+  format?: string;
+  measurand?: string;
+  phase?: string;
+  location?: string;
+  unit?: string;
+}
+
+// Parse a sampled value into a number in its base unit; signed or unreadable values have none
+export function normalizeSample(sample: Sample): { numericValue: number | null; normalizedUnit: string } {
+  const unit = sample.unit ?? DEFAULT_UNIT;
+  const scale = UNIT_SCALE[unit];
+  const normalizedUnit = scale ? scale.unit : unit;
+
+  const value = Number(sample.value);
+  if (sample.format === 'SignedData' || sample.value.trim() === '' || !Number.isFinite(value)) {
+    return { numericValue: null, normalizedUnit };
+  }
+
+  return { numericValue: scale ? value * scale.factor : value, normalizedUnit };
+}
+
+// OCPP 2.0.1 value scaled by 10^multiplier, computed in decimal so 0.1 with multiplier 3 stays "100"
+export function applyMultiplier(value: number, multiplier = 0): string {
+  return new Prisma.Decimal(value).times(new Prisma.Decimal(10).pow(multiplier)).toFixed();
+}
+
+// Energy register reading in Wh, or undefined when the sample is not a readable energy register
+export function energyRegisterWh(sample: Sample): number | undefined {
+  if ((sample.measurand ?? DEFAULT_MEASURAND) !== DEFAULT_MEASURAND) {
+    return undefined;
+  }
+
+  const { numericValue, normalizedUnit } = normalizeSample(sample);
+  return numericValue !== null && normalizedUnit === 'Wh' ? numericValue : undefined;
+}
+
+// Energy delivered by a transaction in Wh. meterStop is trusted unless it runs backwards
+// or contradicts the register readings the charger sampled during the session.
+export function computeTransactionEnergy(
+  meterStart: number | null,
+  meterStop: number | null,
+  samples: Sample[] = []
+): { energyWh: number | null; source: 'meterStop' | 'transactionData' | null } {
+  const readings = samples
+    .map(sample => energyRegisterWh(sample))
+    .filter((value): value is number => value !== undefined);
+  const lastReading = readings.length > 0 ? Math.max(...readings) : undefined;
+
+  const suspicious = meterStart === null
+    || meterStop === null
+    || meterStop < meterStart
+    || (lastReading !== undefined && meterStop < lastReading);
+
+  if (!suspicious) {
+    return { energyWh: meterStop! - meterStart!, source: 'meterStop' };
+  }
+
+  if (lastReading !== undefined) {
+    const start = meterStart !== null && meterStart <= lastReading ? meterStart : Math.min(...readings);
+    return { energyWh: lastReading - start, source: 'transactionData' };
+  }
+
+  return { energyWh: null, source: null };
+}
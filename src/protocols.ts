@@ -0,0 +1,31 @@
+// OCPP-J WebSocket subprotocols
+
+// Protocols the server has a controller for
+export const OCPP_PROTOCOLS = ['ocpp1.6', 'ocpp2.0.1'] as const;
+
+export type OcppProtocol = typeof OCPP_PROTOCOLS[number];
+
+// Comma-separated list in order of preference, e.g. `ocpp2.0.1,ocpp1.6`
+export function loadSupportedProtocols(value = process.env.OCPP_PROTOCOLS || 'ocpp1.6'): OcppProtocol[] {
+  const protocols = splitProtocols(value);
+
+  const unknown = protocols.filter(protocol => !OCPP_PROTOCOLS.includes(protocol as OcppProtocol));
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported OCPP protocol(s) in OCPP_PROTOCOLS: ${unknown.join(', ')}`);
+  }
+  if (protocols.length === 0) {
+    throw new Error('OCPP_PROTOCOLS must list at least one protocol');
+  }
+
+  return protocols as OcppProtocol[];
+}
+
+// Pick the most preferred supported protocol among those the charger offers in Sec-WebSocket-Protocol
+export function negotiateProtocol(offered: string, supported: readonly OcppProtocol[]): OcppProtocol | null {
+  const offeredProtocols = splitProtocols(offered);
+  return supported.find(protocol => offeredProtocols.includes(protocol)) ?? null;
+}
+
+function splitProtocols(value: string): string[] {
+  return value.split(',').map(protocol => protocol.trim()).filter(Boolean);
+}
@@ -0,0 +1,37 @@
+// Admission of charge points the server has no record of
+
+export const PROVISIONING_MODES = ['open', 'pending', 'closed'] as const;
+
+// open: unknown chargers are registered and accepted at their first BootNotification
+// pending: unknown chargers are registered as Pending and wait for an admin to approve them
+// closed: unknown chargers are refused at the WebSocket upgrade
+export type ProvisioningMode = typeof PROVISIONING_MODES[number];
+
+export type RegistrationStatus = 'Accepted' | 'Pending' | 'Rejected';
+
+// Heartbeat interval in seconds for chargers without their own setting
+export const DEFAULT_HEARTBEAT_INTERVAL = parseInt(process.env.OCPP_HEARTBEAT_INTERVAL || '300');
+
+export function loadProvisioningMode(value: string = process.env.OCPP_PROVISIONING_MODE || 'open'): ProvisioningMode {
+  if (!PROVISIONING_MODES.includes(value as ProvisioningMode)) {
+    throw new Error(`Unknown provisioning mode: ${value} (expected ${PROVISIONING_MODES.join(', ')})`);
+  }
+  return value as ProvisioningMode;
+}
+
+// Registration status given to a charge point on its first BootNotification
+export function initialRegistrationStatus(mode: ProvisioningMode): RegistrationStatus {
+  switch (mode) {
+    case 'open':
+      return 'Accepted';
+    case 'pending':
+      return 'Pending';
+    case 'closed':
+      return 'Rejected';
+  }
+}
+
+// Until the charge point is accepted it may only send BootNotification (OCPP 1.6 §4.2.1, OCPP 2.0.1 B02)
+export function isActionAllowed(registrationStatus: RegistrationStatus, action: string): boolean {
+  return registrationStatus === 'Accepted' || action === 'BootNotification';
+}
@@ -0,0 +1,70 @@
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { PrismaClient } from '@prisma/client';
+import { OcppService, JobHandler, InlineJobQueue, JournalReplayer } from './services';
+import { OcppController } from './controllers';
+
+// Replays a charger's journaled CALLs through OcppController against a scratch database:
+//
+//   REPLAY_DATABASE_URL=postgresql://.../scratch npm run replay -- --cp CP001 --from 2025-10-20T08:00:00Z --to 2025-10-20T09:00:00Z
+//
+// The journal is read from DATABASE_URL. The scratch database must be migrated and is written to as if
+// the charger were connected; queued jobs run inline so every message sees the writes of the ones before it.
+
+dotenv.config();
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      cp: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+    },
+  });
+  if (!values.cp) {
+    throw new Error('Usage: npm run replay -- --cp <cpId> [--from <ISO time>] [--to <ISO time>]');
+  }
+
+  const scratchUrl = process.env.REPLAY_DATABASE_URL;
+  if (!scratchUrl) {
+    throw new Error('REPLAY_DATABASE_URL must point to a scratch database');
+  }
+  if (scratchUrl === process.env.DATABASE_URL) {
+    throw new Error('REPLAY_DATABASE_URL must not be the database the journal is read from');
+  }
+
+  const source = new PrismaClient();
+  const scratch = new PrismaClient({ datasources: { db: { url: scratchUrl } } });
+  try {
+    const entries = await new OcppService(source).getJournal(values.cp, {
+      from: values.from ? new Date(values.from) : undefined,
+      to: values.to ? new Date(values.to) : undefined,
+    });
+    console.log(`[${values.cp}] Replaying ${entries.length} journal entries`);
+
+    const ocppService = new OcppService(scratch);
+    // A journal that starts after the BootNotification still needs the charger's record
+    if (!await ocppService.getChargePoint(values.cp)) {
+      await ocppService.provisionChargePoint({ cpId: values.cp });
+    }
+
+    const controller = new OcppController(ocppService, new InlineJobQueue(new JobHandler(ocppService)), 'open');
+    const report = await new JournalReplayer(controller).replay(values.cp, entries);
+
+    for (const mismatch of report.mismatches) {
+      console.log(`${mismatch.timestamp.toISOString()} ${mismatch.action} (${mismatch.uniqueId})`);
+      console.log(`  recorded: ${JSON.stringify(mismatch.recorded ?? null)}`);
+      console.log(`  replayed: ${JSON.stringify(mismatch.replayed)}`);
+    }
+    console.log(`Replayed ${report.replayed} CALLs: ${report.matched} matched, ${report.mismatches.length} differed, ${report.skipped} skipped`);
+    process.exitCode = report.mismatches.length > 0 ? 1 : 0;
+  } finally {
+    await source.$disconnect();
+    await scratch.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error);
+  process.exit(2);
+});
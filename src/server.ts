@@ -1,26 +1,77 @@
 import * as uWS from 'uws';
 import * as dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { hostname } from 'os';
 import { PrismaClient } from '@prisma/client';
-import { OcppService, QueueService, QueueProcessor } from './services';
-import { OcppController } from './controllers';
+import {
+  OcppService,
+  QueueService,
+  QueueProcessor,
+  CallManager,
+  ConnectionRegistry,
+  MessageSequencer,
+  OfflineSweeper,
+  ClusterRouter,
+  MessageJournal,
+  FirmwareRepository,
+  FirmwareCampaignRunner,
+} from './services';
+import { OcppController, Ocpp201Controller, CommandController, AdminController } from './controllers';
+import { HttpApi, operatorOf } from './http';
+import { adminOnly } from './auth';
+import { OcppError, toOcppError, toOcpp201ErrorCode } from './errors';
+import { loadTlsConfig, loadTrustedProxies, checkClientCertificate, isTrustedProxy } from './tls';
+import { MessageType, OcppActionHandler, SYSTEM_ISSUER } from './types';
+import { OcppProtocol, loadSupportedProtocols, negotiateProtocol } from './protocols';
+import { RegistrationStatus, initialRegistrationStatus, isActionAllowed, loadProvisioningMode } from './provisioning';
+import { FAILED_DRIFT_STATUSES } from './configurationTemplates';
 
 // Load environment variables
 dotenv.config();
 
 const PORT = parseInt(process.env.PORT || '8080');
 
-// Message types
-enum MessageType {
-  CALL = 2,
-  CALLRESULT = 3,
-  CALLERROR = 4,
-}
+// Identifies this instance when several run behind a load balancer
+const NODE_ID = process.env.OCPP_NODE_ID || `${hostname()}-${process.pid}`;
+
+// OCPP security profile: 0 = no authentication, 1 = basic auth, 2 = TLS + basic auth, 3 = mutual TLS
+const SECURITY_PROFILE = parseInt(process.env.OCPP_SECURITY_PROFILE || '0');
+
+// CA that issues charger certificates (profile 3)
+const TLS_CA_FILE = process.env.TLS_CA_FILE;
+
+// Header carrying the charger certificate (URL-encoded PEM) when a proxy in front terminates TLS
+const TLS_CLIENT_CERT_HEADER = process.env.TLS_CLIENT_CERT_HEADER?.toLowerCase();
+
+// Addresses of the proxies allowed to set that header
+const TLS_TRUSTED_PROXIES = loadTrustedProxies();
+
+// Subprotocols offered to chargers, most preferred first
+const SUPPORTED_PROTOCOLS = loadSupportedProtocols();
+
+// Seconds without any frame before uWS closes a socket; idle sockets are pinged before that
+const WS_IDLE_TIMEOUT_SECONDS = parseInt(process.env.OCPP_WS_IDLE_TIMEOUT_SECONDS || '120');
+
+// lastSeen is written at most this often per connection
+const LAST_SEEN_WRITE_INTERVAL_MS = 10000;
+
+// How chargers without a ChargePoint record are admitted
+const PROVISIONING_MODE = loadProvisioningMode();
 
 // WebSocket user data interface
 interface WebSocketUserData {
   url: string;
   userAgent: string;
   cpId?: string;
+  // Negotiated subprotocol; unset when the charger offered none we support
+  protocol?: OcppProtocol;
+  // Updated from every BootNotification answer
+  registrationStatus: RegistrationStatus;
+  lastSeenWrittenAt?: number;
+  // Set when the socket opens
+  connectedAt?: Date;
+  // Transactions resumed and availability re-applied when the socket opened
+  reconnection?: Promise<unknown>;
 }
 
 class SimpleOcppServer {
@@ -29,6 +80,19 @@ class SimpleOcppServer {
   private queueService: QueueService;
   private queueProcessor: QueueProcessor;
   private ocppController: OcppController;
+  private ocpp201Controller: Ocpp201Controller;
+  private callManager: CallManager;
+  private connections: ConnectionRegistry<uWS.WebSocket<WebSocketUserData>>;
+  private sequencer: MessageSequencer;
+  private offlineSweeper: OfflineSweeper;
+  private clusterRouter: ClusterRouter;
+  private journal: MessageJournal;
+  private firmware: FirmwareRepository;
+  private firmwareCampaigns: FirmwareCampaignRunner;
+  private commandController: CommandController;
+  private adminController: AdminController;
+  private caPem?: string;
+  private actionHandlers: Record<OcppProtocol, OcppActionHandler>;
 
   constructor() {
     this.prisma = new PrismaClient();
@@ -36,6 +100,21 @@ class SimpleOcppServer {
     this.queueService = new QueueService();
     this.queueProcessor = new QueueProcessor(this.ocppService, this.queueService);
     this.ocppController = new OcppController(this.ocppService, this.queueService);
+    this.ocpp201Controller = new Ocpp201Controller(this.ocppService, this.queueService);
+    this.callManager = new CallManager();
+    this.connections = new ConnectionRegistry();
+    this.sequencer = new MessageSequencer();
+    this.offlineSweeper = new OfflineSweeper(this.ocppService);
+    this.clusterRouter = new ClusterRouter(NODE_ID, this.callManager, this.queueService);
+    this.journal = new MessageJournal(this.queueService);
+    this.firmware = new FirmwareRepository();
+    this.commandController = new CommandController(this.ocppService, this.clusterRouter, this.firmware);
+    this.adminController = new AdminController(this.ocppService, this.firmware);
+    this.firmwareCampaigns = new FirmwareCampaignRunner(this.ocppService, this.clusterRouter, this.commandController);
+    this.actionHandlers = {
+      'ocpp1.6': this.ocppController,
+      'ocpp2.0.1': this.ocpp201Controller,
+    };
   }
 
   async start() {
@@ -43,37 +122,127 @@ class SimpleOcppServer {
       // Connect to database
       await this.prisma.$connect();
 
-      const app = uWS.App({});
+      const app = this.createApp();
+
+      // Commands for chargers connected to other instances, and chargers moving between instances
+      this.clusterRouter.on('disconnect', (cpId: string) => this.dropStaleConnection(cpId));
+      await this.clusterRouter.start(() => this.connections.connectedCpIds());
 
       // Health check
       app.get('/health', (res, req) => {
         res.writeStatus('200 OK').end('Hello World!');
       });
 
+      // HTTP API
+      const api = new HttpApi(app);
+      this.registerApiRoutes(api);
+
+      // Firmware repository; the location of UpdateFirmware points here
+      api.file('/firmware/:fileName', async ({ fileName }) => {
+        const file = await this.firmware.find(fileName);
+        return file && { path: this.firmware.pathOf(file.fileName), size: file.size };
+      });
+
       // WebSocket
       app.ws('/v1/*', {
+        idleTimeout: WS_IDLE_TIMEOUT_SECONDS,
+        sendPingsAutomatically: true,
+
         upgrade: (res, req, context) => {
+          // uWS request data is only valid synchronously, so copy it out first
           const url = req.getUrl();
           const userAgent = req.getHeader('user-agent') || 'unknown';
-          res.upgrade({ url, userAgent }, 
-            req.getHeader('sec-websocket-key'),
-            req.getHeader('sec-websocket-protocol'), 
-            req.getHeader('sec-websocket-extensions'),
-            context
-          );
+          const authorization = req.getHeader('authorization');
+          const clientCertificate = TLS_CLIENT_CERT_HEADER ? req.getHeader(TLS_CLIENT_CERT_HEADER) : '';
+          const remoteAddress = Buffer.from(res.getRemoteAddressAsText()).toString();
+          const secWebSocketKey = req.getHeader('sec-websocket-key');
+          const protocol = negotiateProtocol(req.getHeader('sec-websocket-protocol'), SUPPORTED_PROTOCOLS) ?? undefined;
+          const secWebSocketExtensions = req.getHeader('sec-websocket-extensions');
+          const cpId = this.extractCpId(url);
+
+          let aborted = false;
+          res.onAborted(() => {
+            aborted = true;
+          });
+
+          Promise.all([
+            this.authenticate(cpId, authorization, clientCertificate, remoteAddress),
+            this.loadRegistrationStatus(cpId),
+            this.connectedElsewhere(cpId),
+          ]).then(([allowed, registrationStatus, elsewhere]) => {
+            if (aborted) {
+              return;
+            }
+            res.cork(() => {
+              if (!allowed) {
+                console.warn(`[${cpId}] Rejected connection: invalid credentials`);
+                res.writeStatus('401 Unauthorized');
+                if (SECURITY_PROFILE < 3) {
+                  res.writeHeader('WWW-Authenticate', 'Basic realm="OCPP"');
+                }
+                res.end();
+                return;
+              }
+              if (!registrationStatus) {
+                console.warn(`[${cpId}] Rejected connection: unknown charge point`);
+                res.writeStatus('404 Not Found').end();
+                return;
+              }
+              if (elsewhere && this.connections.policy === 'reject-new') {
+                console.warn(`[${cpId}] Rejected connection: charge point is connected to another node`);
+                res.writeStatus('409 Conflict').end();
+                return;
+              }
+              // OCPP-J: without an agreeable subprotocol the handshake completes without one and is then closed
+              res.upgrade({ url, userAgent, protocol, registrationStatus },
+                secWebSocketKey,
+                protocol ?? '',
+                secWebSocketExtensions,
+                context
+              );
+            });
+          });
         },
 
         open: async (ws: uWS.WebSocket<WebSocketUserData>) => {
           const userData = ws.getUserData();
           const cpId = this.extractCpId(userData.url);
+          if (!userData.protocol) {
+            console.warn(`[${cpId}] Rejected connection: no supported subprotocol (expected ${SUPPORTED_PROTOCOLS.join(', ')})`);
+            ws.end(1002, 'No supported subprotocol');
+            return;
+          }
+
+          const outcome = this.connections.register(cpId, ws);
+          if (outcome === 'rejected') {
+            console.warn(`[${cpId}] Rejected connection: charge point is already connected`);
+            ws.end(1008, 'Already connected');
+            return;
+          }
+          if (outcome === 'replaced') {
+            // Calls sent on the old socket can no longer be answered
+            console.warn(`[${cpId}] Closed the previous connection in favour of the new one`);
+            this.callManager.detach(cpId);
+          }
+
           userData.cpId = cpId;
+          userData.connectedAt = new Date();
+          // Server-initiated CALLs go through the journal like every other frame
+          this.callManager.attach(cpId, { send: (frame: string) => this.send(ws, frame) });
+          this.clusterRouter.claim(cpId).catch(error => {
+            console.error(`[${cpId}] Could not record connection ownership:`, error);
+          });
           
           //update status to online
-          this.ocppService.setChargePointStatus(cpId, 'Online').catch(console.error);
+          this.markSeen(ws, cpId);
           
-          // Check for active transactions and resume them
+          // Resume active transactions and re-apply stored availability
           try {
-            const activeTransactions = await this.ocppController.handleReconnection(cpId);
+            // Availability is an OCPP 1.6 ChangeAvailability; the charger's socket is on this node
+            const caller = userData.protocol === 'ocpp1.6' ? this.callManager : undefined;
+            const reconnection = this.ocppController.handleReconnection(cpId, caller);
+            userData.reconnection = reconnection;
+            const activeTransactions = await reconnection;
             if (activeTransactions.length > 0) {
               console.log(`[${cpId}] Reconnected with ${activeTransactions.length} active transaction(s)`);
             }
@@ -81,7 +250,7 @@ class SimpleOcppServer {
             console.error(`[${cpId}] Error during reconnection handling:`, error);
           }
           
-          console.log(`Open ${cpId}`);
+          console.log(`Open ${cpId} (${userData.protocol})`);
         },
 
         message: async (ws: uWS.WebSocket<WebSocketUserData>, message: ArrayBuffer) => {
@@ -89,15 +258,36 @@ class SimpleOcppServer {
         },
 
         close: (ws: uWS.WebSocket<WebSocketUserData>) => {
-          const cpId = ws.getUserData().cpId || 'unknown';
-          //update last seen on close
-          this.ocppService.updateLastSeen(cpId).catch(console.error);
-          //update status to offline
-          this.ocppService.setChargePointStatus(cpId, 'Offline').catch(console.error);
-          console.log(`Closed ${cpId}`);
+          const cpId = ws.getUserData().cpId;
+          // Connections refused in open never became a charger session
+          if (!cpId) {
+            return;
+          }
+          // A replaced connection closing late must not mark the reconnected charger Offline
+          if (!this.connections.unregister(cpId, ws)) {
+            console.log(`Closed superseded connection of ${cpId}`);
+            return;
+          }
+          this.callManager.detach(cpId);
+          this.journal.forget(cpId);
+          this.handleClose(cpId).catch(console.error);
         }
       });
 
+      // Chargers that vanished without a close
+      this.offlineSweeper.on('offline', ({ cpId, silentForMs, heartbeatIntervalSeconds }) => {
+        console.warn(`[${cpId}] Marked Offline after ${Math.round(silentForMs / 1000)}s without messages (heartbeat interval ${heartbeatIntervalSeconds}s)`);
+      });
+      this.offlineSweeper.start();
+
+      this.firmwareCampaigns.on('paused', ({ name, reason }) => {
+        console.warn(`Firmware campaign ${name} paused: ${reason}`);
+      });
+      this.firmwareCampaigns.on('completed', ({ name }) => {
+        console.log(`Firmware campaign ${name} completed`);
+      });
+      this.firmwareCampaigns.start();
+
       // Start server
       app.listen(PORT, (token) => {
         if (token) {
@@ -117,6 +307,185 @@ class SimpleOcppServer {
     }
   }
 
+  private registerApiRoutes(api: HttpApi) {
+    api
+      .post('/api/charge-points/:cpId/remote-start', request =>
+        this.commandController.remoteStartTransaction(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/remote-stop', request =>
+        this.commandController.remoteStopTransaction(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/reset', request =>
+        this.commandController.reset(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/unlock-connector', request =>
+        this.commandController.unlockConnector(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/availability', request =>
+        this.commandController.changeAvailability(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/update-firmware', request =>
+        this.commandController.updateFirmware(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/firmware-campaigns', request =>
+        this.adminController.createFirmwareCampaign(request.body, operatorOf(request)))
+      .post('/api/firmware-campaigns/:campaignId/pause', request =>
+        this.adminController.pauseFirmwareCampaign(request.params.campaignId, operatorOf(request)))
+      .post('/api/firmware-campaigns/:campaignId/resume', ({ params }) =>
+        this.adminController.resumeFirmwareCampaign(params.campaignId))
+      .get('/api/firmware-campaigns', async () =>
+        this.adminController.listFirmwareCampaigns())
+      .get('/api/firmware-campaigns/:campaignId', ({ params }) =>
+        this.adminController.getFirmwareCampaign(params.campaignId))
+      .get('/api/firmware-campaigns/:campaignId/updates', ({ params, query }) =>
+        this.adminController.listFirmwareUpdates(params.campaignId, query))
+      .get('/api/firmware', async () =>
+        this.adminController.listFirmwareFiles())
+      .post('/api/charge-points/:cpId/change-authorization-key', adminOnly(request =>
+        this.commandController.changeAuthorizationKey(request.params.cpId, request.body, operatorOf(request))))
+      .post('/api/charge-points/:cpId/configuration', request =>
+        this.commandController.changeConfiguration(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/configuration/refresh', request =>
+        this.commandController.refreshConfiguration(request.params.cpId, request.body, operatorOf(request)))
+      .post('/api/charge-points/:cpId/configuration/apply-template', request =>
+        this.commandController.applyConfigurationTemplate(request.params.cpId, operatorOf(request)))
+      .post('/api/configuration-templates', ({ body }) =>
+        this.adminController.createConfigurationTemplate(body))
+      .post('/api/configuration-templates/:templateId', ({ params, body }) =>
+        this.adminController.updateConfigurationTemplate(params.templateId, body))
+      .del('/api/configuration-templates/:templateId', ({ params }) =>
+        this.adminController.deleteConfigurationTemplate(params.templateId))
+      .get('/api/configuration-templates', async () =>
+        this.adminController.listConfigurationTemplates())
+      .get('/api/configuration-drift', ({ query }) =>
+        this.adminController.listConfigurationDrift(query))
+      .post('/api/charge-points/:cpId/authorization-key', adminOnly(({ params, body }) =>
+        this.adminController.setAuthorizationKey(params.cpId, body)))
+      .post('/api/charge-points', adminOnly(({ body }) =>
+        this.adminController.provisionChargePoint(body)))
+      .post('/api/charge-points/:cpId/approve', adminOnly(({ params, body }) =>
+        this.adminController.approveChargePoint(params.cpId, body)))
+      .post('/api/charge-points/:cpId/reject', adminOnly(({ params }) =>
+        this.adminController.rejectChargePoint(params.cpId)))
+      .post('/api/charge-points/:cpId/heartbeat-interval', adminOnly(({ params, body }) =>
+        this.adminController.setHeartbeatInterval(params.cpId, body)))
+      .get('/api/charge-points', ({ query }) =>
+        this.adminController.listChargePoints(query))
+      .get('/api/charge-points/awaiting-approval', adminOnly(({ query }) =>
+        this.adminController.listAwaitingApproval(query)))
+      .get('/api/charge-points/:cpId', ({ params }) =>
+        this.adminController.getChargePoint(params.cpId))
+      .get('/api/charge-points/:cpId/connectors', ({ params }) =>
+        this.adminController.listConnectors(params.cpId))
+      .get('/api/charge-points/:cpId/status-notifications', ({ params, query }) =>
+        this.adminController.listStatusNotifications(params.cpId, query))
+      .get('/api/charge-points/:cpId/configuration', ({ params }) =>
+        this.adminController.getConfiguration(params.cpId))
+      .get('/api/charge-points/:cpId/configuration/drift', ({ params }) =>
+        this.adminController.getConfigurationDrift(params.cpId))
+      .get('/api/charge-points/:cpId/configuration/:key/history', ({ params, query }) =>
+        this.adminController.listConfigurationChanges(params.cpId, params.key, query))
+      .get('/api/charge-points/:cpId/availability', ({ params }) =>
+        this.adminController.getConnectorAvailability(params.cpId))
+      .get('/api/charge-points/:cpId/commands', ({ params, query }) =>
+        this.adminController.listRemoteCommands(params.cpId, query))
+      .get('/api/charge-points/:cpId/messages', ({ params, query }) =>
+        this.adminController.listMessages(params.cpId, query))
+      .get('/api/transactions', ({ query }) =>
+        this.adminController.listTransactions(query))
+      .get('/api/transactions/:transactionId', ({ params }) =>
+        this.adminController.getTransaction(params.transactionId))
+      .get('/api/metrics/message-backlog', async () =>
+        this.sequencer.getStats());
+  }
+
+  // Plain App for profiles 0/1, SSLApp for 2/3; profile 3 makes uWS require a CA-issued client certificate
+  private createApp(): uWS.TemplatedApp {
+    const tls = loadTlsConfig();
+
+    if (SECURITY_PROFILE === 3) {
+      if (!TLS_CA_FILE) {
+        throw new Error('Security profile 3 requires TLS_CA_FILE');
+      }
+      // uWS checks the chain during the handshake but does not hand the certificate to the upgrade handler,
+      // so the CN can only be matched against the cpId when a proxy forwards the certificate
+      if (!TLS_CLIENT_CERT_HEADER) {
+        throw new Error('Security profile 3 requires TLS_CLIENT_CERT_HEADER');
+      }
+      if (TLS_TRUSTED_PROXIES.length === 0) {
+        throw new Error('TLS_CLIENT_CERT_HEADER requires TLS_TRUSTED_PROXIES');
+      }
+      this.caPem = readFileSync(TLS_CA_FILE, 'utf8');
+    }
+
+    if (!tls) {
+      if (SECURITY_PROFILE === 2) {
+        throw new Error('Security profile 2 requires TLS_CERT_FILE and TLS_KEY_FILE');
+      }
+      return uWS.App({});
+    }
+
+    console.log(`TLS enabled (security profile ${SECURITY_PROFILE})`);
+    return uWS.SSLApp({
+      cert_file_name: tls.certFile,
+      key_file_name: tls.keyFile,
+      passphrase: tls.passphrase,
+      ca_file_name: SECURITY_PROFILE === 3 ? TLS_CA_FILE : undefined,
+    });
+  }
+
+  private async authenticate(cpId: string, authorization: string, clientCertificate: string, remoteAddress: string): Promise<boolean> {
+    if (SECURITY_PROFILE === 3) {
+      return this.verifyClientCertificate(cpId, clientCertificate, remoteAddress);
+    }
+    if (SECURITY_PROFILE < 1) {
+      return true;
+    }
+    try {
+      return await this.ocppService.authenticateChargePoint(cpId, authorization);
+    } catch (error) {
+      console.error(`[${cpId}] Error during authentication:`, error);
+      return false;
+    }
+  }
+
+  private async connectedElsewhere(cpId: string): Promise<boolean> {
+    try {
+      const owner = await this.clusterRouter.getOwner(cpId);
+      return owner !== null && owner !== NODE_ID;
+    } catch (error) {
+      console.error(`[${cpId}] Error looking up connection owner:`, error);
+      return false;
+    }
+  }
+
+  // Null when the charger is unknown and unknown chargers are refused
+  private async loadRegistrationStatus(cpId: string): Promise<RegistrationStatus | null> {
+    try {
+      const chargePoint = await this.ocppService.getChargePoint(cpId);
+      if (chargePoint) {
+        return chargePoint.registrationStatus as RegistrationStatus;
+      }
+    } catch (error) {
+      // The BootNotification settles the status once the database is reachable again
+      console.error(`[${cpId}] Error loading registration status:`, error);
+    }
+    return PROVISIONING_MODE === 'closed' ? null : initialRegistrationStatus(PROVISIONING_MODE);
+  }
+
+  private verifyClientCertificate(cpId: string, clientCertificate: string, remoteAddress: string): boolean {
+    // Only the proxy proved that the peer holds the certificate's key
+    if (!isTrustedProxy(remoteAddress, TLS_TRUSTED_PROXIES)) {
+      console.warn(`[${cpId}] Refused a client certificate header from ${remoteAddress}, which is not a trusted proxy`);
+      return false;
+    }
+    if (!clientCertificate) {
+      console.warn(`[${cpId}] No client certificate presented`);
+      return false;
+    }
+
+    const reason = checkClientCertificate(cpId, decodeURIComponent(clientCertificate), this.caPem!);
+    if (reason) {
+      console.warn(`[${cpId}] ${reason}`);
+      return false;
+    }
+    return true;
+  }
+
   private extractCpId(url: string): string {
     const parts = url.split('/').filter(Boolean);
     return parts[2] || 'unknown';
@@ -124,61 +493,179 @@ class SimpleOcppServer {
 
   private async handleMessage(ws: uWS.WebSocket<WebSocketUserData>, raw: string) {
     const cpId = ws.getUserData().cpId || 'unknown';
+    let uniqueId = 'unknown';
+    this.journal.record(cpId, 'in', raw);
+    this.markSeen(ws, cpId);
 
     try {
-      const message = JSON.parse(raw);
-      if (!Array.isArray(message) || message.length < 3) {
-        return this.sendError(ws, 'unknown', 'InvalidMessage', 'Invalid OCPP message format');
+      let message: any;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        throw new OcppError('FormationViolation', 'Message is not valid JSON');
       }
 
-      const [messageType, uniqueId, action, payload] = message;
+      // Echo the charger's uniqueId whenever it can be read from the frame
+      if (Array.isArray(message) && typeof message[1] === 'string') {
+        uniqueId = message[1];
+      }
+      if (!Array.isArray(message) || message.length < 3 || typeof message[1] !== 'string') {
+        throw new OcppError('ProtocolError', 'Invalid OCPP message format');
+      }
+
+      const [messageType] = message;
 
       if (messageType === MessageType.CALL) {
-        console.log(`[${cpId}] ${action}`);
-        const response = await this.handleAction(cpId, action, payload || {});
-        this.sendCallResult(ws, uniqueId, response);
+        // [2, uniqueId, action, payload]
+        const [, , action, payload] = message;
+        // One CALL at a time per charger so e.g. StopTransaction never overtakes its StartTransaction
+        await this.sequencer.run(cpId, () => this.handleCall(ws, cpId, uniqueId, action, payload || {}));
+      } else if (messageType === MessageType.CALLRESULT) {
+        // [3, uniqueId, payload]
+        this.callManager.handleCallResult(cpId, uniqueId, message[2]);
+      } else if (messageType === MessageType.CALLERROR) {
+        // [4, uniqueId, errorCode, errorDescription, errorDetails]
+        this.callManager.handleCallError(cpId, uniqueId, message[2], message[3] || '', message[4] || {});
+      } else {
+        throw new OcppError('NotSupported', `Unsupported message type: ${messageType}`);
       }
 
     } catch (error) {
-      console.error(`[${cpId}] Error:`, error);
-      this.sendError(ws, 'unknown', 'InternalError', error instanceof Error ? error.message : 'Unknown error');
+      const ocppError = toOcppError(error);
+      console.error(`[${cpId}] Error (${ocppError.errorCode}):`, error);
+      this.sendError(ws, uniqueId, ocppError);
+    }
+  }
+
+  // A retransmitted CALL (same uniqueId, action and payload) is answered from the cache instead of being processed again
+  private async handleCall(ws: uWS.WebSocket<WebSocketUserData>, cpId: string, uniqueId: string, action: string, payload: any) {
+    const userData = ws.getUserData();
+    if (!isActionAllowed(userData.registrationStatus, action)) {
+      throw new OcppError('SecurityError', `${action} is not allowed while the charge point is ${userData.registrationStatus}`);
     }
+
+    const cached = await this.queueService.getCachedResponse(cpId, uniqueId, action, payload).catch(error => {
+      console.warn(`[${cpId}] Response cache unavailable:`, error);
+      return null;
+    });
+    if (cached) {
+      console.log(`[${cpId}] ${action} (${uniqueId}) is a retransmit, replaying the previous response`);
+      this.sendCallResult(ws, uniqueId, cached.payload);
+      return;
+    }
+
+    console.log(`[${cpId}] ${action}`);
+    const handler = this.actionHandlers[userData.protocol!];
+    const response = await handler.handleAction(cpId, action, payload, userData.connectedAt && { connectedAt: userData.connectedAt });
+    if (action === 'BootNotification') {
+      userData.registrationStatus = response.status;
+    }
+
+    await this.queueService.cacheResponse(cpId, uniqueId, action, payload, response).catch(error => {
+      console.warn(`[${cpId}] Could not cache the ${action} response:`, error);
+    });
+    this.sendCallResult(ws, uniqueId, response);
+
+    // The charger only takes CALLs once this connection's BootNotification is accepted; not awaited so its next
+    // CALLs are not held up
+    if (action === 'BootNotification' && response.status === 'Accepted' && userData.protocol === 'ocpp1.6') {
+      this.syncAfterBoot(cpId, userData.reconnection);
+    }
+  }
+
+  // CallManager allows one outstanding CALL per charger, so availability and configuration go one after the other,
+  // and only once the availability re-applied on reconnection is through. Never rejects.
+  private async syncAfterBoot(cpId: string, reconnection?: Promise<unknown>) {
+    await reconnection?.catch(() => undefined);
+    // A rebooted charger may have dropped what it was sent before its BootNotification
+    await this.ocppController.reapplyAvailability(cpId, this.callManager).catch(error => {
+      console.warn(`[${cpId}] Could not re-apply connector availability after boot:`, error);
+    });
+    await this.syncConfiguration(cpId).catch(error => {
+      console.warn(`[${cpId}] Could not sync the configuration after boot:`, error);
+    });
+  }
+
+  // Mirror the charger's configuration, then bring drifted keys back to its template
+  private async syncConfiguration(cpId: string) {
+    const { configuration } = await this.commandController.refreshConfiguration(cpId, {}, SYSTEM_ISSUER);
+    console.log(`[${cpId}] Stored ${configuration.length} configuration keys`);
+
+    const { template, drift } = await this.commandController.applyConfigurationTemplate(cpId, SYSTEM_ISSUER);
+    if (template && drift.length > 0) {
+      const failed = drift.filter(entry => FAILED_DRIFT_STATUSES.includes(entry.status));
+      console.warn(`[${cpId}] ${drift.length} key(s) drifted from template ${template.name}, ${failed.length} could not be changed`);
+    }
+  }
+
+  private async handleClose(cpId: string) {
+    // The charger may already have reconnected to another node, which then owns its status
+    const owned = await this.clusterRouter.release(cpId).catch(error => {
+      console.error(`[${cpId}] Could not release connection ownership:`, error);
+      return true;
+    });
+    if (!owned) {
+      console.log(`Closed ${cpId}, the charger is connected to another node`);
+      return;
+    }
+
+    //update last seen on close
+    await this.ocppService.updateLastSeen(cpId).catch(console.error);
+    //update status to offline
+    await this.ocppService.setChargePointStatus(cpId, 'Offline').catch(console.error);
+    console.log(`Closed ${cpId}`);
+  }
+
+  // Another node took over the charger; its close handler then sees the socket as superseded
+  private dropStaleConnection(cpId: string) {
+    const ws = this.connections.get(cpId);
+    if (!ws) {
+      return;
+    }
+    this.connections.unregister(cpId, ws);
+    this.callManager.detach(cpId);
+    this.journal.forget(cpId);
+    console.warn(`[${cpId}] Closing stale connection, the charger reconnected to another node`);
+    ws.end(1000, 'Replaced by a connection on another node');
   }
 
-  private async handleAction(cpId: string, action: string, payload: any): Promise<any> {
-    switch (action) {
-      case 'BootNotification':
-        return this.ocppController.handleBootNotification(cpId, payload);
-      case 'Heartbeat':
-        return this.ocppController.handleHeartbeat(cpId, payload);
-      case 'Authorize':
-        return this.ocppController.handleAuthorize(cpId, payload);
-      case 'StartTransaction':
-        return this.ocppController.handleStartTransaction(cpId, payload);
-      case 'StopTransaction':
-        return this.ocppController.handleStopTransaction(cpId, payload);
-      case 'StatusNotification':
-        return this.ocppController.handleStatusNotification(cpId, payload);
-      case 'MeterValues':
-        return this.ocppController.handleMeterValues(cpId, payload);
-      default:
-        throw new Error(`Unsupported action: ${action}`);
+  private markSeen(ws: uWS.WebSocket<WebSocketUserData>, cpId: string) {
+    const userData = ws.getUserData();
+    const now = Date.now();
+    if (userData.lastSeenWrittenAt !== undefined && now - userData.lastSeenWrittenAt < LAST_SEEN_WRITE_INTERVAL_MS) {
+      return;
     }
+    userData.lastSeenWrittenAt = now;
+    this.ocppService.markChargePointSeen(cpId, new Date(now)).catch(console.error);
   }
 
   private sendCallResult(ws: uWS.WebSocket<WebSocketUserData>, uniqueId: string, payload: any) {
     const response = [MessageType.CALLRESULT, uniqueId, payload];
-    ws.send(JSON.stringify(response));
+    this.send(ws, JSON.stringify(response));
+  }
+
+  private sendError(ws: uWS.WebSocket<WebSocketUserData>, uniqueId: string, error: OcppError) {
+    const errorCode = ws.getUserData().protocol === 'ocpp2.0.1' ? toOcpp201ErrorCode(error.errorCode) : error.errorCode;
+    const frame = [MessageType.CALLERROR, uniqueId, errorCode, error.message, error.errorDetails];
+    this.send(ws, JSON.stringify(frame));
   }
 
-  private sendError(ws: uWS.WebSocket<WebSocketUserData>, uniqueId: string, errorCode: string, description: string) {
-    const error = [MessageType.CALLERROR, uniqueId, errorCode, description, {}];
-    ws.send(JSON.stringify(error));
+  private send(ws: uWS.WebSocket<WebSocketUserData>, frame: string) {
+    this.journal.record(ws.getUserData().cpId || 'unknown', 'out', frame);
+    ws.send(frame);
   }
 
   private async shutdown() {
     console.log('Shutting down...');
-    await this.ocppService.setChargePointStatus('unknown', 'Offline');
+    this.offlineSweeper.stop();
+    this.firmwareCampaigns.stop();
+    this.clusterRouter.stop();
+
+    // Only this node's chargers, and not those that have already moved to another node
+    const cpIds = this.connections.connectedCpIds();
+    const owned = await Promise.all(cpIds.map(cpId => this.clusterRouter.release(cpId).catch(() => true)));
+    await this.ocppService.setChargePointsStatus(cpIds.filter((_, index) => owned[index]), 'Offline');
+
     await this.queueService.close();
     await this.prisma.$disconnect();
     process.exit(0);
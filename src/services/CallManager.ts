@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import { MessageType } from '../types';
+
+// Minimal socket contract so the manager works with uWS sockets and test doubles alike
+export interface OcppSocket {
+  send(message: string): unknown;
+}
+
+interface PendingCall {
+  uniqueId: string;
+  action: string;
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Raised when the charge point answers a CALL with a CALLERROR
+export class CallErrorResponse extends Error {
+  constructor(
+    public readonly errorCode: string,
+    public readonly errorDescription: string,
+    public readonly errorDetails: Record<string, any> = {}
+  ) {
+    super(`${errorCode}: ${errorDescription}`);
+    this.name = 'CallErrorResponse';
+  }
+}
+
+export class CallTimeoutError extends Error {
+  constructor(public readonly cpId: string, public readonly action: string, public readonly timeoutMs: number) {
+    super(`[${cpId}] ${action} timed out after ${timeoutMs}ms`);
+    this.name = 'CallTimeoutError';
+  }
+}
+
+export class CallManager {
+  private sockets = new Map<string, OcppSocket>();
+  // OCPP-J allows only one outstanding CALL per direction, so one slot per charge point
+  private pending = new Map<string, PendingCall>();
+
+  constructor(
+    private timeoutMs: number = parseInt(process.env.OCPP_CALL_TIMEOUT_MS || '30000')
+  ) {}
+
+  attach(cpId: string, socket: OcppSocket) {
+    this.sockets.set(cpId, socket);
+  }
+
+  // Forget the socket and fail any call still waiting on it
+  detach(cpId: string) {
+    this.sockets.delete(cpId);
+    this.settle(cpId)?.reject(new Error(`[${cpId}] Connection closed`));
+  }
+
+  isConnected(cpId: string): boolean {
+    return this.sockets.has(cpId);
+  }
+
+  hasPendingCall(cpId: string): boolean {
+    return this.pending.has(cpId);
+  }
+
+  // Send a CALL to the charge point and resolve with its CALLRESULT payload
+  async call<T = any>(cpId: string, action: string, payload: any): Promise<T> {
+    const socket = this.sockets.get(cpId);
+    if (!socket) {
+      throw new Error(`Charge point ${cpId} is not connected`);
+    }
+
+    if (this.pending.has(cpId)) {
+      throw new Error(`Charge point ${cpId} already has an outstanding ${this.pending.get(cpId)!.action} call`);
+    }
+
+    const uniqueId = randomUUID();
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(cpId, uniqueId)?.reject(new CallTimeoutError(cpId, action, this.timeoutMs));
+      }, this.timeoutMs);
+
+      this.pending.set(cpId, { uniqueId, action, resolve, reject, timer });
+
+      try {
+        socket.send(JSON.stringify([MessageType.CALL, uniqueId, action, payload]));
+        console.log(`[${cpId}] -> ${action} (${uniqueId})`);
+      } catch (error) {
+        this.settle(cpId, uniqueId)?.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  // Returns false when the CALLRESULT does not match the outstanding call
+  handleCallResult(cpId: string, uniqueId: string, payload: any): boolean {
+    const call = this.settle(cpId, uniqueId);
+    if (!call) {
+      console.warn(`[${cpId}] Ignoring CALLRESULT for unknown uniqueId ${uniqueId}`);
+      return false;
+    }
+
+    call.resolve(payload);
+    return true;
+  }
+
+  handleCallError(
+    cpId: string,
+    uniqueId: string,
+    errorCode: string,
+    errorDescription: string,
+    errorDetails?: Record<string, any>
+  ): boolean {
+    const call = this.settle(cpId, uniqueId);
+    if (!call) {
+      console.warn(`[${cpId}] Ignoring CALLERROR for unknown uniqueId ${uniqueId}`);
+      return false;
+    }
+
+    call.reject(new CallErrorResponse(errorCode, errorDescription, errorDetails));
+    return true;
+  }
+
+  private settle(cpId: string, uniqueId?: string): PendingCall | undefined {
+    const call = this.pending.get(cpId);
+    if (!call || (uniqueId !== undefined && call.uniqueId !== uniqueId)) {
+      return undefined;
+    }
+
+    clearTimeout(call.timer);
+    this.pending.delete(cpId);
+    return call;
+  }
+}
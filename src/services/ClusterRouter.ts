@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { CallManager, CallErrorResponse, CallTimeoutError } from './CallManager';
+import { QueueService } from './QueueService';
+import { HttpError } from '../errors';
+
+// Requests one node sends to another over Redis pub/sub
+type NodeMessage =
+  | { type: 'call'; requestId: string; replyTo: string; cpId: string; action: string; payload: any }
+  // The charger reconnected to another node; the old socket is stale
+  | { type: 'disconnect'; cpId: string };
+
+type RemoteError =
+  | { type: 'CallErrorResponse'; errorCode: string; errorDescription: string; errorDetails: Record<string, any> }
+  | { type: 'CallTimeoutError'; action: string; timeoutMs: number }
+  | { type: 'HttpError'; status: number; message: string }
+  | { type: 'Error'; message: string };
+
+interface NodeReply {
+  requestId: string;
+  result?: any;
+  error?: RemoteError;
+}
+
+interface ForwardedCall {
+  cpId: string;
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface ClusterRouterOptions {
+  // Ownership keys expire unless refreshed, so a crashed node's chargers are released
+  ownershipTtlSeconds: number;
+  // How long to wait for the owning node, on top of its own CALL timeout
+  replyTimeoutMs: number;
+}
+
+// Tracks which node holds each charger's WebSocket and sends CALLs for chargers held elsewhere to that node.
+// Emits 'disconnect' with the cpId when the charger has reconnected to another node.
+export class ClusterRouter extends EventEmitter {
+  private forwarded = new Map<string, ForwardedCall>();
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    public readonly nodeId: string,
+    private callManager: CallManager,
+    private queueService: QueueService,
+    private options: ClusterRouterOptions = {
+      ownershipTtlSeconds: parseInt(process.env.OCPP_OWNERSHIP_TTL_SECONDS || '90'),
+      replyTimeoutMs: parseInt(process.env.OCPP_CALL_TIMEOUT_MS || '30000') + 5000,
+    }
+  ) {
+    super();
+  }
+
+  // Listen for requests from other nodes and keep the ownership of local connections alive
+  async start(connectedCpIds: () => string[]) {
+    await this.queueService.subscribe(this.channel(this.nodeId), message => this.handleNodeMessage(message));
+    await this.queueService.subscribe(this.replyChannel(this.nodeId), reply => this.handleReply(reply));
+
+    this.refreshTimer = setInterval(() => {
+      this.queueService.refreshConnections(connectedCpIds(), this.nodeId, this.options.ownershipTtlSeconds)
+        .catch(error => console.error('Could not refresh connection ownership:', error));
+    }, this.options.ownershipTtlSeconds * 1000 / 3);
+    this.refreshTimer.unref();
+  }
+
+  stop() {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  getOwner(cpId: string): Promise<string | null> {
+    return this.queueService.getConnectionOwner(cpId);
+  }
+
+  // Record this node as the owner; a previous owner is asked to drop its stale socket
+  async claim(cpId: string) {
+    const previous = await this.queueService.claimConnection(cpId, this.nodeId, this.options.ownershipTtlSeconds);
+    if (previous && previous !== this.nodeId) {
+      console.log(`[${cpId}] Took over the connection from node ${previous}`);
+      await this.queueService.publish(this.channel(previous), { type: 'disconnect', cpId });
+    }
+  }
+
+  // False when the charger has meanwhile connected to another node
+  release(cpId: string): Promise<boolean> {
+    return this.queueService.releaseConnection(cpId, this.nodeId);
+  }
+
+  async isConnected(cpId: string): Promise<boolean> {
+    if (this.callManager.isConnected(cpId)) {
+      return true;
+    }
+    const owner = await this.getOwner(cpId);
+    return owner !== null && owner !== this.nodeId;
+  }
+
+  // Outstanding calls on other nodes are only detected when the CALL reaches them
+  hasPendingCall(cpId: string): boolean {
+    return this.callManager.hasPendingCall(cpId);
+  }
+
+  async call<T = any>(cpId: string, action: string, payload: any): Promise<T> {
+    if (this.callManager.isConnected(cpId)) {
+      return this.callManager.call<T>(cpId, action, payload);
+    }
+
+    const owner = await this.getOwner(cpId);
+    if (!owner || owner === this.nodeId) {
+      throw new Error(`Charge point ${cpId} is not connected`);
+    }
+    return this.forward<T>(owner, cpId, action, payload);
+  }
+
+  private forward<T>(owner: string, cpId: string, action: string, payload: any): Promise<T> {
+    const requestId = randomUUID();
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.forwarded.delete(requestId);
+        reject(new CallTimeoutError(cpId, action, this.options.replyTimeoutMs));
+      }, this.options.replyTimeoutMs);
+      this.forwarded.set(requestId, { cpId, resolve, reject, timer });
+
+      const message: NodeMessage = { type: 'call', requestId, replyTo: this.nodeId, cpId, action, payload };
+      console.log(`[${cpId}] -> ${action} via node ${owner}`);
+      this.queueService.publish(this.channel(owner), message).catch(error => {
+        clearTimeout(timer);
+        this.forwarded.delete(requestId);
+        reject(error);
+      });
+    });
+  }
+
+  private async handleNodeMessage(message: NodeMessage) {
+    if (message.type === 'disconnect') {
+      this.emit('disconnect', message.cpId);
+      return;
+    }
+
+    const reply: NodeReply = { requestId: message.requestId };
+    try {
+      if (!this.callManager.isConnected(message.cpId)) {
+        throw new HttpError(404, `Charge point ${message.cpId} is not connected`);
+      }
+      if (this.callManager.hasPendingCall(message.cpId)) {
+        throw new HttpError(409, `Charge point ${message.cpId} is busy with another command`);
+      }
+      reply.result = await this.callManager.call(message.cpId, message.action, message.payload);
+    } catch (error) {
+      reply.error = toRemoteError(error);
+    }
+
+    await this.queueService.publish(this.replyChannel(message.replyTo), reply)
+      .catch(error => console.error(`[${message.cpId}] Could not reply to node ${message.replyTo}:`, error));
+  }
+
+  private handleReply(reply: NodeReply) {
+    const call = this.forwarded.get(reply.requestId);
+    if (!call) {
+      return;
+    }
+    clearTimeout(call.timer);
+    this.forwarded.delete(reply.requestId);
+
+    if (reply.error) {
+      call.reject(fromRemoteError(reply.error, call.cpId));
+    } else {
+      call.resolve(reply.result);
+    }
+  }
+
+  private channel(nodeId: string) {
+    return `ocpp:node:${nodeId}`;
+  }
+
+  private replyChannel(nodeId: string) {
+    return `ocpp:node:${nodeId}:replies`;
+  }
+}
+
+// Errors cross nodes as plain data and are rebuilt so the HTTP API maps them as if the call were local
+function toRemoteError(error: unknown): RemoteError {
+  if (error instanceof CallErrorResponse) {
+    return {
+      type: 'CallErrorResponse',
+      errorCode: error.errorCode,
+      errorDescription: error.errorDescription,
+      errorDetails: error.errorDetails,
+    };
+  }
+  if (error instanceof CallTimeoutError) {
+    return { type: 'CallTimeoutError', action: error.action, timeoutMs: error.timeoutMs };
+  }
+  if (error instanceof HttpError) {
+    return { type: 'HttpError', status: error.status, message: error.message };
+  }
+  return { type: 'Error', message: error instanceof Error ? error.message : String(error) };
+}
+
+function fromRemoteError(error: RemoteError, cpId: string): Error {
+  switch (error.type) {
+    case 'CallErrorResponse':
+      return new CallErrorResponse(error.errorCode, error.errorDescription, error.errorDetails);
+    case 'CallTimeoutError':
+      return new CallTimeoutError(cpId, error.action, error.timeoutMs);
+    case 'HttpError':
+      return new HttpError(error.status, error.message);
+    default:
+      return new Error(error.message);
+  }
+}
@@ -0,0 +1,73 @@
+// What to do when a charge point connects while an earlier socket for the same cpId is still open
+export type DuplicateConnectionPolicy = 'kick-old' | 'reject-new';
+
+export const DUPLICATE_CONNECTION_POLICIES: DuplicateConnectionPolicy[] = ['kick-old', 'reject-new'];
+
+export function loadDuplicateConnectionPolicy(
+  value: string = process.env.OCPP_DUPLICATE_CONNECTION_POLICY || 'kick-old'
+): DuplicateConnectionPolicy {
+  if (!DUPLICATE_CONNECTION_POLICIES.includes(value as DuplicateConnectionPolicy)) {
+    throw new Error(`Unknown duplicate connection policy: ${value} (expected ${DUPLICATE_CONNECTION_POLICIES.join(' or ')})`);
+  }
+  return value as DuplicateConnectionPolicy;
+}
+
+// Minimal socket contract so the registry works with uWS sockets and test doubles alike
+export interface ClosableSocket {
+  end(code?: number, shortMessage?: string): unknown;
+}
+
+export type RegisterOutcome = 'registered' | 'replaced' | 'rejected';
+
+// Live socket per charge point. A charger that reconnects before its old socket is closed briefly has two;
+// only the current one may change the charger's state when it closes.
+export class ConnectionRegistry<S extends ClosableSocket = ClosableSocket> {
+  private sockets = new Map<string, S>();
+
+  constructor(
+    public readonly policy: DuplicateConnectionPolicy = loadDuplicateConnectionPolicy()
+  ) {}
+
+  register(cpId: string, socket: S): RegisterOutcome {
+    const previous = this.sockets.get(cpId);
+    if (previous === undefined || previous === socket) {
+      this.sockets.set(cpId, socket);
+      return 'registered';
+    }
+
+    if (this.policy === 'reject-new') {
+      return 'rejected';
+    }
+
+    // Replace first so the old socket's close handler already sees itself as superseded
+    this.sockets.set(cpId, socket);
+    try {
+      previous.end(1000, 'Replaced by a new connection');
+    } catch (error) {
+      // The old socket may already be closing
+      console.warn(`[${cpId}] Could not close the previous connection:`, error);
+    }
+    return 'replaced';
+  }
+
+  // Returns false when the socket is not the current one for the charge point, e.g. a connection that was replaced
+  unregister(cpId: string, socket: S): boolean {
+    if (this.sockets.get(cpId) !== socket) {
+      return false;
+    }
+    this.sockets.delete(cpId);
+    return true;
+  }
+
+  isCurrent(cpId: string, socket: S): boolean {
+    return this.sockets.get(cpId) === socket;
+  }
+
+  get(cpId: string): S | undefined {
+    return this.sockets.get(cpId);
+  }
+
+  connectedCpIds(): string[] {
+    return [...this.sockets.keys()];
+  }
+}
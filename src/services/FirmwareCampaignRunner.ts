@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { FirmwareCampaign } from '@prisma/client';
+import { OcppService } from './OcppService';
+import { ChargePointCaller, SYSTEM_ISSUER } from '../types';
+import { nextCampaignStep } from '../firmware';
+
+// Sends UpdateFirmware and records it as a RemoteCommand; CommandController in the server
+export interface FirmwareUpdateSender {
+  updateFirmware(cpId: string, body: { location: string }, issuedBy?: string): Promise<unknown>;
+}
+
+export interface FirmwareCampaignRunnerOptions {
+  tickIntervalMs: number;
+  // An update without a FirmwareStatusNotification or boot for this long has failed
+  updateTimeoutMs: number;
+}
+
+export interface FirmwareCampaignEvent {
+  campaignId: number;
+  name: string;
+  reason?: string;
+}
+
+// Moves running firmware campaigns along: sends the next batch to connected chargers once the previous one
+// finished, pauses a campaign whose batch failed too often and completes it when no charger is left.
+// Emits 'paused' and 'completed' with a FirmwareCampaignEvent.
+export class FirmwareCampaignRunner extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private ocppService: OcppService,
+    private caller: ChargePointCaller,
+    private sender: FirmwareUpdateSender,
+    private options: FirmwareCampaignRunnerOptions = {
+      tickIntervalMs: parseInt(process.env.FIRMWARE_CAMPAIGN_TICK_INTERVAL_MS || '60000'),
+      updateTimeoutMs: parseInt(process.env.FIRMWARE_UPDATE_TIMEOUT_MINUTES || '120') * 60 * 1000,
+    }
+  ) {
+    super();
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      // A batch of slow chargers can take longer than the interval
+      if (this.ticking) {
+        return;
+      }
+      this.ticking = true;
+      this.tick()
+        .catch(error => console.error('Firmware campaign tick failed:', error))
+        .finally(() => {
+          this.ticking = false;
+        });
+    }, this.options.tickIntervalMs);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(now: Date = new Date()) {
+    const stalled = await this.ocppService.failStalledFirmwareUpdates(new Date(now.getTime() - this.options.updateTimeoutMs), now);
+    if (stalled > 0) {
+      console.warn(`${stalled} firmware update(s) made no progress and were marked Failed`);
+    }
+
+    for (const campaign of await this.ocppService.getRunningFirmwareCampaigns()) {
+      try {
+        await this.advance(campaign, now);
+      } catch (error) {
+        console.error(`Firmware campaign ${campaign.id} could not advance:`, error);
+      }
+    }
+  }
+
+  private async advance(campaign: FirmwareCampaign, now: Date) {
+    const updates = await this.ocppService.getFirmwareUpdates(campaign.id);
+    const step = nextCampaignStep(campaign, updates);
+
+    switch (step.action) {
+      case 'pause':
+        await this.ocppService.pauseFirmwareCampaign(campaign.id, step.reason);
+        this.emit('paused', { campaignId: campaign.id, name: campaign.name, reason: step.reason });
+        break;
+      case 'complete':
+        await this.ocppService.completeFirmwareCampaign(campaign.id);
+        this.emit('completed', { campaignId: campaign.id, name: campaign.name });
+        break;
+      case 'dispatch':
+        await this.dispatch(campaign, updates.filter(update => update.status === 'Queued').map(update => update.cpId), now);
+        break;
+    }
+  }
+
+  // Chargers that are offline or busy with another command stay queued for a later batch
+  private async dispatch(campaign: FirmwareCampaign, queued: string[], now: Date) {
+    const ready: string[] = [];
+    for (const cpId of queued) {
+      if (ready.length >= campaign.batchSize) {
+        break;
+      }
+      if (await this.caller.isConnected(cpId) && !this.caller.hasPendingCall(cpId)) {
+        ready.push(cpId);
+      }
+    }
+    if (ready.length === 0) {
+      return;
+    }
+
+    // Another node got there first
+    if (!await this.ocppService.startFirmwareCampaignBatch(campaign.id, campaign.currentBatch)) {
+      return;
+    }
+    const batch = campaign.currentBatch + 1;
+    console.log(`Firmware campaign ${campaign.name}: sending batch ${batch} to ${ready.length} charger(s)`);
+
+    for (const cpId of ready) {
+      if (!await this.ocppService.claimFirmwareUpdate(campaign.id, cpId, batch, now)) {
+        continue;
+      }
+      try {
+        await this.sender.updateFirmware(cpId, { location: campaign.location }, SYSTEM_ISSUER);
+      } catch (error) {
+        await this.ocppService.failFirmwareUpdate(campaign.id, cpId, error instanceof Error ? error.message : 'Unknown error', now);
+      }
+    }
+  }
+}
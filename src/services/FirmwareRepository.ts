@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { isValidFirmwareFileName } from '../firmware';
+
+export interface FirmwareFile {
+  fileName: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+// Firmware images in a local directory, served to chargers over HTTP under `baseUrl`
+export class FirmwareRepository {
+  constructor(
+    public readonly directory: string = process.env.FIRMWARE_DIR || './firmware',
+    // The URL chargers download from, so it has to be reachable from their network
+    public readonly baseUrl: string = process.env.FIRMWARE_BASE_URL || `http://localhost:${process.env.PORT || '8080'}/firmware`
+  ) {}
+
+  async list(): Promise<FirmwareFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: FirmwareFile[] = [];
+    for (const name of names.filter(isValidFirmwareFileName).sort()) {
+      const file = await this.find(name);
+      if (file) {
+        files.push(file);
+      }
+    }
+    return files;
+  }
+
+  // Null for names that are not plain file names and for files that do not exist
+  async find(fileName: string): Promise<FirmwareFile | null> {
+    if (!isValidFirmwareFileName(fileName)) {
+      return null;
+    }
+    try {
+      const stats = await fs.stat(this.pathOf(fileName));
+      return stats.isFile() ? { fileName, size: stats.size, modifiedAt: stats.mtime } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  pathOf(fileName: string): string {
+    return path.join(this.directory, fileName);
+  }
+
+  // Location sent in UpdateFirmware
+  locationOf(fileName: string): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`;
+  }
+}
@@ -0,0 +1,80 @@
+import { OcppService } from './OcppService';
+import { HeartbeatJob, StatusNotificationJob, MeterValuesJob, MessageJournalJob, OcppJobQueue } from './QueueService';
+
+// What each queued job writes. QueueProcessor runs these from the Redis queues, the journal replay inline.
+export class JobHandler {
+  constructor(private ocppService: OcppService) {}
+
+  async heartbeat(data: HeartbeatJob) {
+    await this.ocppService.recordHeartbeat(data.cpId);
+  }
+
+  async statusNotification(data: StatusNotificationJob) {
+    await this.ocppService.recordStatusNotification({
+      cpId: data.cpId,
+      connectorId: data.connectorId,
+      status: data.status,
+      errorCode: data.errorCode,
+      info: data.info,
+      vendorId: data.vendorId,
+      vendorErrorCode: data.vendorErrorCode,
+      timestamp: new Date(data.timestamp),
+      receivedAt: data.receivedAt ? new Date(data.receivedAt) : undefined,
+      additionalInfo: data.additionalInfo,
+    });
+
+    await this.ocppService.updateConnectorStatus({
+      cpId: data.cpId,
+      connectorId: data.connectorId,
+      status: data.status,
+      errorCode: data.errorCode,
+      info: data.info,
+      vendorErrorCode: data.vendorErrorCode,
+      timestamp: new Date(data.timestamp),
+      protocol: data.protocol,
+    });
+
+    if (data.clockSkewMs !== undefined) {
+      await this.ocppService.recordClockSkew(data.cpId, data.clockSkewMs);
+    }
+  }
+
+  async meterValues(data: MeterValuesJob) {
+    // Convert string timestamps back to Date objects
+    const meterValues = data.meterValues.map(mv => ({
+      ...mv,
+      timestamp: new Date(mv.timestamp),
+    }));
+
+    await this.ocppService.recordMeterValues({
+      cpId: data.cpId,
+      connectorId: data.connectorId,
+      transactionId: data.transactionId,
+      meterValues,
+    });
+  }
+
+  async journalEntry(data: MessageJournalJob) {
+    await this.ocppService.recordJournalEntry({
+      ...data,
+      timestamp: new Date(data.timestamp),
+    });
+  }
+}
+
+// Runs jobs as soon as they are queued, so their writes are done before the next message is handled
+export class InlineJobQueue implements OcppJobQueue {
+  constructor(private jobs: JobHandler) {}
+
+  async queueHeartbeat(data: HeartbeatJob) {
+    await this.jobs.heartbeat(data);
+  }
+
+  async queueStatusNotification(data: StatusNotificationJob) {
+    await this.jobs.statusNotification(data);
+  }
+
+  async queueMeterValues(data: MeterValuesJob) {
+    await this.jobs.meterValues(data);
+  }
+}
@@ -0,0 +1,134 @@
+import { isDeepStrictEqual } from 'util';
+import { OcppMessage } from '@prisma/client';
+import { MessageType, OcppActionHandler } from '../types';
+import { toOcppError } from '../errors';
+
+// How the server answered a CALL
+export type ReplayAnswer =
+  | { result: any }
+  | { errorCode: string; errorDescription: string };
+
+export interface ReplayMismatch {
+  uniqueId: string;
+  action: string;
+  timestamp: Date;
+  // Unset when the journal holds no answer, e.g. the connection dropped first
+  recorded?: ReplayAnswer;
+  replayed: ReplayAnswer;
+}
+
+export interface ReplayReport {
+  replayed: number;
+  matched: number;
+  // Inbound frames that are not replayed: retransmits, answers to server CALLs and unparsable frames
+  skipped: number;
+  mismatches: ReplayMismatch[];
+}
+
+// Differ on every run
+const VOLATILE_FIELDS = ['currentTime'];
+
+// Feeds the CALLs a charger sent back through an OCPP controller in journal order and compares every answer
+// with the recorded one. Transaction ids assigned during the replay stand in for the recorded ones.
+export class JournalReplayer {
+  // Recorded transactionId -> the one assigned during the replay
+  private transactionIds = new Map<number, number>();
+
+  constructor(private handler: OcppActionHandler) {}
+
+  async replay(cpId: string, entries: OcppMessage[]): Promise<ReplayReport> {
+    const answers = new Map<string, OcppMessage>();
+    for (const entry of entries) {
+      if (entry.direction === 'out' && entry.messageType !== MessageType.CALL && entry.uniqueId && !answers.has(entry.uniqueId)) {
+        answers.set(entry.uniqueId, entry);
+      }
+    }
+
+    const report: ReplayReport = { replayed: 0, matched: 0, skipped: 0, mismatches: [] };
+    const handled = new Set<string>();
+
+    for (const entry of entries) {
+      if (entry.direction !== 'in') {
+        continue;
+      }
+      if (entry.messageType !== MessageType.CALL || !entry.uniqueId || !entry.action || handled.has(entry.uniqueId)) {
+        report.skipped++;
+        continue;
+      }
+      handled.add(entry.uniqueId);
+
+      const replayed = await this.handle(cpId, entry.action, this.translate(entry.payload));
+      const answer = answers.get(entry.uniqueId);
+      const recorded = answer ? toRecordedAnswer(answer) : undefined;
+      this.learnTransactionId(entry.action, recorded, replayed);
+
+      report.replayed++;
+      if (recorded && this.matches(recorded, replayed)) {
+        report.matched++;
+      } else {
+        report.mismatches.push({ uniqueId: entry.uniqueId, action: entry.action, timestamp: entry.timestamp, recorded, replayed });
+      }
+    }
+
+    return report;
+  }
+
+  private async handle(cpId: string, action: string, payload: any): Promise<ReplayAnswer> {
+    try {
+      const result = await this.handler.handleAction(cpId, action, payload);
+      // Compare what would have gone over the wire
+      return { result: JSON.parse(JSON.stringify(result ?? {})) };
+    } catch (error) {
+      const ocppError = toOcppError(error);
+      return { errorCode: ocppError.errorCode, errorDescription: ocppError.message };
+    }
+  }
+
+  // StopTransaction and MeterValues refer to the transaction by the id the server assigned
+  private translate(payload: any) {
+    if (payload && typeof payload.transactionId === 'number' && this.transactionIds.has(payload.transactionId)) {
+      return { ...payload, transactionId: this.transactionIds.get(payload.transactionId) };
+    }
+    return payload ?? {};
+  }
+
+  private learnTransactionId(action: string, recorded: ReplayAnswer | undefined, replayed: ReplayAnswer) {
+    if (action !== 'StartTransaction' || !recorded || !('result' in recorded) || !('result' in replayed)) {
+      return;
+    }
+    const from = recorded.result?.transactionId;
+    const to = replayed.result?.transactionId;
+    if (typeof from === 'number' && typeof to === 'number') {
+      this.transactionIds.set(from, to);
+    }
+  }
+
+  private matches(recorded: ReplayAnswer, replayed: ReplayAnswer): boolean {
+    if ('result' in recorded && 'result' in replayed) {
+      return isDeepStrictEqual(withoutVolatileFields(this.translate(recorded.result)), withoutVolatileFields(replayed.result));
+    }
+    if ('errorCode' in recorded && 'errorCode' in replayed) {
+      // Descriptions may carry ids and timestamps
+      return recorded.errorCode === replayed.errorCode;
+    }
+    return false;
+  }
+}
+
+function toRecordedAnswer(entry: OcppMessage): ReplayAnswer {
+  if (entry.messageType === MessageType.CALLERROR) {
+    return { errorCode: entry.errorCode ?? '', errorDescription: entry.errorDescription ?? '' };
+  }
+  return { result: entry.payload ?? {} };
+}
+
+function withoutVolatileFields(payload: any) {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return payload;
+  }
+  const copy = { ...payload };
+  for (const field of VOLATILE_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
@@ -0,0 +1,65 @@
+import { QueueService } from './QueueService';
+import { JournalDirection, parseFrame } from '../journal';
+import { MessageType } from '../types';
+
+interface OpenCall {
+  uniqueId: string;
+  action?: string;
+  sentAt: number;
+}
+
+// Records every frame exchanged with chargers through the journal queue. CALLRESULT/CALLERROR entries carry
+// the action of the CALL they answer and how long the answer took.
+export class MessageJournal {
+  // OCPP-J allows one outstanding CALL per direction, so one per charger and direction
+  private openCalls = new Map<string, OpenCall>();
+
+  constructor(
+    private queueService: QueueService,
+    private enabled: boolean = process.env.OCPP_MESSAGE_JOURNAL !== 'false'
+  ) {}
+
+  record(cpId: string, direction: JournalDirection, raw: string, at: Date = new Date()) {
+    if (!this.enabled) {
+      return;
+    }
+
+    const frame = parseFrame(raw);
+    let action = frame.action;
+    let latencyMs: number | undefined;
+
+    if (frame.messageType === MessageType.CALL) {
+      this.openCalls.set(this.key(cpId, direction), { uniqueId: frame.uniqueId!, action, sentAt: at.getTime() });
+    } else if (frame.messageType !== undefined) {
+      // Answers travel the opposite way of their CALL
+      const key = this.key(cpId, direction === 'in' ? 'out' : 'in');
+      const call = this.openCalls.get(key);
+      if (call && call.uniqueId === frame.uniqueId) {
+        this.openCalls.delete(key);
+        action = call.action;
+        latencyMs = at.getTime() - call.sentAt;
+      }
+    }
+
+    this.queueService.queueJournalEntry({
+      cpId,
+      timestamp: at.toISOString(),
+      direction,
+      ...frame,
+      action,
+      latencyMs,
+    }).catch(error => {
+      console.warn(`[${cpId}] Could not journal ${direction === 'in' ? 'an inbound' : 'an outbound'} frame:`, error);
+    });
+  }
+
+  // CALLs left unanswered when the connection closes
+  forget(cpId: string) {
+    this.openCalls.delete(this.key(cpId, 'in'));
+    this.openCalls.delete(this.key(cpId, 'out'));
+  }
+
+  private key(cpId: string, direction: JournalDirection) {
+    return `${direction}:${cpId}`;
+  }
+}
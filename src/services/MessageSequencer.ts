@@ -0,0 +1,54 @@
+interface Lane {
+  tail: Promise<void>;
+  // Tasks queued or running
+  pending: number;
+}
+
+export interface MessageBacklogStats {
+  chargePoints: number;
+  pending: number;
+  backlog: Record<string, number>;
+}
+
+// Runs tasks one at a time per charge point, in the order they arrive; different charge points run in parallel.
+// Idle charge points hold no state.
+export class MessageSequencer {
+  private lanes = new Map<string, Lane>();
+
+  run<T>(cpId: string, task: () => Promise<T>): Promise<T> {
+    let lane = this.lanes.get(cpId);
+    if (!lane) {
+      lane = { tail: Promise.resolve(), pending: 0 };
+      this.lanes.set(cpId, lane);
+    }
+
+    const current = lane;
+    current.pending++;
+    const result = current.tail.then(task);
+
+    // A failed task must not block the ones queued behind it
+    current.tail = result.then(() => undefined, () => undefined).then(() => {
+      current.pending--;
+      if (current.pending === 0) {
+        this.lanes.delete(cpId);
+      }
+    });
+
+    return result;
+  }
+
+  getBacklog(cpId: string): number {
+    return this.lanes.get(cpId)?.pending ?? 0;
+  }
+
+  getStats(): MessageBacklogStats {
+    const backlog: Record<string, number> = {};
+    let pending = 0;
+    for (const [cpId, lane] of this.lanes) {
+      backlog[cpId] = lane.pending;
+      pending += lane.pending;
+    }
+
+    return { chargePoints: this.lanes.size, pending, backlog };
+  }
+}
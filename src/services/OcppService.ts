@@ -1,11 +1,44 @@
-import { PrismaClient } from '@prisma/client';
-import { CreateTransactionData } from '../types';
+import { Connector, Prisma, PrismaClient } from '@prisma/client';
+import { CreateTransactionData, IdTagInfo, IdTagStatus, SECRET_CONFIGURATION_KEYS } from '../types';
+import { Sample, computeTransactionEnergy, normalizeSample } from '../metering';
+import { isLegalTransition } from '../connectorStatus';
+import { hashPassword, parseBasicAuth, verifyPassword } from '../auth';
+import { OcppProtocol } from '../protocols';
+import { RegistrationStatus } from '../provisioning';
+import { IN_PROGRESS_UPDATE_STATUSES, confirmUpdate, updateStatusFor } from '../firmware';
 import { cp } from 'fs';
 
+// How long after an accepted RemoteStartTransaction a StartTransaction is attributed to it
+const REMOTE_START_LINK_WINDOW_MS = 10 * 60 * 1000;
+
+// Every ChargePoint column except the password hash, which only authenticateChargePoint reads
+const CHARGE_POINT_SELECT = {
+  cpId: true,
+  model: true,
+  vendor: true,
+  firmwareVersion: true,
+  serialNumber: true,
+  lastSeen: true,
+  status: true,
+  clockSkewMs: true,
+  clockSkewUpdatedAt: true,
+  registrationStatus: true,
+  heartbeatInterval: true,
+  firmwareStatus: true,
+  firmwareStatusAt: true,
+  additionalInfo: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ChargePointSelect;
+
+// Chargers whose clock is further off than this are flagged
+const CLOCK_SKEW_THRESHOLD_MS = parseInt(process.env.CLOCK_SKEW_THRESHOLD_MS || '60000');
+
 export class OcppService {
   constructor(private prisma: PrismaClient) {}
 
   // ChargePoint operations
+  // Records a BootNotification; registrationStatus only applies to a charge point seen for the first time
   async registerChargePoint(data: {
     cpId: string;
     vendor?: string;
@@ -13,7 +46,7 @@ export class OcppService {
     firmwareVersion?: string;
     serialNumber?: string;
     additionalInfo?: any;
-  }) {
+  }, registrationStatus: RegistrationStatus = 'Accepted') {
     return this.prisma.chargePoint.upsert({
       where: { cpId: data.cpId },
       update: {
@@ -32,8 +65,30 @@ export class OcppService {
         serialNumber: data.serialNumber,
         lastSeen: new Date(),
         status: 'Available',
+        registrationStatus,
         additionalInfo: data.additionalInfo,
       },
+      select: CHARGE_POINT_SELECT,
+    });
+  }
+
+  // Register a charge point ahead of its first connection
+  async provisionChargePoint(data: { cpId: string; heartbeatInterval?: number }) {
+    return this.prisma.chargePoint.create({
+      data: {
+        cpId: data.cpId,
+        registrationStatus: 'Accepted',
+        heartbeatInterval: data.heartbeatInterval,
+      },
+      select: CHARGE_POINT_SELECT,
+    });
+  }
+
+  async updateRegistration(cpId: string, data: { registrationStatus?: RegistrationStatus; heartbeatInterval?: number | null }) {
+    return this.prisma.chargePoint.update({
+      where: { cpId },
+      data,
+      select: CHARGE_POINT_SELECT,
     });
   }
 
@@ -44,6 +99,49 @@ export class OcppService {
     });
   }
 
+  // Security Profile 1: the username must be the cpId and the password match the stored hash
+  async authenticateChargePoint(cpId: string, authorizationHeader?: string): Promise<boolean> {
+    const credentials = parseBasicAuth(authorizationHeader);
+    if (!credentials || credentials.username !== cpId) {
+      return false;
+    }
+
+    const chargePoint = await this.prisma.chargePoint.findUnique({
+      where: { cpId },
+      select: { authPasswordHash: true },
+    });
+    if (!chargePoint?.authPasswordHash) {
+      return false;
+    }
+
+    return verifyPassword(credentials.password, chargePoint.authPasswordHash);
+  }
+
+  // Only for registered chargers, so a key never creates a charge point past provisioning
+  async setAuthorizationKey(cpId: string, authorizationKey: string) {
+    const authPasswordHash = await hashPassword(authorizationKey);
+
+    await this.prisma.chargePoint.update({
+      where: { cpId },
+      data: { authPasswordHash },
+    });
+  }
+
+  // Skew is server receive time minus charger time; positive means the charger clock is behind
+  async recordClockSkew(cpId: string, skewMs: number) {
+    if (Math.abs(skewMs) > CLOCK_SKEW_THRESHOLD_MS) {
+      console.warn(`[${cpId}] Charger clock is off by ${Math.round(skewMs / 1000)}s`);
+    }
+
+    return this.prisma.chargePoint.update({
+      where: { cpId },
+      data: {
+        clockSkewMs: Math.round(skewMs),
+        clockSkewUpdatedAt: new Date(),
+      },
+    });
+  }
+
   // Heartbeat operations
   async recordHeartbeat(cpId: string) {
     await this.prisma.heartbeat.create({
@@ -57,21 +155,80 @@ export class OcppService {
     await this.updateLastSeen(cpId);
   }
 
-  // Authorization operations  
-  async authorize(cpId: string, idTag: string) {
-    // For demo: always accept and create record
-    const expiryDate = new Date();
-    expiryDate.setHours(expiryDate.getHours() + 24);
+  // Authorization operations
+  // Resolve an idTag against the IdTag registry; a non-accepted parent blocks its whole group
+  async getIdTagInfo(idTag: string, options: {
+    // Report ConcurrentTx when the tag is active anywhere except this connector; without a connector, e.g. for
+    // Authorize, any active transaction of the tag counts
+    concurrentTx?: { cpId: string; connectorId?: number };
+  } = {}): Promise<IdTagInfo> {
+    const tag = await this.prisma.idTag.findUnique({
+      where: { idTag },
+      include: { parent: true },
+    });
+
+    if (!tag) {
+      return { status: 'Invalid' };
+    }
+
+    const info: IdTagInfo = {
+      status: this.resolveIdTagStatus(tag),
+      expiryDate: tag.expiryDate?.toISOString(),
+      parentIdTag: tag.parentIdTag ?? undefined,
+    };
+
+    if (info.status === 'Accepted' && tag.parent) {
+      const parentStatus = this.resolveIdTagStatus(tag.parent);
+      if (parentStatus !== 'Accepted') {
+        info.status = parentStatus;
+      }
+    }
+
+    if (info.status === 'Accepted' && options.concurrentTx) {
+      const activeCount = await this.prisma.transaction.count({
+        where: {
+          idTag,
+          status: 'active',
+          NOT: options.concurrentTx.connectorId === undefined ? undefined : {
+            cpId: options.concurrentTx.cpId,
+            connectorId: options.concurrentTx.connectorId,
+          },
+        },
+      });
+
+      if (activeCount > 0) {
+        info.status = 'ConcurrentTx';
+      }
+    }
+
+    return info;
+  }
+
+  private resolveIdTagStatus(tag: { status: string; expiryDate: Date | null }): IdTagStatus {
+    if (tag.status !== 'Accepted') {
+      return tag.status as IdTagStatus;
+    }
+    if (tag.expiryDate && tag.expiryDate.getTime() < Date.now()) {
+      return 'Expired';
+    }
+    return 'Accepted';
+  }
 
-    return this.prisma.authorization.create({
+  async authorize(cpId: string, idTag: string): Promise<IdTagInfo> {
+    const idTagInfo = await this.getIdTagInfo(idTag, { concurrentTx: { cpId } });
+
+    // Keep an audit trail of every Authorize request and its outcome
+    await this.prisma.authorization.create({
       data: {
         cpId,
         idTag,
-        status: 'Accepted',
-        expiryDate,
+        status: idTagInfo.status,
+        expiryDate: idTagInfo.expiryDate ? new Date(idTagInfo.expiryDate) : null,
         timestamp: new Date(),
       },
     });
+
+    return idTagInfo;
   }
 
   // Transaction operations
@@ -103,6 +260,8 @@ export class OcppService {
         idTag: data.idTag,
         meterStart: data.meterStart,
         startTimestamp: data.startTimestamp,
+        startReceivedAt: data.startReceivedAt,
+        externalTransactionId: data.externalTransactionId,
         status: 'active',
         additionalInfo: data
       },
@@ -116,6 +275,9 @@ export class OcppService {
     idTag?: string;
     meterStop?: number;
     stopReason?: string;
+    // Charger-reported stop time; offline chargers replay this long after the fact
+    stopTimestamp?: Date;
+    receivedAt?: Date;
   }) {
     let transactionId = data.transactionId;
 
@@ -145,7 +307,8 @@ export class OcppService {
       where: { transactionId },
       data: {
         meterStop: data.meterStop,
-        stopTimestamp: new Date(),
+        stopTimestamp: data.stopTimestamp ?? new Date(),
+        stopReceivedAt: data.receivedAt ?? new Date(),
         stopReason: data.stopReason || 'Local',
         status: 'completed',
         additionalInfo: data
@@ -153,6 +316,27 @@ export class OcppService {
     });
   }
 
+  // Store the delivered energy, falling back to the sampled transactionData when meterStop can't be trusted
+  async recordTransactionEnergy(transaction: {
+    transactionId: number;
+    meterStart: number | null;
+    meterStop: number | null;
+  }, samples: Sample[] = []) {
+    const { energyWh, source } = computeTransactionEnergy(transaction.meterStart, transaction.meterStop, samples);
+
+    if (source !== 'meterStop') {
+      console.warn(`Transaction ${transaction.transactionId}: suspicious meterStop ${transaction.meterStop}, energy ${energyWh === null ? 'unknown' : `taken from transactionData (${energyWh} Wh)`}`);
+    }
+
+    return this.prisma.transaction.update({
+      where: { transactionId: transaction.transactionId },
+      data: {
+        energyWh,
+        energySource: source,
+      },
+    });
+  }
+
   // Status notification operations
   async recordStatusNotification(data: {
     cpId: string;
@@ -162,6 +346,8 @@ export class OcppService {
     info?: string;
     vendorId?: string;
     vendorErrorCode?: string;
+    timestamp?: Date;
+    receivedAt?: Date;
     additionalInfo?: any;
   }) {
     return this.prisma.statusNotification.create({
@@ -173,12 +359,94 @@ export class OcppService {
         info: data.info,
         vendorId: data.vendorId,
         vendorErrorCode: data.vendorErrorCode,
-        timestamp: new Date(),
+        timestamp: data.timestamp ?? new Date(),
+        receivedAt: data.receivedAt ?? new Date(),
         additionalInfo: data.additionalInfo,
       },
     });
   }
 
+  // Connector state operations
+  // Apply a StatusNotification to the connector's current state; the history stays in status_notifications
+  async updateConnectorStatus(data: {
+    cpId: string;
+    connectorId: number;
+    status: string;
+    errorCode?: string;
+    info?: string;
+    vendorErrorCode?: string;
+    timestamp: Date;
+    protocol?: OcppProtocol;
+  }): Promise<Connector> {
+    const where = { cpId_connectorId: { cpId: data.cpId, connectorId: data.connectorId } };
+    const connector = await this.prisma.connector.findUnique({ where });
+
+    // Notifications are processed concurrently, so an older one can arrive after a newer one
+    if (connector && connector.lastStatusAt > data.timestamp) {
+      console.log(`[${data.cpId}] Ignoring stale ${data.status} for connector ${data.connectorId}`);
+      return connector;
+    }
+
+    // OCPP 2.0.1 has no equivalent transition table
+    const checked = data.protocol === undefined || data.protocol === 'ocpp1.6';
+    if (checked && !isLegalTransition(connector?.status ?? data.status, data.status, data.connectorId)) {
+      console.warn(`[${data.cpId}] Illegal status transition on connector ${data.connectorId}: ${connector?.status ?? 'none'} -> ${data.status}`);
+    }
+
+    const state = {
+      status: data.status,
+      errorCode: data.errorCode ?? null,
+      info: data.info ?? null,
+      vendorErrorCode: data.vendorErrorCode ?? null,
+      statusChangedAt: connector && connector.status === data.status ? connector.statusChangedAt : data.timestamp,
+      lastStatusAt: data.timestamp,
+    };
+
+    if (connector) {
+      return this.prisma.connector.update({ where, data: state });
+    }
+
+    // A transaction may have started before the connector's first notification was processed
+    const active = data.connectorId > 0
+      ? await this.prisma.transaction.findFirst({
+          where: { cpId: data.cpId, connectorId: data.connectorId, status: 'active' },
+          orderBy: { startTimestamp: 'desc' },
+        })
+      : null;
+
+    // Two first notifications for the connector can be processed at once; the one that loses the race is applied
+    // on top of the other like any later notification
+    const created = await this.prisma.connector.upsert({
+      where,
+      create: {
+        cpId: data.cpId,
+        connectorId: data.connectorId,
+        ...state,
+        transactionId: active?.transactionId ?? null,
+      },
+      update: {},
+    });
+    if (created.status !== data.status || created.lastStatusAt.getTime() !== data.timestamp.getTime()) {
+      return this.updateConnectorStatus(data);
+    }
+    return created;
+  }
+
+  async setConnectorTransaction(cpId: string, connectorId: number, transactionId: number) {
+    return this.prisma.connector.updateMany({
+      where: { cpId, connectorId },
+      data: { transactionId },
+    });
+  }
+
+  // Only clears the connector when it still points at this transaction
+  async clearConnectorTransaction(cpId: string, connectorId: number, transactionId: number) {
+    return this.prisma.connector.updateMany({
+      where: { cpId, connectorId, transactionId },
+      data: { transactionId: null },
+    });
+  }
+
   // Meter values operations
   async recordMeterValues(data: {
     cpId: string;
@@ -201,6 +469,7 @@ export class OcppService {
       transactionId: data.transactionId,
       timestamp: mv.timestamp,
       value: mv.value,
+      ...normalizeSample(mv),
       context: mv.context,
       format: mv.format,
       measurand: mv.measurand,
@@ -219,6 +488,673 @@ export class OcppService {
       : this.prisma.chargePoint.update({ where: { cpId }, data: { status } });
   }
 
+  async setChargePointsStatus(cpIds: string[], status: string) {
+    return this.prisma.chargePoint.updateMany({
+      where: { cpId: { in: cpIds } },
+      data: { status },
+    });
+  }
+
+  // Any message proves the charger is alive, which also undoes an earlier offline sweep
+  async markChargePointSeen(cpId: string, at: Date = new Date()) {
+    return this.prisma.chargePoint.updateMany({
+      where: { cpId },
+      data: { lastSeen: at, status: 'Online' },
+    });
+  }
+
+  async getOnlineChargePoints() {
+    return this.prisma.chargePoint.findMany({
+      where: { status: 'Online' },
+      select: { cpId: true, lastSeen: true, heartbeatInterval: true },
+    });
+  }
+
+  // Only applies while lastSeen is unchanged, so a message arriving meanwhile keeps the charger Online
+  async markChargePointOffline(cpId: string, lastSeen: Date): Promise<boolean> {
+    const { count } = await this.prisma.chargePoint.updateMany({
+      where: { cpId, status: 'Online', lastSeen },
+      data: { status: 'Offline' },
+    });
+    return count > 0;
+  }
+
+  // OCPP 2.0.1 transactions are identified by the charger's own id
+  async findTransactionByExternalId(cpId: string, externalTransactionId: string) {
+    return this.prisma.transaction.findUnique({
+      where: { cpId_externalTransactionId: { cpId, externalTransactionId } },
+    });
+  }
+
+  async setTransactionIdTag(transactionId: number, idTag: string) {
+    return this.prisma.transaction.update({
+      where: { transactionId },
+      data: { idTag },
+    });
+  }
+
+  async getTransaction(transactionId: number) {
+    return this.prisma.transaction.findUnique({
+      where: { transactionId },
+    });
+  }
+
+  // Remote command operations
+  async createRemoteCommand(data: {
+    cpId: string;
+    action: string;
+    idTag?: string;
+    connectorId?: number;
+    transactionId?: number;
+    request?: any;
+    issuedBy?: string;
+  }) {
+    return this.prisma.remoteCommand.create({
+      data: {
+        cpId: data.cpId,
+        action: data.action,
+        idTag: data.idTag,
+        connectorId: data.connectorId,
+        transactionId: data.transactionId,
+        status: 'Pending',
+        request: data.request,
+        issuedBy: data.issuedBy,
+      },
+    });
+  }
+
+  async completeRemoteCommand(id: number, data: {
+    status: string;
+    response?: any;
+    error?: string;
+  }) {
+    return this.prisma.remoteCommand.update({
+      where: { id },
+      data: {
+        status: data.status,
+        response: data.response,
+        error: data.error,
+      },
+    });
+  }
+
+  async listRemoteCommands(cpId: string, filter: {
+    action?: string;
+    issuedBy?: string;
+  }, page: { skip: number; take: number }) {
+    const where: Prisma.RemoteCommandWhereInput = {
+      cpId,
+      action: filter.action,
+      issuedBy: filter.issuedBy,
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.remoteCommand.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], ...page }),
+      this.prisma.remoteCommand.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  // Connector 0 covers every connector, so it replaces what was asked for the single ones
+  async setConnectorAvailability(cpId: string, connectorId: number, data: {
+    type: string;
+    status: string;
+    issuedBy?: string;
+  }) {
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+    if (connectorId === 0) {
+      operations.push(this.prisma.connectorAvailability.deleteMany({ where: { cpId, connectorId: { not: 0 } } }));
+    }
+    operations.push(this.prisma.connectorAvailability.upsert({
+      where: { cpId_connectorId: { cpId, connectorId } },
+      create: { cpId, connectorId, ...data },
+      update: data,
+    }));
+    await this.prisma.$transaction(operations);
+  }
+
+  // In the order they were asked for, so re-applying them ends in the same state
+  async getConnectorAvailability(cpId: string) {
+    return this.prisma.connectorAvailability.findMany({
+      where: { cpId },
+      orderBy: [{ updatedAt: 'asc' }, { connectorId: 'asc' }],
+    });
+  }
+
+  // Attribute a new transaction to the accepted RemoteStartTransaction that caused it
+  async linkRemoteStart(transaction: {
+    transactionId: number;
+    cpId: string;
+    connectorId: number;
+    idTag: string | null;
+  }) {
+    if (!transaction.idTag) {
+      return null;
+    }
+
+    const command = await this.prisma.remoteCommand.findFirst({
+      where: {
+        cpId: transaction.cpId,
+        action: 'RemoteStartTransaction',
+        status: 'Accepted',
+        idTag: transaction.idTag,
+        transactionId: null,
+        createdAt: { gte: new Date(Date.now() - REMOTE_START_LINK_WINDOW_MS) },
+        OR: [{ connectorId: null }, { connectorId: transaction.connectorId }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!command) {
+      return null;
+    }
+
+    return this.prisma.remoteCommand.update({
+      where: { id: command.id },
+      data: { transactionId: transaction.transactionId },
+    });
+  }
+
+  // Admin queries
+  async listChargePoints(filter: {
+    status?: string;
+    registrationStatus?: RegistrationStatus;
+    vendor?: string;
+    firmwareVersion?: string;
+    lastSeenFrom?: Date;
+    lastSeenTo?: Date;
+  }, page: { skip: number; take: number }) {
+    const where: Prisma.ChargePointWhereInput = {
+      status: filter.status,
+      registrationStatus: filter.registrationStatus,
+      vendor: filter.vendor,
+      firmwareVersion: filter.firmwareVersion,
+    };
+    if (filter.lastSeenFrom || filter.lastSeenTo) {
+      where.lastSeen = { gte: filter.lastSeenFrom, lte: filter.lastSeenTo };
+    }
+
+    const [items, total] = await Promise.all([
+      this.prisma.chargePoint.findMany({ where, select: CHARGE_POINT_SELECT, orderBy: { cpId: 'asc' }, ...page }),
+      this.prisma.chargePoint.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  async getChargePoint(cpId: string) {
+    return this.prisma.chargePoint.findUnique({
+      where: { cpId },
+      select: CHARGE_POINT_SELECT,
+    });
+  }
+
+  async getConnectors(cpId: string) {
+    return this.prisma.connector.findMany({
+      where: { cpId },
+      orderBy: { connectorId: 'asc' },
+    });
+  }
+
+  async getRecentStatusNotifications(cpId: string, options: { connectorId?: number; limit: number }) {
+    return this.prisma.statusNotification.findMany({
+      where: { cpId, connectorId: options.connectorId },
+      orderBy: { timestamp: 'desc' },
+      take: options.limit,
+    });
+  }
+
+  async listTransactions(filter: {
+    cpId?: string;
+    idTag?: string;
+    status?: string;
+    from?: Date;
+    to?: Date;
+  }, page: { skip: number; take: number }) {
+    const where: Prisma.TransactionWhereInput = {
+      cpId: filter.cpId,
+      idTag: filter.idTag,
+      status: filter.status,
+    };
+    if (filter.from || filter.to) {
+      where.startTimestamp = { gte: filter.from, lte: filter.to };
+    }
+
+    const [items, total] = await Promise.all([
+      this.prisma.transaction.findMany({ where, orderBy: { startTimestamp: 'desc' }, ...page }),
+      this.prisma.transaction.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  async getTransactionWithMeterValues(transactionId: number) {
+    return this.prisma.transaction.findUnique({
+      where: { transactionId },
+      include: {
+        meterValues: { orderBy: { timestamp: 'asc' } },
+      },
+    });
+  }
+
+  // Charge point configuration
+  async getConfiguration(cpId: string) {
+    return this.prisma.chargePointConfiguration.findMany({
+      where: { cpId },
+      orderBy: { key: 'asc' },
+    });
+  }
+
+  async getConfigurationKey(cpId: string, key: string) {
+    return this.prisma.chargePointConfiguration.findUnique({
+      where: { cpId_key: { cpId, key } },
+    });
+  }
+
+  // Stores a GetConfiguration answer. A complete answer (all keys requested) also drops keys the charger no longer has.
+  // Values that differ from the stored ones are recorded in the key's history.
+  async saveReportedConfiguration(cpId: string, reported: Array<{ key: string; value?: string; readonly: boolean }>, complete: boolean) {
+    const stored = new Map((await this.getConfiguration(cpId)).map(entry => [entry.key, entry]));
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+    for (const { key, readonly, value: reportedValue } of reported) {
+      const value = this.storableValue(key, reportedValue ?? null);
+      const previous = stored.get(key);
+      // A pending change has taken effect once the charger reports it
+      const pendingValue = previous?.pendingValue === value ? null : previous?.pendingValue ?? null;
+
+      operations.push(this.prisma.chargePointConfiguration.upsert({
+        where: { cpId_key: { cpId, key } },
+        create: { cpId, key, value, readonly },
+        update: { value, readonly, pendingValue },
+      }));
+      if (previous && previous.value !== value) {
+        operations.push(this.prisma.configurationChange.create({
+          data: { cpId, key, oldValue: previous.value, newValue: value, status: 'Reported', source: 'charger' },
+        }));
+      }
+    }
+    if (complete) {
+      operations.push(this.prisma.chargePointConfiguration.deleteMany({
+        where: { cpId, key: { notIn: reported.map(entry => entry.key) } },
+      }));
+    }
+
+    await this.prisma.$transaction(operations);
+  }
+
+  // Records a ChangeConfiguration answer and updates the stored value when the charger accepted it
+  async recordConfigurationChange(cpId: string, change: { key: string; value: string; status: string; source: string }) {
+    const previous = await this.getConfigurationKey(cpId, change.key);
+    const value = this.storableValue(change.key, change.value);
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      this.prisma.configurationChange.create({
+        data: {
+          cpId,
+          key: change.key,
+          oldValue: previous?.value ?? null,
+          newValue: value,
+          status: change.status,
+          source: change.source,
+        },
+      }),
+    ];
+
+    if (change.status === 'Accepted') {
+      operations.push(this.prisma.chargePointConfiguration.upsert({
+        where: { cpId_key: { cpId, key: change.key } },
+        create: { cpId, key: change.key, value },
+        update: { value, pendingValue: null },
+      }));
+    } else if (change.status === 'RebootRequired') {
+      operations.push(this.prisma.chargePointConfiguration.upsert({
+        where: { cpId_key: { cpId, key: change.key } },
+        create: { cpId, key: change.key, pendingValue: value },
+        update: { pendingValue: value },
+      }));
+    }
+
+    await this.prisma.$transaction(operations);
+  }
+
+  async listConfigurationChanges(cpId: string, key: string, page: { skip: number; take: number }) {
+    const where = { cpId, key };
+    const [items, total] = await Promise.all([
+      this.prisma.configurationChange.findMany({ where, orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], ...page }),
+      this.prisma.configurationChange.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  // Configuration templates
+  async listConfigurationTemplates(filter: { vendor?: string } = {}) {
+    return this.prisma.configurationTemplate.findMany({
+      where: { vendor: filter.vendor },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async getConfigurationTemplate(id: number) {
+    return this.prisma.configurationTemplate.findUnique({ where: { id } });
+  }
+
+  // Another template with the same name or the same vendor/model/firmware selector
+  async findConflictingConfigurationTemplate(template: {
+    name: string;
+    vendor: string;
+    model: string | null;
+    firmwareVersion: string | null;
+  }, exceptId?: number) {
+    return this.prisma.configurationTemplate.findFirst({
+      where: {
+        id: exceptId !== undefined ? { not: exceptId } : undefined,
+        OR: [
+          { name: template.name },
+          { vendor: template.vendor, model: template.model, firmwareVersion: template.firmwareVersion },
+        ],
+      },
+    });
+  }
+
+  async createConfigurationTemplate(data: {
+    name: string;
+    vendor: string;
+    model: string | null;
+    firmwareVersion: string | null;
+    keys: Record<string, string>;
+  }) {
+    return this.prisma.configurationTemplate.create({ data });
+  }
+
+  async updateConfigurationTemplate(id: number, data: {
+    name: string;
+    vendor: string;
+    model: string | null;
+    firmwareVersion: string | null;
+    keys: Record<string, string>;
+  }) {
+    return this.prisma.configurationTemplate.update({ where: { id }, data });
+  }
+
+  async deleteConfigurationTemplate(id: number) {
+    return this.prisma.configurationTemplate.delete({ where: { id } });
+  }
+
+  // Replaces the result of the charger's previous template check; no entries means it matches its template
+  async saveConfigurationDrift(cpId: string, templateId: number | null, entries: Array<{
+    key: string;
+    expected: string;
+    actual?: string;
+    status: string;
+    error?: string;
+  }>, checkedAt: Date = new Date()) {
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      this.prisma.configurationDrift.deleteMany({ where: { cpId } }),
+    ];
+    if (templateId !== null && entries.length > 0) {
+      operations.push(this.prisma.configurationDrift.createMany({
+        data: entries.map(entry => ({ cpId, templateId, checkedAt, ...entry })),
+      }));
+    }
+    await this.prisma.$transaction(operations);
+  }
+
+  async getConfigurationDrift(cpId: string) {
+    return this.prisma.configurationDrift.findMany({
+      where: { cpId },
+      orderBy: { key: 'asc' },
+    });
+  }
+
+  async listConfigurationDrift(filter: {
+    statuses?: string[];
+    templateId?: number;
+  }, page: { skip: number; take: number }) {
+    const where: Prisma.ConfigurationDriftWhereInput = {
+      status: filter.statuses ? { in: filter.statuses } : undefined,
+      templateId: filter.templateId,
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.configurationDrift.findMany({ where, orderBy: [{ checkedAt: 'desc' }, { cpId: 'asc' }, { key: 'asc' }], ...page }),
+      this.prisma.configurationDrift.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  // Firmware status of the charger, and progress of the campaign update it is working on
+  async recordFirmwareStatus(cpId: string, firmwareStatus: string, at: Date = new Date()) {
+    await this.prisma.chargePoint.update({
+      where: { cpId },
+      data: { firmwareStatus, firmwareStatusAt: at },
+    });
+
+    const status = updateStatusFor(firmwareStatus);
+    const update = await this.getFirmwareUpdateInProgress(cpId);
+    if (!update || !status) {
+      return null;
+    }
+
+    return this.prisma.firmwareUpdate.update({
+      where: { campaignId_cpId: { campaignId: update.campaignId, cpId } },
+      data: {
+        status,
+        firmwareStatus,
+        error: status === 'Failed' ? `Charger reported ${firmwareStatus}` : undefined,
+        completedAt: status === 'Failed' ? at : undefined,
+      },
+    });
+  }
+
+  // An update only counts as done once the charger boots with the campaign's target version
+  async confirmFirmwareUpdate(cpId: string, reportedVersion: string | undefined, at: Date = new Date()) {
+    const update = await this.getFirmwareUpdateInProgress(cpId);
+    if (!update) {
+      return null;
+    }
+
+    const outcome = confirmUpdate(update, reportedVersion, update.campaign.targetVersion);
+    if (!outcome) {
+      return null;
+    }
+
+    return this.prisma.firmwareUpdate.update({
+      where: { campaignId_cpId: { campaignId: update.campaignId, cpId } },
+      data: { ...outcome, completedAt: at },
+    });
+  }
+
+  private async getFirmwareUpdateInProgress(cpId: string) {
+    return this.prisma.firmwareUpdate.findFirst({
+      where: { cpId, status: { in: IN_PROGRESS_UPDATE_STATUSES } },
+      include: { campaign: true },
+      orderBy: { sentAt: 'desc' },
+    });
+  }
+
+  // Queues every accepted charger that matches the campaign, is not on the target version yet and is not
+  // part of another unfinished campaign
+  async createFirmwareCampaign(data: {
+    name: string;
+    vendor: string;
+    model: string | null;
+    fromVersion: string | null;
+    targetVersion: string;
+    location: string;
+    batchSize: number;
+    maxFailureRate: number;
+    issuedBy?: string;
+  }) {
+    const chargePoints = await this.prisma.chargePoint.findMany({
+      where: {
+        vendor: data.vendor,
+        model: data.model ?? undefined,
+        firmwareVersion: data.fromVersion ?? undefined,
+        registrationStatus: 'Accepted',
+        OR: [{ firmwareVersion: null }, { firmwareVersion: { not: data.targetVersion } }],
+        firmwareUpdates: { none: { status: { in: ['Queued', ...IN_PROGRESS_UPDATE_STATUSES] } } },
+      },
+      select: { cpId: true },
+      orderBy: { cpId: 'asc' },
+    });
+
+    return this.prisma.firmwareCampaign.create({
+      data: {
+        ...data,
+        updates: { create: chargePoints.map(({ cpId }) => ({ cpId })) },
+      },
+    });
+  }
+
+  async findFirmwareCampaignByName(name: string) {
+    return this.prisma.firmwareCampaign.findUnique({ where: { name } });
+  }
+
+  async getFirmwareCampaign(id: number) {
+    return this.prisma.firmwareCampaign.findUnique({ where: { id } });
+  }
+
+  async listFirmwareCampaigns() {
+    return this.prisma.firmwareCampaign.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  async getRunningFirmwareCampaigns() {
+    return this.prisma.firmwareCampaign.findMany({ where: { status: 'Running' }, orderBy: { id: 'asc' } });
+  }
+
+  // Number of chargers per FirmwareUpdate.status
+  async getFirmwareCampaignProgress(campaignId: number): Promise<Record<string, number>> {
+    const groups = await this.prisma.firmwareUpdate.groupBy({
+      by: ['status'],
+      where: { campaignId },
+      _count: { _all: true },
+    });
+    return Object.fromEntries(groups.map(group => [group.status, group._count._all]));
+  }
+
+  async getFirmwareUpdates(campaignId: number) {
+    return this.prisma.firmwareUpdate.findMany({
+      where: { campaignId },
+      select: { cpId: true, status: true, batch: true },
+      orderBy: { cpId: 'asc' },
+    });
+  }
+
+  async listFirmwareUpdates(campaignId: number, filter: { status?: string }, page: { skip: number; take: number }) {
+    const where: Prisma.FirmwareUpdateWhereInput = { campaignId, status: filter.status };
+
+    const [items, total] = await Promise.all([
+      this.prisma.firmwareUpdate.findMany({ where, orderBy: [{ batch: 'asc' }, { cpId: 'asc' }], ...page }),
+      this.prisma.firmwareUpdate.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  // Moves a running campaign from one batch to the next, approving the finished one. Several nodes may try at
+  // once; only the one that sees the batch unchanged wins.
+  async startFirmwareCampaignBatch(id: number, currentBatch: number): Promise<boolean> {
+    const { count } = await this.prisma.firmwareCampaign.updateMany({
+      where: { id, status: 'Running', currentBatch },
+      data: { currentBatch: currentBatch + 1, approvedBatch: currentBatch },
+    });
+    return count === 1;
+  }
+
+  async pauseFirmwareCampaign(id: number, pauseReason: string) {
+    return this.prisma.firmwareCampaign.updateMany({
+      where: { id, status: 'Running' },
+      data: { status: 'Paused', pauseReason },
+    });
+  }
+
+  // Resuming accepts the failures of the batch that paused the campaign
+  async resumeFirmwareCampaign(id: number, currentBatch: number) {
+    return this.prisma.firmwareCampaign.update({
+      where: { id },
+      data: { status: 'Running', pauseReason: null, approvedBatch: currentBatch },
+    });
+  }
+
+  async completeFirmwareCampaign(id: number) {
+    return this.prisma.firmwareCampaign.updateMany({
+      where: { id, status: 'Running' },
+      data: { status: 'Completed' },
+    });
+  }
+
+  // Returns false when the charger is no longer queued, e.g. another node sent it the update
+  async claimFirmwareUpdate(campaignId: number, cpId: string, batch: number, at: Date = new Date()): Promise<boolean> {
+    const { count } = await this.prisma.firmwareUpdate.updateMany({
+      where: { campaignId, cpId, status: 'Queued' },
+      data: { status: 'Sent', batch, sentAt: at },
+    });
+    return count === 1;
+  }
+
+  async failFirmwareUpdate(campaignId: number, cpId: string, error: string, at: Date = new Date()) {
+    return this.prisma.firmwareUpdate.update({
+      where: { campaignId_cpId: { campaignId, cpId } },
+      data: { status: 'Failed', error, completedAt: at },
+    });
+  }
+
+  // Updates without a FirmwareStatusNotification or boot since `before`
+  async failStalledFirmwareUpdates(before: Date, at: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.firmwareUpdate.updateMany({
+      where: { status: { in: IN_PROGRESS_UPDATE_STATUSES }, updatedAt: { lt: before } },
+      data: { status: 'Failed', error: `No progress since ${before.toISOString()}`, completedAt: at },
+    });
+    return count;
+  }
+
+  private storableValue(key: string, value: string | null): string | null {
+    return SECRET_CONFIGURATION_KEYS.includes(key) ? null : value;
+  }
+
+  // Message journal
+  async recordJournalEntry(data: {
+    cpId: string;
+    timestamp: Date;
+    direction: string;
+    messageType?: number;
+    uniqueId?: string;
+    action?: string;
+    payload?: any;
+    latencyMs?: number;
+    errorCode?: string;
+    errorDescription?: string;
+  }) {
+    return this.prisma.ocppMessage.create({ data });
+  }
+
+  async listJournalEntries(cpId: string, filter: {
+    direction?: string;
+    action?: string;
+    from?: Date;
+    to?: Date;
+  }, page: { skip: number; take: number }) {
+    const where: Prisma.OcppMessageWhereInput = {
+      cpId,
+      direction: filter.direction,
+      action: filter.action,
+    };
+    if (filter.from || filter.to) {
+      where.timestamp = { gte: filter.from, lte: filter.to };
+    }
+
+    const [items, total] = await Promise.all([
+      this.prisma.ocppMessage.findMany({ where, orderBy: [{ timestamp: 'desc' }, { id: 'desc' }], ...page }),
+      this.prisma.ocppMessage.count({ where }),
+    ]);
+    return { items, total };
+  }
+
+  // The whole journal of a charger in the order the frames were exchanged, for replay
+  async getJournal(cpId: string, range: { from?: Date; to?: Date }) {
+    return this.prisma.ocppMessage.findMany({
+      where: { cpId, timestamp: { gte: range.from, lte: range.to } },
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    });
+  }
+
   // Check for active transactions when charge point reconnects
   async getActiveTransactions(cpId: string) {
     return this.prisma.transaction.findMany({
@@ -0,0 +1,74 @@
+import { EventEmitter } from 'events';
+import { OcppService } from './OcppService';
+import { DEFAULT_HEARTBEAT_INTERVAL } from '../provisioning';
+
+export interface ChargePointOfflineEvent {
+  cpId: string;
+  lastSeen: Date;
+  // Time between the last message and the sweep that noticed it
+  silentForMs: number;
+  heartbeatIntervalSeconds: number;
+}
+
+export interface OfflineSweeperOptions {
+  sweepIntervalMs: number;
+  // A charger is offline after this many heartbeat intervals without a message
+  missedHeartbeats: number;
+}
+
+// Marks chargers Offline that stopped talking without closing their connection, e.g. after a network drop
+// the server never saw. Emits 'offline' with a ChargePointOfflineEvent for each of them.
+export class OfflineSweeper extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private ocppService: OcppService,
+    private options: OfflineSweeperOptions = {
+      sweepIntervalMs: parseInt(process.env.OCPP_OFFLINE_SWEEP_INTERVAL_MS || '60000'),
+      missedHeartbeats: parseInt(process.env.OCPP_OFFLINE_AFTER_MISSED_HEARTBEATS || '3'),
+    }
+  ) {
+    super();
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('Offline sweep failed:', error));
+    }, this.options.sweepIntervalMs);
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async sweep(now: Date = new Date()): Promise<ChargePointOfflineEvent[]> {
+    const chargePoints = await this.ocppService.getOnlineChargePoints();
+    const events: ChargePointOfflineEvent[] = [];
+
+    for (const chargePoint of chargePoints) {
+      if (!chargePoint.lastSeen) {
+        continue;
+      }
+
+      const heartbeatIntervalSeconds = chargePoint.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+      const silentForMs = now.getTime() - chargePoint.lastSeen.getTime();
+      if (silentForMs <= this.options.missedHeartbeats * heartbeatIntervalSeconds * 1000) {
+        continue;
+      }
+
+      if (await this.ocppService.markChargePointOffline(chargePoint.cpId, chargePoint.lastSeen)) {
+        const event = { cpId: chargePoint.cpId, lastSeen: chargePoint.lastSeen, silentForMs, heartbeatIntervalSeconds };
+        events.push(event);
+        this.emit('offline', event);
+      }
+    }
+
+    return events;
+  }
+}
@@ -1,12 +1,16 @@
 import { Job } from 'bull';
 import { OcppService } from './OcppService';
-import { QueueService, HeartbeatJob, StatusNotificationJob, MeterValuesJob } from './QueueService';
+import { QueueService, HeartbeatJob, StatusNotificationJob, MeterValuesJob, MessageJournalJob } from './QueueService';
+import { JobHandler } from './JobHandler';
 
 export class QueueProcessor {
+  private jobs: JobHandler;
+
   constructor(
     private ocppService: OcppService,
     private queueService: QueueService
   ) {
+    this.jobs = new JobHandler(ocppService);
     this.setupProcessors();
   }
 
@@ -16,7 +20,7 @@ export class QueueProcessor {
       console.log(`Processing heartbeat job for CP ${job.data.cpId}`);
       
       try {
-        await this.ocppService.recordHeartbeat(job.data.cpId);
+        await this.jobs.heartbeat(job.data);
         console.log(`Heartbeat processed successfully for CP ${job.data.cpId}`);
       } catch (error) {
         console.error(`Failed to process heartbeat for CP ${job.data.cpId}:`, error);
@@ -29,16 +33,7 @@ export class QueueProcessor {
       console.log(`Processing status notification job for CP ${job.data.cpId}, connector ${job.data.connectorId}`);
       
       try {
-        await this.ocppService.recordStatusNotification({
-          cpId: job.data.cpId,
-          connectorId: job.data.connectorId,
-          status: job.data.status,
-          errorCode: job.data.errorCode,
-          info: job.data.info,
-          vendorId: job.data.vendorId,
-          vendorErrorCode: job.data.vendorErrorCode,
-          additionalInfo: job.data.additionalInfo,
-        });
+        await this.jobs.statusNotification(job.data);
         console.log(`Status notification processed successfully for CP ${job.data.cpId}`);
       } catch (error) {
         console.error(`Failed to process status notification for CP ${job.data.cpId}:`, error);
@@ -51,18 +46,7 @@ export class QueueProcessor {
       console.log(`Processing meter values job for CP ${job.data.cpId}, connector ${job.data.connectorId}`);
       
       try {
-        // Convert string timestamps back to Date objects
-        const meterValues = job.data.meterValues.map(mv => ({
-          ...mv,
-          timestamp: new Date(mv.timestamp),
-        }));
-
-        await this.ocppService.recordMeterValues({
-          cpId: job.data.cpId,
-          connectorId: job.data.connectorId,
-          transactionId: job.data.transactionId,
-          meterValues,
-        });
+        await this.jobs.meterValues(job.data);
         console.log(`Meter values processed successfully for CP ${job.data.cpId}`);
       } catch (error) {
         console.error(`Failed to process meter values for CP ${job.data.cpId}:`, error);
@@ -70,6 +54,11 @@ export class QueueProcessor {
       }
     });
 
+    // Message journal processor; one job per frame, so successes are not logged
+    this.queueService.getMessageJournalQueue().process('record-message', 5, async (job: Job<MessageJournalJob>) => {
+      await this.jobs.journalEntry(job.data);
+    });
+
     // Set up event listeners for job status
     this.setupEventListeners();
 
@@ -103,5 +92,10 @@ export class QueueProcessor {
     this.queueService.getMeterValuesQueue().on('failed', (job: Job<MeterValuesJob>, err: Error) => {
       console.error(`Meter values job ${job.id} failed for CP ${job.data.cpId}:`, err.message);
     });
+
+    // Message journal queue events
+    this.queueService.getMessageJournalQueue().on('failed', (job: Job<MessageJournalJob>, err: Error) => {
+      console.error(`Message journal job ${job.id} failed for CP ${job.data.cpId}:`, err.message);
+    });
   }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
+import { createHash } from 'crypto';
 import Redis from 'ioredis';
 import Bull, { Job } from 'bull';
+import { OcppProtocol } from '../protocols';
 
 export interface HeartbeatJob {
   cpId: string;
@@ -15,6 +17,10 @@ export interface StatusNotificationJob {
   vendorId?: string;
   vendorErrorCode?: string;
   timestamp: string;
+  receivedAt?: string;
+  clockSkewMs?: number;
+  // Statuses are checked against the 1.6 state machine unless they come from another protocol
+  protocol?: OcppProtocol;
   additionalInfo?: any;
 }
 
@@ -34,11 +40,73 @@ export interface MeterValuesJob {
   }>;
 }
 
-export class QueueService {
+// One OCPP-J frame for the message journal
+export interface MessageJournalJob {
+  cpId: string;
+  timestamp: string;
+  direction: 'in' | 'out';
+  messageType?: number;
+  uniqueId?: string;
+  action?: string;
+  payload?: any;
+  latencyMs?: number;
+  errorCode?: string;
+  errorDescription?: string;
+}
+
+// The jobs the OCPP controllers hand off; QueueService runs them through Redis, the journal replay inline
+export interface OcppJobQueue {
+  queueHeartbeat(data: HeartbeatJob): Promise<unknown>;
+  queueStatusNotification(data: StatusNotificationJob): Promise<unknown>;
+  queueMeterValues(data: MeterValuesJob): Promise<unknown>;
+}
+
+// CALLRESULT sent for a charger's CALL, kept so a retransmit with the same uniqueId gets the same answer
+export interface CachedResponse {
+  action: string;
+  // SHA-256 of the CALL payload; chargers restarting their uniqueId counter after a reboot reuse ids for new CALLs
+  requestHash: string;
+  payload: any;
+}
+
+function hashRequest(request: any): string {
+  return createHash('sha256').update(JSON.stringify(request ?? null)).digest('hex');
+}
+
+// Claiming sets owner and expiry in one step, so a key can never be left without a TTL
+const CLAIM_OWNERSHIP_SCRIPT = `
+local previous = redis.call('GET', KEYS[1])
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return previous`;
+
+// Ownership keys are only deleted or extended while they still name the given node.
+// Releasing reports 0 only when another node holds the connection.
+const RELEASE_OWNERSHIP_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if owner == ARGV[1] then redis.call('DEL', KEYS[1]) end
+if owner == false or owner == ARGV[1] then return 1 end
+return 0`;
+
+const REFRESH_OWNERSHIP_SCRIPT = `
+local refreshed = 0
+for _, key in ipairs(KEYS) do
+  if redis.call('GET', key) == ARGV[1] then
+    redis.call('EXPIRE', key, ARGV[2])
+    refreshed = refreshed + 1
+  end
+end
+return refreshed`;
+
+export class QueueService implements OcppJobQueue {
   private redis: Redis;
+  // Connections in subscriber mode cannot run other commands, so pub/sub gets its own
+  private subscriber?: Redis;
+  private channelHandlers = new Map<string, (message: any) => void>();
+  private responseCacheTtlSeconds = parseInt(process.env.OCPP_RESPONSE_CACHE_TTL_SECONDS || '600');
   private heartbeatQueue: Bull.Queue<HeartbeatJob>;
   private statusNotificationQueue: Bull.Queue<StatusNotificationJob>;
   private meterValuesQueue: Bull.Queue<MeterValuesJob>;
+  private messageJournalQueue: Bull.Queue<MessageJournalJob>;
 
   constructor() {
     // Initialize Redis connection
@@ -61,6 +129,7 @@ export class QueueService {
     this.heartbeatQueue = new Bull<HeartbeatJob>('heartbeat-queue', redisConfig);
     this.statusNotificationQueue = new Bull<StatusNotificationJob>('status-notification-queue', redisConfig);
     this.meterValuesQueue = new Bull<MeterValuesJob>('meter-values-queue', redisConfig);
+    this.messageJournalQueue = new Bull<MessageJournalJob>('message-journal-queue', redisConfig);
 
     console.log('Queue Service initialized');
   }
@@ -98,6 +167,80 @@ export class QueueService {
     });
   }
 
+  // Queue message journal entry; one per frame, so finished jobs are not kept in Redis
+  async queueJournalEntry(data: MessageJournalJob): Promise<Job<MessageJournalJob>> {
+    return this.messageJournalQueue.add('record-message', data, {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+      removeOnComplete: true,
+    });
+  }
+
+  // Response previously sent for this uniqueId, or null when it is a new CALL. A reused uniqueId with another action
+  // or payload is a new CALL too.
+  async getCachedResponse(cpId: string, uniqueId: string, action: string, request: any): Promise<CachedResponse | null> {
+    const cached = await this.redis.get(this.responseCacheKey(cpId, uniqueId));
+    if (!cached) {
+      return null;
+    }
+
+    const response = JSON.parse(cached) as CachedResponse;
+    return response.action === action && response.requestHash === hashRequest(request) ? response : null;
+  }
+
+  async cacheResponse(cpId: string, uniqueId: string, action: string, request: any, payload: any): Promise<void> {
+    const response: CachedResponse = { action, requestHash: hashRequest(request), payload };
+    await this.redis.set(this.responseCacheKey(cpId, uniqueId), JSON.stringify(response), 'EX', this.responseCacheTtlSeconds);
+  }
+
+  // Node holding the charger's WebSocket, when it is connected anywhere
+  async getConnectionOwner(cpId: string): Promise<string | null> {
+    return this.redis.get(this.ownerKey(cpId));
+  }
+
+  // Returns the node that owned the connection before, if any
+  async claimConnection(cpId: string, nodeId: string, ttlSeconds: number): Promise<string | null> {
+    const previous = await this.redis.eval(CLAIM_OWNERSHIP_SCRIPT, 1, this.ownerKey(cpId), nodeId, ttlSeconds);
+    return (previous as string | null) ?? null;
+  }
+
+  // False when another node has taken the connection over in the meantime
+  async releaseConnection(cpId: string, nodeId: string): Promise<boolean> {
+    const released = await this.redis.eval(RELEASE_OWNERSHIP_SCRIPT, 1, this.ownerKey(cpId), nodeId);
+    return released === 1;
+  }
+
+  async refreshConnections(cpIds: string[], nodeId: string, ttlSeconds: number): Promise<number> {
+    if (cpIds.length === 0) {
+      return 0;
+    }
+    const keys = cpIds.map(cpId => this.ownerKey(cpId));
+    return await this.redis.eval(REFRESH_OWNERSHIP_SCRIPT, keys.length, ...keys, nodeId, ttlSeconds) as number;
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.redis.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: (message: any) => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.redis.duplicate();
+      this.subscriber.on('message', (receivedOn: string, raw: string) => {
+        try {
+          this.channelHandlers.get(receivedOn)?.(JSON.parse(raw));
+        } catch (error) {
+          console.error(`Error handling message on ${receivedOn}:`, error);
+        }
+      });
+    }
+
+    this.channelHandlers.set(channel, handler);
+    await this.subscriber.subscribe(channel);
+  }
+
   // Get queue instances for setting up processors
   getHeartbeatQueue(): Bull.Queue<HeartbeatJob> {
     return this.heartbeatQueue;
@@ -111,11 +254,17 @@ export class QueueService {
     return this.meterValuesQueue;
   }
 
+  getMessageJournalQueue(): Bull.Queue<MessageJournalJob> {
+    return this.messageJournalQueue;
+  }
+
   // Close all connections
   async close(): Promise<void> {
     await this.heartbeatQueue.close();
     await this.statusNotificationQueue.close();
     await this.meterValuesQueue.close();
+    await this.messageJournalQueue.close();
+    await this.subscriber?.quit();
     await this.redis.quit();
   }
 
@@ -124,11 +273,21 @@ export class QueueService {
     const heartbeatStats = await this.heartbeatQueue.getJobCounts();
     const statusNotificationStats = await this.statusNotificationQueue.getJobCounts();
     const meterValuesStats = await this.meterValuesQueue.getJobCounts();
+    const messageJournalStats = await this.messageJournalQueue.getJobCounts();
 
     return {
       heartbeat: heartbeatStats,
       statusNotification: statusNotificationStats,
       meterValues: meterValuesStats,
+      messageJournal: messageJournalStats,
     };
   }
+
+  private ownerKey(cpId: string): string {
+    return `ocpp:owner:${cpId}`;
+  }
+
+  private responseCacheKey(cpId: string, uniqueId: string): string {
+    return `ocpp:response:${cpId}:${uniqueId}`;
+  }
 }
\ No newline at end of file
@@ -1,3 +1,13 @@
 export * from './OcppService';
 export * from './QueueService';
-export * from './QueueProcessor';
\ No newline at end of file
+export * from './QueueProcessor';
+export * from './CallManager';
+export * from './ConnectionRegistry';
+export * from './MessageSequencer';
+export * from './OfflineSweeper';
+export * from './ClusterRouter';
+export * from './JobHandler';
+export * from './MessageJournal';
+export * from './JournalReplayer';
+export * from './FirmwareRepository';
+export * from './FirmwareCampaignRunner';
@@ -0,0 +1,78 @@
+import { X509Certificate } from 'crypto';
+
+// TLS settings for OCPP Security Profiles 2 and 3
+
+export interface TlsConfig {
+  certFile: string;
+  keyFile: string;
+  passphrase?: string;
+}
+
+// The server runs uWS.SSLApp when a certificate and key are configured
+export function loadTlsConfig(env: NodeJS.ProcessEnv = process.env): TlsConfig | null {
+  if (!env.TLS_CERT_FILE || !env.TLS_KEY_FILE) {
+    return null;
+  }
+
+  return {
+    certFile: env.TLS_CERT_FILE,
+    keyFile: env.TLS_KEY_FILE,
+    passphrase: env.TLS_KEY_PASSPHRASE || undefined,
+  };
+}
+
+export function getCommonName(certificate: X509Certificate): string | undefined {
+  const entry = certificate.subject.split('\n').find(part => part.startsWith('CN='));
+  return entry?.slice('CN='.length);
+}
+
+// Profile 3: the certificate must be issued by our CA, currently valid and name the charger.
+// Returns why the certificate is refused, or null when it is accepted.
+export function checkClientCertificate(cpId: string, pem: string, caPem: string, now = new Date()): string | null {
+  let certificate: X509Certificate;
+  let ca: X509Certificate;
+  try {
+    certificate = new X509Certificate(pem);
+    ca = new X509Certificate(caPem);
+  } catch {
+    return 'Certificate could not be parsed';
+  }
+
+  if (!certificate.checkIssued(ca) || !certificate.verify(ca.publicKey)) {
+    return 'Certificate is not issued by the trusted CA';
+  }
+  if (now < new Date(certificate.validFrom) || now > new Date(certificate.validTo)) {
+    return 'Certificate is not valid at this time';
+  }
+
+  const commonName = getCommonName(certificate);
+  if (commonName !== cpId) {
+    return `Certificate CN ${commonName ?? '(none)'} does not match ${cpId}`;
+  }
+
+  return null;
+}
+
+// Comma-separated proxy addresses allowed to pass the client certificate in a header (profile 3 behind a proxy)
+export function loadTrustedProxies(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.TLS_TRUSTED_PROXIES || '')
+    .split(',')
+    .map(address => normalizeAddress(address.trim()))
+    .filter(Boolean);
+}
+
+// Anyone else could send a CA-issued certificate they hold no key for, so the header only counts from the proxy
+export function isTrustedProxy(remoteAddress: string, trustedProxies: string[]): boolean {
+  return trustedProxies.includes(normalizeAddress(remoteAddress));
+}
+
+// IPv4 peers may be reported as IPv4-mapped IPv6, in short (::ffff:10.0.0.1) or full hex form as uWS does
+function normalizeAddress(address: string): string {
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^(?:0{1,4}:){5}ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  }
+  return lower.startsWith('::ffff:') && lower.includes('.') ? lower.slice('::ffff:'.length) : lower;
+}
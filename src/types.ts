@@ -7,26 +7,88 @@ export type ChargePoint = {
   serialNumber?: string;
   lastSeen?: Date;
   status?: string;
+  clockSkewMs?: number;
+  clockSkewUpdatedAt?: Date;
 };
 
 export type Transaction = {
   transactionId: number;
   cpId: string;
   connectorId: number;
-  idTag: string;
+  idTag?: string;
+  externalTransactionId?: string;
   meterStart?: number;
   startTimestamp: Date;
+  startReceivedAt?: Date;
   meterStop?: number;
   stopTimestamp?: Date;
+  stopReceivedAt?: Date;
   stopReason?: string;
   stopIdTag?: string;
+  energyWh?: number;
+  energySource?: string;
   status: string;
 };
 
+export type IdTagStatus = 'Accepted' | 'Blocked' | 'Expired' | 'Invalid' | 'ConcurrentTx';
+
+export type IdTagInfo = {
+  status: IdTagStatus;
+  expiryDate?: string;
+  parentIdTag?: string;
+};
+
+// OCPP 2.0.1 counterpart of IdTagInfo; 1.6 statuses are a subset of AuthorizationStatusEnumType
+export type IdTokenInfo = {
+  status: IdTagStatus;
+  cacheExpiryDateTime?: string;
+  groupIdToken?: { idToken: string; type: 'Central' };
+};
+
 export type CreateTransactionData = {
   cpId: string;
   connectorId: number;
-  idTag: string;
+  idTag?: string;
+  externalTransactionId?: string;
   meterStart?: number;
   startTimestamp: Date;
-};
\ No newline at end of file
+  startReceivedAt?: Date;
+};
+
+// One page of an admin API listing
+export type Page<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// OCPP-J message types
+export enum MessageType {
+  CALL = 2,
+  CALLRESULT = 3,
+  CALLERROR = 4,
+}
+
+// The connection a CALL arrived on; replays have none
+export interface CallContext {
+  connectedAt: Date;
+}
+
+// Dispatches the CALLs of one OCPP version
+export interface OcppActionHandler {
+  handleAction(cpId: string, action: string, payload: any, context?: CallContext): Promise<any>;
+}
+
+// Sends CALLs to charge points: CallManager for sockets on this node, ClusterRouter for any node
+export interface ChargePointCaller {
+  isConnected(cpId: string): boolean | Promise<boolean>;
+  hasPendingCall(cpId: string): boolean;
+  call<T = any>(cpId: string, action: string, payload: any): Promise<T>;
+}
+
+// Configuration keys whose values are never stored or journaled
+export const SECRET_CONFIGURATION_KEYS = ['AuthorizationKey'];
+
+// RemoteCommand.issuedBy of the CALLs the server sends on its own, e.g. after a boot or reconnect
+export const SYSTEM_ISSUER = 'system';
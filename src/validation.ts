@@ -27,17 +27,80 @@ export const StartTransactionRequestSchema = z.object({
   idTag: z.string(),
   meterStart: z.number(),
   reservationId: z.number().optional(),
-  timestamp: z.string()
+  timestamp: z.string().datetime({ offset: true })
+});
+
+// Sampled meter data, shared by MeterValues and StopTransaction
+export const ReadingContextSchema = z.enum([
+  'Interruption.Begin',
+  'Interruption.End',
+  'Other',
+  'Sample.Clock',
+  'Sample.Periodic',
+  'Transaction.Begin',
+  'Transaction.End',
+  'Trigger'
+]);
+
+export const ValueFormatSchema = z.enum(['Raw', 'SignedData']);
+
+export const MeasurandSchema = z.enum([
+  'Current.Export',
+  'Current.Import',
+  'Current.Offered',
+  'Energy.Active.Export.Register',
+  'Energy.Active.Import.Register',
+  'Energy.Reactive.Export.Register',
+  'Energy.Reactive.Import.Register',
+  'Energy.Active.Export.Interval',
+  'Energy.Active.Import.Interval',
+  'Energy.Reactive.Export.Interval',
+  'Energy.Reactive.Import.Interval',
+  'Frequency',
+  'Power.Active.Export',
+  'Power.Active.Import',
+  'Power.Factor',
+  'Power.Offered',
+  'Power.Reactive.Export',
+  'Power.Reactive.Import',
+  'RPM',
+  'SoC',
+  'Temperature',
+  'Voltage'
+]);
+
+export const PhaseSchema = z.enum(['L1', 'L2', 'L3', 'N', 'L1-N', 'L2-N', 'L3-N', 'L1-L2', 'L2-L3', 'L3-L1']);
+
+export const LocationSchema = z.enum(['Body', 'Cable', 'EV', 'Inlet', 'Outlet']);
+
+export const UnitOfMeasureSchema = z.enum([
+  'Wh', 'kWh', 'varh', 'kvarh', 'W', 'kW', 'VA', 'kVA', 'var', 'kvar',
+  'A', 'V', 'Celsius', 'Fahrenheit', 'K', 'Percent'
+]);
+
+export const SampledValueSchema = z.object({
+  value: z.string(),
+  context: ReadingContextSchema.optional(),
+  format: ValueFormatSchema.optional(),
+  measurand: MeasurandSchema.optional(),
+  phase: PhaseSchema.optional(),
+  location: LocationSchema.optional(),
+  unit: UnitOfMeasureSchema.optional()
+});
+
+export const MeterValueSchema = z.object({
+  timestamp: z.string().datetime({ offset: true }),
+  sampledValue: z.array(SampledValueSchema)
 });
 
 // StopTransaction
 export const StopTransactionRequestSchema = z.object({
   meterStop: z.number(),
-  timestamp: z.string(),
+  timestamp: z.string().datetime({ offset: true }),
   transactionId: z.number().optional(),
   reason: z.string().optional(),
   idTag: z.string().optional(),
-  transactionData: z.array(z.any()).optional()
+  transactionData: z.array(MeterValueSchema).optional()
 });
 
 // StatusNotification
@@ -45,25 +108,13 @@ export const StatusNotificationRequestSchema = z.object({
   connectorId: z.number(),
   errorCode: z.string(),
   status: z.string(),
-  timestamp: z.string().optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
   info: z.string().optional(),
   vendorId: z.string().optional(),
   vendorErrorCode: z.string().optional()
 });
 
 // MeterValues
-export const SampledValueSchema = z.object({
-  value: z.string(),
-  measurand: z.string().optional(),
-  phase: z.string().optional(),
-  unit: z.string().optional()
-});
-
-export const MeterValueSchema = z.object({
-  timestamp: z.string(),
-  sampledValue: z.array(SampledValueSchema)
-});
-
 export const MeterValuesRequestSchema = z.object({
   connectorId: z.number(),
   transactionId: z.number().optional(),
@@ -75,4 +126,212 @@ export const DataTransferRequestSchema = z.object({
   vendorId: z.string(),
   messageId: z.string().optional(),
   data: z.string().optional()
-});
\ No newline at end of file
+});
+
+// FirmwareStatusNotification
+export const FirmwareStatusNotificationRequestSchema = z.object({
+  status: z.enum(['Downloaded', 'DownloadFailed', 'Downloading', 'Idle', 'InstallationFailed', 'Installing', 'Installed'])
+});
+
+// RemoteStartTransaction (Central System -> Charge Point)
+export const RemoteStartTransactionRequestSchema = z.object({
+  idTag: z.string().min(1).max(20),
+  connectorId: z.number().int().positive().optional(),
+  chargingProfile: z.record(z.any()).optional()
+});
+
+export const RemoteStartTransactionResponseSchema = z.object({
+  status: z.enum(['Accepted', 'Rejected'])
+});
+
+// RemoteStopTransaction (Central System -> Charge Point)
+export const RemoteStopTransactionRequestSchema = z.object({
+  transactionId: z.number().int()
+});
+
+export const RemoteStopTransactionResponseSchema = z.object({
+  status: z.enum(['Accepted', 'Rejected'])
+});
+
+// GetConfiguration (Central System -> Charge Point); all keys when none are given
+export const GetConfigurationRequestSchema = z.object({
+  key: z.array(z.string().max(50)).optional()
+});
+
+export const KeyValueSchema = z.object({
+  key: z.string().max(50),
+  readonly: z.boolean(),
+  value: z.string().max(500).optional()
+});
+
+export const GetConfigurationResponseSchema = z.object({
+  configurationKey: z.array(KeyValueSchema).optional(),
+  unknownKey: z.array(z.string().max(50)).optional()
+});
+
+// ChangeConfiguration (Central System -> Charge Point)
+export const ChangeConfigurationRequestSchema = z.object({
+  key: z.string().max(50),
+  value: z.string().max(500)
+});
+
+export const ChangeConfigurationResponseSchema = z.object({
+  status: z.enum(['Accepted', 'Rejected', 'RebootRequired', 'NotSupported'])
+});
+
+// Reset (Central System -> Charge Point)
+export const ResetRequestSchema = z.object({
+  type: z.enum(['Hard', 'Soft'])
+});
+
+export const ResetResponseSchema = z.object({
+  status: z.enum(['Accepted', 'Rejected'])
+});
+
+// UnlockConnector (Central System -> Charge Point)
+export const UnlockConnectorRequestSchema = z.object({
+  connectorId: z.number().int().positive()
+});
+
+export const UnlockConnectorResponseSchema = z.object({
+  status: z.enum(['Unlocked', 'UnlockFailed', 'NotSupported'])
+});
+
+// UpdateFirmware (Central System -> Charge Point); the API takes a repository file name instead of a location
+export const UpdateFirmwareRequestSchema = z.object({
+  location: z.string().url().optional(),
+  fileName: z.string().min(1).optional(),
+  retrieveDate: z.string().datetime({ offset: true }).optional(),
+  retries: z.number().int().nonnegative().optional(),
+  retryInterval: z.number().int().positive().optional()
+}).refine(request => (request.location === undefined) !== (request.fileName === undefined), 'Give either location or fileName');
+
+// The answer carries no fields
+export const UpdateFirmwareResponseSchema = z.object({});
+
+// ChangeAvailability (Central System -> Charge Point); connector 0 is the whole charge point
+export const ChangeAvailabilityRequestSchema = z.object({
+  connectorId: z.number().int().nonnegative(),
+  type: z.enum(['Inoperative', 'Operative'])
+});
+
+export const ChangeAvailabilityResponseSchema = z.object({
+  status: z.enum(['Accepted', 'Rejected', 'Scheduled'])
+});
+
+// Security Profile 1 basic-auth password
+export const AuthorizationKeySchema = z.string().min(16).max(40);
+
+export const SetAuthorizationKeyRequestSchema = z.object({
+  authorizationKey: AuthorizationKeySchema
+});
+
+// A key is generated when none is given
+export const ChangeAuthorizationKeyRequestSchema = z.object({
+  authorizationKey: AuthorizationKeySchema.optional()
+});
+
+// Charger provisioning
+export const RegistrationStatusSchema = z.enum(['Accepted', 'Pending', 'Rejected']);
+
+// Seconds, at most a day
+const HeartbeatIntervalSchema = z.number().int().positive().max(86400);
+
+export const ProvisionChargePointRequestSchema = z.object({
+  // Charging station identity, at most 48 characters (OCPP 2.0.1 Part 4 §3.1.1)
+  cpId: z.string().min(1).max(48).regex(/^[^/]+$/),
+  heartbeatInterval: HeartbeatIntervalSchema.optional()
+});
+
+export const ApproveChargePointRequestSchema = z.object({
+  heartbeatInterval: HeartbeatIntervalSchema.optional()
+});
+
+// null goes back to the server default
+export const HeartbeatIntervalRequestSchema = z.object({
+  heartbeatInterval: HeartbeatIntervalSchema.nullable()
+});
+
+// Admin API query parameters
+const PaginationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(200).default(50)
+});
+
+export const ChargePointListQuerySchema = PaginationQuerySchema.extend({
+  status: z.string().optional(),
+  registrationStatus: RegistrationStatusSchema.optional(),
+  vendor: z.string().optional(),
+  firmwareVersion: z.string().optional(),
+  lastSeenFrom: z.string().datetime({ offset: true }).optional(),
+  lastSeenTo: z.string().datetime({ offset: true }).optional()
+});
+
+export const StatusNotificationListQuerySchema = z.object({
+  connectorId: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50)
+});
+
+export const TransactionListQuerySchema = PaginationQuerySchema.extend({
+  cpId: z.string().optional(),
+  idTag: z.string().optional(),
+  status: z.enum(['active', 'completed']).optional(),
+  // Range on the transaction start time
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+});
+
+export const MessageListQuerySchema = PaginationQuerySchema.extend({
+  direction: z.enum(['in', 'out']).optional(),
+  action: z.string().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+});
+
+export const ConfigurationChangeListQuerySchema = PaginationQuerySchema;
+
+export const RemoteCommandListQuerySchema = PaginationQuerySchema.extend({
+  action: z.string().optional(),
+  issuedBy: z.string().optional()
+});
+
+// Configuration templates; the AuthorizationKey is managed per charger and never part of a template
+export const ConfigurationTemplateRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  vendor: z.string().min(1).max(20),
+  model: z.string().min(1).max(20).nullable().default(null),
+  firmwareVersion: z.string().min(1).max(50).nullable().default(null),
+  keys: z.record(z.string().max(50), z.string().max(500))
+    .refine(keys => Object.keys(keys).length > 0, 'A template needs at least one key')
+    .refine(keys => !('AuthorizationKey' in keys), 'AuthorizationKey cannot be part of a template')
+});
+
+export const TemplateIdParamSchema = z.coerce.number().int().positive();
+
+export const ConfigurationDriftListQuerySchema = PaginationQuerySchema.extend({
+  // Only keys that could not be brought in line (Rejected, NotSupported, ReadOnly, Failed)
+  failed: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  status: z.string().optional(),
+  templateId: z.coerce.number().int().positive().optional()
+});
+
+// Firmware campaigns target the chargers of a vendor, optionally narrowed to a model and their current version
+export const FirmwareCampaignRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  vendor: z.string().min(1).max(20),
+  model: z.string().min(1).max(20).nullable().default(null),
+  fromVersion: z.string().min(1).max(50).nullable().default(null),
+  targetVersion: z.string().min(1).max(50),
+  location: z.string().url().optional(),
+  fileName: z.string().min(1).optional(),
+  batchSize: z.number().int().positive().max(500).default(10),
+  maxFailureRate: z.number().min(0).max(1).default(0.2)
+}).refine(request => (request.location === undefined) !== (request.fileName === undefined), 'Give either location or fileName');
+
+export const CampaignIdParamSchema = z.coerce.number().int().positive();
+
+export const FirmwareUpdateListQuerySchema = PaginationQuerySchema.extend({
+  status: z.string().optional()
+});
+
+export const TransactionIdParamSchema = z.coerce.number().int().positive();
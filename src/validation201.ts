@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { LocationSchema, PhaseSchema } from './validation';
+
+// OCPP 2.0.1 core profile message schemas
+
+const DateTimeSchema = z.string().datetime({ offset: true });
+
+export const IdTokenSchema = z.object({
+  idToken: z.string().max(36),
+  type: z.enum(['Central', 'eMAID', 'ISO14443', 'ISO15693', 'KeyCode', 'Local', 'MacAddress', 'NoAuthorization']),
+  additionalInfo: z.array(z.object({
+    additionalIdToken: z.string().max(36),
+    type: z.string().max(50)
+  })).optional()
+});
+
+export const EVSESchema = z.object({
+  id: z.number().int().nonnegative(),
+  connectorId: z.number().int().nonnegative().optional()
+});
+
+// BootNotification
+export const BootNotificationRequestSchema = z.object({
+  chargingStation: z.object({
+    model: z.string().max(20),
+    vendorName: z.string().max(50),
+    serialNumber: z.string().max(25).optional(),
+    firmwareVersion: z.string().max(50).optional(),
+    modem: z.object({
+      iccid: z.string().max(20).optional(),
+      imsi: z.string().max(20).optional()
+    }).optional()
+  }),
+  reason: z.enum([
+    'ApplicationReset', 'FirmwareUpdate', 'LocalReset', 'PowerUp', 'RemoteReset',
+    'ScheduledReset', 'Triggered', 'Unknown', 'Watchdog'
+  ])
+});
+
+// Heartbeat
+export const HeartbeatRequestSchema = z.object({});
+
+// StatusNotification
+export const StatusNotificationRequestSchema = z.object({
+  timestamp: DateTimeSchema,
+  connectorStatus: z.enum(['Available', 'Occupied', 'Reserved', 'Unavailable', 'Faulted']),
+  evseId: z.number().int().nonnegative(),
+  connectorId: z.number().int().nonnegative()
+});
+
+// Authorize
+export const AuthorizeRequestSchema = z.object({
+  idToken: IdTokenSchema,
+  certificate: z.string().max(5500).optional(),
+  iso15118CertificateHashData: z.array(z.record(z.any())).optional()
+});
+
+// MeterValue and SampledValue
+export const ReadingContextSchema = z.enum([
+  'Interruption.Begin',
+  'Interruption.End',
+  'Other',
+  'Sample.Clock',
+  'Sample.Periodic',
+  'Transaction.Begin',
+  'Transaction.End',
+  'Trigger'
+]);
+
+export const MeasurandSchema = z.enum([
+  'Current.Export',
+  'Current.Import',
+  'Current.Offered',
+  'Energy.Active.Export.Register',
+  'Energy.Active.Import.Register',
+  'Energy.Reactive.Export.Register',
+  'Energy.Reactive.Import.Register',
+  'Energy.Active.Export.Interval',
+  'Energy.Active.Import.Interval',
+  'Energy.Active.Net',
+  'Energy.Reactive.Export.Interval',
+  'Energy.Reactive.Import.Interval',
+  'Energy.Reactive.Net',
+  'Energy.Apparent.Net',
+  'Energy.Apparent.Import',
+  'Energy.Apparent.Export',
+  'Frequency',
+  'Power.Active.Export',
+  'Power.Active.Import',
+  'Power.Factor',
+  'Power.Offered',
+  'Power.Reactive.Export',
+  'Power.Reactive.Import',
+  'SoC',
+  'Voltage'
+]);
+
+// Values are numbers scaled by 10^multiplier
+export const SampledValueSchema = z.object({
+  value: z.number(),
+  context: ReadingContextSchema.optional(),
+  measurand: MeasurandSchema.optional(),
+  phase: PhaseSchema.optional(),
+  location: LocationSchema.optional(),
+  signedMeterValue: z.object({
+    signedMeterData: z.string().max(2500),
+    signingMethod: z.string().max(50),
+    encodingMethod: z.string().max(50),
+    publicKey: z.string().max(2500)
+  }).optional(),
+  unitOfMeasure: z.object({
+    unit: z.string().max(20).optional(),
+    multiplier: z.number().int().optional()
+  }).optional()
+});
+
+export const MeterValueSchema = z.object({
+  timestamp: DateTimeSchema,
+  sampledValue: z.array(SampledValueSchema).min(1)
+});
+
+// MeterValues
+export const MeterValuesRequestSchema = z.object({
+  evseId: z.number().int().nonnegative(),
+  meterValue: z.array(MeterValueSchema).min(1)
+});
+
+// TransactionEvent
+export const TransactionEventRequestSchema = z.object({
+  eventType: z.enum(['Started', 'Updated', 'Ended']),
+  timestamp: DateTimeSchema,
+  triggerReason: z.enum([
+    'Authorized', 'CablePluggedIn', 'ChargingRateChanged', 'ChargingStateChanged', 'Deauthorized',
+    'EnergyLimitReached', 'EVCommunicationLost', 'EVConnectTimeout', 'MeterValueClock', 'MeterValuePeriodic',
+    'TimeLimitReached', 'Trigger', 'UnlockCommand', 'StopAuthorized', 'EVDeparted', 'EVDetected',
+    'RemoteStop', 'RemoteStart', 'AbnormalCondition', 'SignedDataReceived', 'ResetCommand'
+  ]),
+  seqNo: z.number().int().nonnegative(),
+  offline: z.boolean().optional(),
+  numberOfPhasesUsed: z.number().int().optional(),
+  cableMaxCurrent: z.number().int().optional(),
+  reservationId: z.number().int().optional(),
+  transactionInfo: z.object({
+    transactionId: z.string().max(36),
+    chargingState: z.enum(['Charging', 'EVConnected', 'SuspendedEV', 'SuspendedEVSE', 'Idle']).optional(),
+    timeSpentCharging: z.number().int().optional(),
+    stoppedReason: z.enum([
+      'DeAuthorized', 'EmergencyStop', 'EnergyLimitReached', 'EVDisconnected', 'GroundFault', 'ImmediateReset',
+      'Local', 'LocalOutOfCredit', 'MasterPass', 'Other', 'OvercurrentFault', 'PowerLoss', 'PowerQuality',
+      'Reboot', 'Remote', 'SOCLimitReached', 'StoppedByEV', 'TimeLimitReached', 'Timeout'
+    ]).optional(),
+    remoteStartId: z.number().int().optional()
+  }),
+  idToken: IdTokenSchema.optional(),
+  evse: EVSESchema.optional(),
+  meterValue: z.array(MeterValueSchema).optional()
+});